@@ -6,92 +6,138 @@
  * Trigger modes:
  *   1. Manual (workflow_dispatch): scrapes the provided blog-url
  *   2. Automatic (push, workflow_run, schedule): scans checkout for markdown
- *      files, picks random posts, and generates comments
+ *      files, picks posts using the `limits.selection` strategy, and
+ *      generates comments. On push, only posts the push added are candidates.
+ *
+ * With the `mode: respond` input (opt-in), it instead replies to readers
+ * who answered the bot's comments (see core/responder.ts). With
+ * `mode: publish`, it posts the drafts a human approved in approval mode
+ * (see core/approval.ts), e.g. when an issue gets the approved label.
+ *
+ * Generate runs write a markdown report to the job summary and set the
+ * step outputs (discussion URLs, comment count) for later steps.
  */
 
-import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
-import { join, extname } from "node:path";
+import { appendFileSync, existsSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { normalize } from "node:path";
 import { loadConfig } from "./config/loader.js";
-import { createProvider } from "./providers/index.js";
+import { defaultConfig } from "./config/defaults.js";
+import {
+  createJudgeProvider,
+  createModerator,
+  createPersonaProviders,
+  createProvider,
+  providerChain,
+} from "./providers/index.js";
 import { generate } from "./core/generator.js";
+import { respond } from "./core/responder.js";
+import { publish } from "./core/approval.js";
+import { retryPolicyFromLimits, setRetryPolicy } from "./core/retry.js";
+import { loadPromptTemplates } from "./core/template.js";
+import { setPromptTemplates } from "./providers/base.js";
+import type { GenerateResult } from "./core/generator.js";
+import type { PublishResult } from "./core/approval.js";
 import { extractPostFromFile } from "./core/scraper.js";
+import { DEFAULT_STATE_PATH, loadState, saveState } from "./core/state.js";
+import { describeEmptySelection, selectPosts } from "./core/selection.js";
+import { findAddedPosts, readPushEvent } from "./core/push.js";
+import { describeScores } from "./core/judge.js";
+import { describeReasons } from "./core/moderation.js";
+import { renderReport, reportTotals } from "./core/report.js";
+import {
+  createPostMatcher,
+  resolveContentConfig,
+  scanBlogPosts,
+} from "./core/content.js";
 import type { GiscusBotConfig, ProviderName } from "./config/types.js";
 
 /** Map provider names to their env var for API keys */
 const PROVIDER_ENV_MAP: Record<string, string> = {
   openai: "GISCUS_BOT_OPENAI_API_KEY",
+  "openai-compatible": "GISCUS_BOT_OPENAI_COMPATIBLE_API_KEY",
+  "azure-openai": "GISCUS_BOT_AZURE_OPENAI_API_KEY",
   claude: "GISCUS_BOT_CLAUDE_API_KEY",
+  gemini: "GISCUS_BOT_GEMINI_API_KEY",
+  mistral: "GISCUS_BOT_MISTRAL_API_KEY",
 };
 
-/** Directories to scan for blog posts (relative to repo root) */
-const BLOG_DIRS = ["_posts", "content", "posts", "blog", "src/posts"];
-
-/** Default config when no config file exists in the user's repo */
-function defaultConfig(): GiscusBotConfig {
-  return {
-    provider: { name: "openai", model: "gpt-4o" },
-    github: { repo: "", discussionCategory: "General" },
-    personas: [
-      {
-        name: "Curious Reader",
-        description: "Asks thoughtful questions about the content",
-        tone: "friendly, inquisitive",
-      },
-    ],
-    limits: { maxPersonas: 1, postsPerRun: 1 },
-    labeling: { prefix: "🤖 **AI-Generated Comment**" },
-  };
-}
-
 function info(msg: string): void {
   console.log(msg);
 }
 
-function fail(msg: string): void {
-  console.error(`::error::${msg}`);
-  process.exitCode = 1;
-}
-
 /**
- * Recursively find all markdown files (.md, .mdx) in a directory.
+ * Log the outcome of a single generate() call.
  */
-function findMarkdownFiles(dir: string): string[] {
-  const results: string[] = [];
-  if (!existsSync(dir)) return results;
-
-  const entries = readdirSync(dir);
-  for (const entry of entries) {
-    const fullPath = join(dir, entry);
-    const stat = statSync(fullPath);
-    if (stat.isDirectory()) {
-      results.push(...findMarkdownFiles(fullPath));
-    } else if ([".md", ".mdx"].includes(extname(entry).toLowerCase())) {
-      results.push(fullPath);
-    }
+function logResult(result: GenerateResult): void {
+  info(`Generated ${result.comments.length} comment(s) for "${result.postTitle}"`);
+  if (result.discussionUrl) info(`Discussion: ${result.discussionUrl}`);
+  if (result.draftsAt) info(`Drafts waiting for review: ${result.draftsAt}`);
+  if (result.skippedPersonas.length > 0) {
+    info(`Skipped (already commented): ${result.skippedPersonas.join(", ")}`);
+  }
+  // Which personas were picked and why, and the model each one used
+  const models = new Map(
+    result.comments.map((c) => [
+      c.personaName,
+      `${c.model} (${c.provider})${c.inReplyTo ? `, replying to ${c.inReplyTo}` : ""}` +
+        (c.judgeScores ? `; judge: ${describeScores(c.judgeScores)}` : ""),
+    ]),
+  );
+  info(`Persona selection (${result.personaSelection.strategy}):`);
+  for (const choice of result.personaSelection.choices) {
+    info(`  ${choice.personaName}: ${choice.reason}; ${models.get(choice.personaName) ?? "no comment"}`);
   }
-  return results;
+  for (const rejection of result.rejectedComments) {
+    info(
+      `Rejected ${rejection.personaName} (try ${rejection.attempt}): ${rejection.reasons.join("; ")}`,
+    );
+  }
+  if (result.droppedPersonas.length > 0) {
+    info(`Dropped (no draft passed the checks): ${result.droppedPersonas.join(", ")}`);
+  }
+  for (const blocked of result.blockedComments) {
+    warn(`Blocked a comment by ${blocked.personaName}: ${describeReasons(blocked.reasons)}`);
+  }
+}
+
+/** Log a warning annotation (shown on the workflow run's summary page) */
+function warn(msg: string): void {
+  console.log(`::warning::${msg}`);
 }
 
 /**
- * Scan all known blog directories for markdown files.
+ * Set a step output (no-op outside GitHub Actions). Values are written
+ * with a random delimiter, so they may span lines.
  */
-function scanBlogPosts(): string[] {
-  const files: string[] = [];
-  for (const dir of BLOG_DIRS) {
-    files.push(...findMarkdownFiles(dir));
-  }
-  return files;
+function setOutput(name: string, value: string): void {
+  const path = process.env.GITHUB_OUTPUT;
+  if (!path) return;
+  const delimiter = `giscus-bot-${randomUUID()}`;
+  appendFileSync(path, `${name}<<${delimiter}\n${value}\n${delimiter}\n`);
 }
 
 /**
- * Fisher-Yates shuffle (in-place).
+ * Report a generate run: the markdown report goes to the job summary,
+ * and the discussion URLs and comment count become step outputs.
  */
-function shuffle<T>(arr: T[]): T[] {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
+function reportResults(results: GenerateResult[]): void {
+  const urls = results
+    .map((r) => r.discussionUrl)
+    .filter((url): url is string => url !== null);
+  setOutput("discussion-url", urls[0] ?? "");
+  setOutput("discussion-urls", JSON.stringify(urls));
+  setOutput("comment-count", String(reportTotals(results).comments));
+
+  const summary = process.env.GITHUB_STEP_SUMMARY;
+  if (summary && results.length > 0) {
+    appendFileSync(summary, renderReport(results, "markdown"));
   }
-  return arr;
+}
+
+function fail(msg: string): void {
+  console.error(`::error::${msg}`);
+  process.exitCode = 1;
 }
 
 async function run(): Promise<void> {
@@ -103,14 +149,21 @@ async function run(): Promise<void> {
     const model = process.env.INPUT_MODEL || "gpt-4o";
     const blogUrl = process.env.INPUT_BLOG_URL;
     const configPath = process.env.INPUT_CONFIG_PATH || "giscus-bot.config.yaml";
+    const mode = process.env.INPUT_MODE || "generate";
 
     if (!githubToken) throw new Error("github-token input is required");
-    if (!providerName) throw new Error("provider input is required");
-    if (!apiKey) throw new Error("api-key input is required");
+    if (mode !== "generate" && mode !== "respond" && mode !== "publish") {
+      throw new Error(`mode input must be "generate", "respond" or "publish" (got "${mode}")`);
+    }
+    // Publishing posts drafts as they are; it needs no AI provider, so
+    // the provider inputs are ignored then
+    const usesProvider = mode !== "publish";
+    if (usesProvider && !providerName) throw new Error("provider input is required");
+    if (usesProvider && !apiKey) throw new Error("api-key input is required");
 
     // Set env vars for provider constructors and publisher
     process.env.GISCUS_BOT_GITHUB_TOKEN = githubToken;
-    if (PROVIDER_ENV_MAP[providerName]) {
+    if (usesProvider && apiKey && providerName && PROVIDER_ENV_MAP[providerName]) {
       process.env[PROVIDER_ENV_MAP[providerName]] = apiKey;
     }
 
@@ -122,49 +175,184 @@ async function run(): Promise<void> {
       config = defaultConfig();
     }
 
-    // Override from action inputs
-    config.provider.name = providerName as ProviderName;
-    config.provider.model = model;
+    // Override from action inputs — with a fallback chain, the inputs
+    // describe the first provider; the others read their keys from env
+    if (usesProvider) {
+      const [primary] = providerChain(config.provider);
+      primary.name = providerName as ProviderName;
+      primary.model = model;
 
-    // Ensure postsPerRun has a default
-    config.limits.postsPerRun = config.limits.postsPerRun ?? 1;
+      // A config that names its own API key env var gets the api-key input there
+      if (apiKey && primary.apiKeyEnv && !process.env[primary.apiKeyEnv]) {
+        process.env[primary.apiKeyEnv] = apiKey;
+      }
+    }
 
     // Infer repo from GITHUB_REPOSITORY if not in config
     if (!config.github.repo && process.env.GITHUB_REPOSITORY) {
       config.github.repo = process.env.GITHUB_REPOSITORY;
     }
 
-    const provider = createProvider(config.provider);
+    // Retry and timeout settings for every AI and GitHub call; retries
+    // show up as workflow warnings
+    setRetryPolicy({
+      ...retryPolicyFromLimits(config.limits),
+      log: (message) => console.log(`::warning::${message}`),
+    });
+
+    // Load what previous runs did (empty on the first run). The runner
+    // starts clean, so without a cache or commit step in the workflow every
+    // scheduled run would start over and repeat itself
+    const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+    if (!existsSync(statePath) && process.env.GITHUB_EVENT_NAME === "schedule") {
+      warn(
+        `No state file at ${statePath}. Unless this is the first run, persist it ` +
+          "between runs (actions/cache or a commit step, see the README's State File " +
+          "section), or the bot will pick the same posts and personas again.",
+      );
+    }
+    const state = loadState(statePath);
+
+    if (mode === "publish") {
+      // ── Post the drafts a human approved ──
+      let result: PublishResult;
+      try {
+        result = await publish(config, { state });
+      } finally {
+        // Drafts posted before a failure are recorded too
+        saveState(state, statePath);
+      }
+      setOutput(
+        "comment-count",
+        String(result.posts.reduce((sum, post) => sum + post.published.length, 0)),
+      );
+      for (const post of result.posts) {
+        const names = post.published.map((p) => p.personaName).join(", ") || "nothing";
+        info(`Published ${names} for "${post.title}" (${post.source})`);
+        if (post.discussionUrl) info(`  Discussion: ${post.discussionUrl}`);
+        for (const skip of post.skipped) {
+          warn(`Skipped a draft by ${skip.personaName} for "${post.title}": ${skip.reason}`);
+        }
+      }
+      info(`${result.waiting} draft(s) still waiting for approval.`);
+      return;
+    }
+
+    setPromptTemplates(loadPromptTemplates(config.prompts));
+    const provider = await createProvider(config.provider);
+    const personaProviders = await createPersonaProviders(config);
+    const judgeProvider = await createJudgeProvider(config);
+    const moderator = await createModerator(config);
 
-    if (blogUrl) {
+    if (mode === "respond") {
+      // ── Answer readers' replies to the bot's comments ──
+      info(`Checking "${config.github.discussionCategory}" discussions for replies to answer`);
+      const result = await respond(config, provider, { state, personaProviders, moderator });
+      saveState(state, statePath);
+      setOutput("comment-count", String(result.replies.length));
+      info(`Checked ${result.discussionsChecked} discussion(s); wrote ${result.replies.length} reply(ies).`);
+      for (const reply of result.replies) {
+        const readers = reply.replyingTo.map((login) => `@${login}`).join(", ");
+        info(`  ${reply.personaName} → ${readers}: ${reply.discussionUrl} (${reply.model})`);
+      }
+      for (const skip of result.skipped) {
+        info(`  Skipped ${skip.discussionUrl}: ${skip.reason}`);
+      }
+      for (const blocked of result.blocked) {
+        warn(
+          `Blocked a reply by ${blocked.personaName} on ${blocked.discussionUrl}: ${describeReasons(blocked.reasons)}`,
+        );
+      }
+    } else if (blogUrl) {
       // ── Manual trigger (workflow_dispatch) ──
       info(`Processing URL: ${blogUrl}`);
-      const result = await generate(blogUrl, config, provider);
-      info(`Generated ${result.comments.length} comment(s) for "${result.postTitle}"`);
-      if (result.discussionUrl) info(`Discussion: ${result.discussionUrl}`);
+      let result: GenerateResult;
+      try {
+        result = await generate(blogUrl, config, provider, {
+          state,
+          personaProviders,
+          judgeProvider,
+          moderator,
+        });
+      } finally {
+        // Comments posted before a failure are recorded too
+        saveState(state, statePath);
+      }
+      logResult(result);
+      reportResults([result]);
     } else {
       // ── Automatic trigger (push, workflow_run, schedule) ──
-      const allFiles = scanBlogPosts();
+      const content = resolveContentConfig(config.content);
+      let allFiles = scanBlogPosts(content, ".", warn);
       if (allFiles.length === 0) {
-        info("No blog posts found in any standard directory. Nothing to do.");
+        info(
+          `No published blog posts match ${content.include.join(", ")}. Nothing to do.`,
+        );
+        reportResults([]);
         return;
       }
 
-      info(`Found ${allFiles.length} blog post(s) across all directories.`);
+      info(`Found ${allFiles.length} published blog post(s).`);
+
+      // On push, only the posts this push added (or renamed) get comments
+      const pushEvent =
+        process.env.GITHUB_EVENT_NAME === "push"
+          ? readPushEvent(process.env.GITHUB_EVENT_PATH)
+          : null;
+      if (pushEvent) {
+        const added = new Set(
+          findAddedPosts(pushEvent, createPostMatcher(content)),
+        );
+        allFiles = allFiles.filter((file) => added.has(normalize(file)));
+        if (allFiles.length === 0) {
+          info(
+            `Push added no new published blog posts matching ${content.include.join(", ")}. Nothing to do.`,
+          );
+          reportResults([]);
+          return;
+        }
+        info(`Push added ${allFiles.length} new blog post(s): ${allFiles.join(", ")}`);
+      }
 
-      // Shuffle and pick postsPerRun random posts
-      shuffle(allFiles);
-      const selected = allFiles.slice(0, config.limits.postsPerRun);
-      info(`Selected ${selected.length} random post(s) to comment on.`);
+      const strategy = config.limits.selection ?? "never-commented";
+      const selected = await selectPosts(
+        allFiles,
+        strategy,
+        config.limits.postsPerRun,
+        { state, eventPath: process.env.GITHUB_EVENT_PATH, config },
+      );
+      info(`Selected ${selected.length} post(s) to comment on (strategy: ${strategy}).`);
+      if (selected.length === 0) {
+        warn(
+          `No posts selected: ${describeEmptySelection(strategy, config.limits.postsPerRun, allFiles.length)}`,
+        );
+        reportResults([]);
+        return;
+      }
 
+      const results: GenerateResult[] = [];
       for (const file of selected) {
         info(`Processing file: ${file}`);
-        const postContext = extractPostFromFile(file);
-        info(`Extracted post: "${postContext.title}"`);
-        const result = await generate(postContext, config, provider);
-        info(`Generated ${result.comments.length} comment(s) for "${result.postTitle}"`);
-        if (result.discussionUrl) info(`Discussion: ${result.discussionUrl}`);
+        const postContext = extractPostFromFile(file, config.site);
+        info(`Extracted post: "${postContext.title}" (${postContext.url})`);
+        let result: GenerateResult;
+        try {
+          result = await generate(postContext, config, provider, {
+            state,
+            postKey: file,
+            personaProviders,
+            judgeProvider,
+            moderator,
+          });
+        } finally {
+          // Save after every post, and when it fails partway, so a
+          // failure doesn't lose the record of what was posted
+          saveState(state, statePath);
+        }
+        logResult(result);
+        results.push(result);
       }
+      reportResults(results);
     }
   } catch (error) {
     fail(error instanceof Error ? error.message : String(error));
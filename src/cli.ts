@@ -10,47 +10,73 @@
  * Usage without config file:
  *   giscus-bot generate https://myblog.com/post --dry-run
  *   giscus-bot generate https://myblog.com/post --provider claude --repo user/blog
+ *   giscus-bot generate https://myblog.com/post --dry-run --output report.json
  *
  * Usage with config file:
  *   giscus-bot generate https://myblog.com/post --config ./giscus-bot.config.yaml
+ *   giscus-bot config validate --config ./giscus-bot.config.yaml
+ *
+ * Answering readers who replied to the bot's comments (opt-in):
+ *   giscus-bot respond --config ./giscus-bot.config.yaml --dry-run
+ *
+ * Posting drafts a human approved (with an `approval` section):
+ *   giscus-bot publish --config ./giscus-bot.config.yaml
  */
 
 import { existsSync } from "node:fs";
 import { Command } from "commander";
 import { loadConfig } from "./config/loader.js";
-import { createProvider } from "./providers/index.js";
+import { defaultConfig } from "./config/defaults.js";
+import { ConfigValidationError, formatIssue } from "./config/schema.js";
+import {
+  createJudgeProvider,
+  createModerator,
+  createPersonaProviders,
+  createProvider,
+  providerChain,
+  resolvePersonaProvider,
+} from "./providers/index.js";
 import { generate } from "./core/generator.js";
+import { respond } from "./core/responder.js";
+import { publish } from "./core/approval.js";
+import { describeReasons } from "./core/moderation.js";
+import { parseReportFormat, renderReport, writeReport } from "./core/report.js";
+import { retryPolicyFromLimits, setRetryPolicy } from "./core/retry.js";
+import { loadPromptTemplates } from "./core/template.js";
+import { setPromptTemplates } from "./providers/base.js";
+import {
+  DEFAULT_STATE_PATH,
+  loadState,
+  pruneState,
+  saveState,
+} from "./core/state.js";
 import type { GiscusBotConfig, ProviderName } from "./config/types.js";
+import type { GenerateResult } from "./core/generator.js";
+import type { PublishResult } from "./core/approval.js";
 
 /**
- * Default config used when no config file is provided.
- * Lets users run `giscus-bot generate <url> --dry-run` with zero setup.
+ * Load the config file if specified or if the default file exists.
+ * Otherwise, use built-in defaults so the CLI works with zero config.
  */
-function defaultConfig(): GiscusBotConfig {
-  return {
-    provider: {
-      name: "openai",
-      model: "gpt-4o",
-    },
-    github: {
-      repo: "",
-      discussionCategory: "General",
-    },
-    personas: [
-      {
-        name: "Curious Reader",
-        description: "Asks thoughtful questions about the content",
-        tone: "friendly, inquisitive",
-      },
-    ],
-    limits: {
-      maxPersonas: 1,
-      postsPerRun: 1,
-    },
-    labeling: {
-      prefix: "🤖 **AI-Generated Comment**",
-    },
-  };
+function resolveConfig(configPath?: string): GiscusBotConfig {
+  if (configPath) {
+    // Explicitly specified config file — error if it doesn't exist
+    return loadConfig(configPath);
+  }
+  if (existsSync("giscus-bot.config.yaml")) {
+    // Default config file found in cwd — use it
+    return loadConfig("giscus-bot.config.yaml");
+  }
+  // No config file — use built-in defaults
+  return defaultConfig();
+}
+
+/** Print a clean error message (no stack trace) and exit */
+function exitWithError(error: unknown): never {
+  console.error(
+    `\nError: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
 }
 
 const program = new Command();
@@ -70,7 +96,7 @@ program
   )
   .option(
     "-p, --provider <name>",
-    "AI provider (openai|claude|ollama)",
+    "AI provider (openai|openai-compatible|azure-openai|claude|gemini|mistral|ollama)",
   )
   .option(
     "-m, --model <name>",
@@ -93,6 +119,14 @@ program
     "Preview generated comments without posting to GitHub",
     false,
   )
+  .option(
+    "-o, --output <file>",
+    "Also write the results to a file (e.g., to review a dry run in CI)",
+  )
+  .option(
+    "--format <format>",
+    "Format of the --output file: json|markdown|text (default: from the file extension)",
+  )
   .action(async (url: string, opts: {
     config?: string;
     provider?: string;
@@ -101,29 +135,25 @@ program
     repo?: string;
     maxPersonas?: string;
     dryRun: boolean;
+    output?: string;
+    format?: string;
   }) => {
     try {
-      // Load config from file if specified or if the default file exists.
-      // Otherwise, use built-in defaults so the CLI works with zero config.
-      let config: GiscusBotConfig;
-
-      if (opts.config) {
-        // Explicitly specified config file — error if it doesn't exist
-        config = loadConfig(opts.config);
-      } else if (existsSync("giscus-bot.config.yaml")) {
-        // Default config file found in cwd — use it
-        config = loadConfig("giscus-bot.config.yaml");
-      } else {
-        // No config file — use built-in defaults
-        config = defaultConfig();
-      }
-
-      // CLI flags override config file values
+      const config = resolveConfig(opts.config);
+      if (opts.format && !opts.output) {
+        console.error("\nError: --format applies to the --output file. Add --output <file>.");
+        process.exit(1);
+      }
+      const format = opts.format ? parseReportFormat(opts.format) : undefined;
+
+      // CLI flags override config file values (the first provider, if
+      // the config lists a fallback chain)
+      const chain = providerChain(config.provider);
       if (opts.provider) {
-        config.provider.name = opts.provider as ProviderName;
+        chain[0].name = opts.provider as ProviderName;
       }
       if (opts.model) {
-        config.provider.model = opts.model;
+        chain[0].model = opts.model;
       }
       if (opts.repo) {
         config.github.repo = opts.repo;
@@ -144,44 +174,345 @@ program
         process.exit(1);
       }
 
-      // Create the AI provider
-      const provider = createProvider(config.provider);
+      // Retry and timeout settings for every AI and GitHub call
+      setRetryPolicy(retryPolicyFromLimits(config.limits));
+      // Custom prompt templates, if the config names any
+      setPromptTemplates(loadPromptTemplates(config.prompts));
+
+      // Create the AI provider, plus any persona- or judge-specific ones
+      const provider = await createProvider(config.provider);
+      const personaProviders = await createPersonaProviders(config);
+      const judgeProvider = await createJudgeProvider(config);
+      const moderator = await createModerator(config);
 
       console.log(`\nGenerating comments for: ${url}`);
-      console.log(`Provider: ${provider.name} (${config.provider.model})`);
-      console.log(`Personas: ${config.personas.slice(0, config.limits.maxPersonas).map((p) => p.name).join(", ")}`);
+      console.log(
+        `Provider: ${chain.map((p) => `${p.name} (${p.model})`).join(" → ")}`,
+      );
+      console.log(`Persona selection: ${config.limits.personaSelection ?? "first"}`);
+      if (config.judge && config.judge.enabled !== false) {
+        const judgeChain = providerChain(resolvePersonaProvider(config.provider, config.judge));
+        console.log(
+          `Judge: ${judgeChain.map((p) => `${p.name} (${p.model})`).join(" → ")}, threshold ${config.judge.threshold ?? 3}/5`,
+        );
+      }
       if (opts.dryRun) {
         console.log("Mode: DRY RUN (comments will not be posted)\n");
+      } else if (config.approval && config.approval.enabled !== false) {
+        console.log("Mode: APPROVAL (comments are drafted for review, not posted)\n");
+      }
+
+      // Load what previous runs did, so personas don't repeat themselves
+      const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+      const state = loadState(statePath);
+
+      // Run the generation pipeline. Save the state even if it fails, so
+      // comments posted before the failure aren't posted again; dry runs
+      // post nothing, so there's nothing new to remember
+      let result: GenerateResult;
+      try {
+        result = await generate(url, config, provider, {
+          dryRun: opts.dryRun,
+          state,
+          personaProviders,
+          judgeProvider,
+          moderator,
+        });
+      } finally {
+        if (!opts.dryRun) {
+          saveState(state, statePath);
+        }
+      }
+
+      // Display results, and write them to the report file if asked
+      process.stdout.write("\n" + renderReport([result], "text", { dryRun: opts.dryRun }));
+      if (opts.output) {
+        writeReport([result], opts.output, format, { dryRun: opts.dryRun });
+        console.log(`Results written to ${opts.output}`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("respond")
+  .description("Reply to readers who answered the bot's comments (opt-in)")
+  .option(
+    "-c, --config <path>",
+    "Path to config file (optional — defaults are used if not provided)",
+  )
+  .option(
+    "-r, --repo <owner/repo>",
+    "GitHub repo for discussions (e.g., user/blog)",
+  )
+  .option(
+    "--category <name>",
+    "Discussion category to check (default: General)",
+  )
+  .option(
+    "--dry-run",
+    "Preview replies without posting to GitHub",
+    false,
+  )
+  .action(async (opts: {
+    config?: string;
+    repo?: string;
+    category?: string;
+    dryRun: boolean;
+  }) => {
+    try {
+      const config = resolveConfig(opts.config);
+      if (opts.repo) {
+        config.github.repo = opts.repo;
+      }
+      if (opts.category) {
+        config.github.discussionCategory = opts.category;
+      }
+      // Even a dry run reads the discussions, so the repo is always needed
+      if (!config.github.repo) {
+        console.error("\nError: --repo is required (or set github.repo in a config file).");
+        process.exit(1);
+      }
+
+      setRetryPolicy(retryPolicyFromLimits(config.limits));
+      setPromptTemplates(loadPromptTemplates(config.prompts));
+      const provider = await createProvider(config.provider);
+      const personaProviders = await createPersonaProviders(config);
+      const moderator = await createModerator(config);
+
+      const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+      const state = loadState(statePath);
+
+      console.log(
+        `\nChecking "${config.github.discussionCategory}" discussions in ${config.github.repo} for replies to answer`,
+      );
+      if (opts.dryRun) {
+        console.log("Mode: DRY RUN (replies will not be posted)");
       }
 
-      // Run the generation pipeline
-      const result = await generate(url, config, provider, {
+      const result = await respond(config, provider, {
         dryRun: opts.dryRun,
+        state,
+        personaProviders,
+        moderator,
       });
+      if (!opts.dryRun) {
+        saveState(state, statePath);
+      }
 
-      // Display results
-      console.log(`\nPost: "${result.postTitle}"`);
-      if (result.discussionUrl) {
-        console.log(`Discussion: ${result.discussionUrl}`);
+      console.log(`Checked ${result.discussionsChecked} discussion(s).`);
+      for (const skip of result.skipped) {
+        console.log(`Skipped ${skip.discussionUrl}: ${skip.reason}`);
+      }
+      for (const blocked of result.blocked) {
+        console.log(
+          `Blocked ${blocked.personaName} on ${blocked.discussionUrl}: ${describeReasons(blocked.reasons)}`,
+        );
       }
 
-      // Print each generated comment with a separator
       console.log("\n" + "=".repeat(60));
-      for (const comment of result.comments) {
-        console.log(`\nPersona: ${comment.personaName}`);
+      for (const reply of result.replies) {
+        const readers = reply.replyingTo.map((login) => `@${login}`).join(", ");
+        console.log(`\n${reply.discussionUrl}`);
+        console.log(
+          `Persona: ${reply.personaName} (${reply.model} via ${reply.provider}), replying to ${readers}`,
+        );
         console.log("-".repeat(40));
-        console.log(comment.formattedComment);
+        console.log(reply.formattedComment);
         console.log("\n" + "=".repeat(60));
       }
 
+      console.log(`\nDone! Wrote ${result.replies.length} reply(ies).`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("publish")
+  .description("Post the drafts a human approved (approval mode)")
+  .option(
+    "-c, --config <path>",
+    "Path to config file (optional — defaults are used if not provided)",
+  )
+  .option(
+    "-r, --repo <owner/repo>",
+    "GitHub repo for discussions (e.g., user/blog)",
+  )
+  .option(
+    "--dry-run",
+    "List the approved drafts without posting them",
+    false,
+  )
+  .action(async (opts: { config?: string; repo?: string; dryRun: boolean }) => {
+    try {
+      const config = resolveConfig(opts.config);
+      if (opts.repo) {
+        config.github.repo = opts.repo;
+      }
+      if (!config.github.repo) {
+        console.error("\nError: --repo is required (or set github.repo in a config file).");
+        process.exit(1);
+      }
+
+      setRetryPolicy(retryPolicyFromLimits(config.limits));
+      const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+      const state = loadState(statePath);
+
+      if (opts.dryRun) {
+        console.log("Mode: DRY RUN (drafts will not be posted)");
+      }
+      let result: PublishResult;
+      try {
+        result = await publish(config, { dryRun: opts.dryRun, state });
+      } finally {
+        // Drafts posted before a failure are recorded too
+        if (!opts.dryRun) {
+          saveState(state, statePath);
+        }
+      }
+
+      let count = 0;
+      for (const post of result.posts) {
+        console.log(`\n${post.title} (${post.source})`);
+        if (post.discussionUrl) {
+          console.log(`Discussion: ${post.discussionUrl}`);
+        }
+        for (const skip of post.skipped) {
+          console.log(`Skipped ${skip.personaName}: ${skip.reason}`);
+        }
+        for (const comment of post.published) {
+          console.log("-".repeat(40));
+          console.log(comment.formattedComment);
+        }
+        count += post.published.length;
+      }
+
       console.log(
-        `\nDone! Generated ${result.comments.length} comment(s).`,
+        `\nDone! ${opts.dryRun ? "Would publish" : "Published"} ${count} comment(s); ${result.waiting} draft(s) still waiting for approval.`,
       );
     } catch (error) {
-      // Print a clean error message without a stack trace for known errors
-      console.error(
-        `\nError: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      exitWithError(error);
+    }
+  });
+
+const stateCommand = program
+  .command("state")
+  .description("Inspect or prune the record of processed posts");
+
+stateCommand
+  .command("show")
+  .description("List processed posts and the comments posted on them")
+  .option("-c, --config <path>", "Path to config file")
+  .action((opts: { config?: string }) => {
+    try {
+      const config = resolveConfig(opts.config);
+      const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+      const state = loadState(statePath);
+      const entries = Object.entries(state.posts);
+
+      console.log(`\nState file: ${statePath}`);
+      if (entries.length === 0) {
+        console.log("No posts processed yet.");
+        return;
+      }
+
+      for (const [key, post] of entries) {
+        console.log(`\n${post.title} (${key})`);
+        if (post.discussionUrl) {
+          console.log(`  Discussion: ${post.discussionUrl}`);
+        }
+        console.log(`  Last processed: ${post.lastProcessedAt}`);
+        for (const comment of post.comments) {
+          console.log(
+            `  - ${comment.personaName} via ${comment.provider} (${comment.model}) at ${comment.createdAt}`,
+          );
+        }
+      }
+
+      console.log(`\n${entries.length} post(s) in state.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+stateCommand
+  .command("prune")
+  .description("Remove posts from the state so they can be picked again")
+  .option("-c, --config <path>", "Path to config file")
+  .option("--older-than <days>", "Remove posts last processed more than N days ago")
+  .option("--missing", "Remove posts whose local file no longer exists", false)
+  .option("--post <key>", "Remove a single post by its key (file path or URL)")
+  .action((opts: {
+    config?: string;
+    olderThan?: string;
+    missing: boolean;
+    post?: string;
+  }) => {
+    try {
+      if (!opts.olderThan && !opts.missing && !opts.post) {
+        throw new Error("Specify at least one of --older-than, --missing or --post.");
+      }
+
+      const config = resolveConfig(opts.config);
+      const statePath = config.state?.path ?? DEFAULT_STATE_PATH;
+      const state = loadState(statePath);
+
+      let olderThan: Date | undefined;
+      if (opts.olderThan) {
+        const days = parseInt(opts.olderThan, 10);
+        if (Number.isNaN(days) || days < 0) {
+          throw new Error(`--older-than expects a number of days, got "${opts.olderThan}".`);
+        }
+        olderThan = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      }
+
+      const removed = pruneState(state, {
+        olderThan,
+        keep: (key) => {
+          if (opts.post && key === opts.post) return false;
+          // URL keys have no local file, so --missing leaves them alone
+          if (opts.missing && !/^https?:\/\//.test(key) && !existsSync(key)) {
+            return false;
+          }
+          return true;
+        },
+      });
+
+      saveState(state, statePath);
+      for (const key of removed) {
+        console.log(`Removed: ${key}`);
+      }
+      console.log(`\nPruned ${removed.length} post(s).`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const configCommand = program
+  .command("config")
+  .description("Work with the giscus-bot config file");
+
+configCommand
+  .command("validate")
+  .description("Check the config file for errors without running anything")
+  .option("-c, --config <path>", "Path to config file", "giscus-bot.config.yaml")
+  .action((opts: { config: string }) => {
+    try {
+      const config = loadConfig(opts.config);
+      // Template syntax errors and unknown placeholders show up here too
+      setPromptTemplates(loadPromptTemplates(config.prompts));
+      console.log(`Config is valid: ${opts.config}`);
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) {
+        exitWithError(error);
+      }
+      console.error(`\nInvalid config in ${opts.config}:`);
+      for (const issue of error.issues) {
+        console.error(`  - ${formatIssue(issue)}`);
+      }
+      console.error(`\n${error.issues.length} problem(s) found.`);
       process.exit(1);
     }
   });
@@ -0,0 +1,79 @@
+/**
+ * Built-in default configuration.
+ *
+ * Used as-is when no config file exists (so `giscus-bot generate <url>
+ * --dry-run` works with zero setup), and as the base that a partial
+ * config file is merged over.
+ */
+
+import type { GiscusBotConfig } from "./types.js";
+
+/**
+ * Create a fresh copy of the default config.
+ * Callers may mutate the result (e.g., CLI flag overrides).
+ */
+export function defaultConfig(): GiscusBotConfig {
+  return {
+    provider: {
+      name: "openai",
+      model: "gpt-4o",
+    },
+    github: {
+      repo: "",
+      discussionCategory: "General",
+    },
+    personas: [
+      {
+        name: "Curious Reader",
+        description: "Asks thoughtful questions about the content",
+        tone: "friendly, inquisitive",
+      },
+    ],
+    limits: {
+      maxPersonas: 1,
+      postsPerRun: 1,
+    },
+    labeling: {
+      prefix: "🤖 **AI-Generated Comment**",
+    },
+  };
+}
+
+/** Plain (non-array) objects are merged key by key; everything else replaces */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a `provider` section describes a different provider than the
+ * base one. Its settings (the model above all) then mean nothing for it,
+ * so the section replaces the base instead of merging over it.
+ */
+function isOtherProvider(key: string, base: Record<string, unknown>, value: Record<string, unknown>): boolean {
+  return key === "provider" && value.name !== undefined && value.name !== base.name;
+}
+
+/**
+ * Deep-merge a partial config over a base config.
+ *
+ * Nested objects are merged key by key; arrays (e.g., `personas`) and
+ * scalars in the override replace the base value. `undefined` and `null`
+ * in the override keep the base value, so an empty YAML section like
+ * `limits:` still gets the defaults. A `provider` naming another provider
+ * replaces the base one whole, so `provider: { name: claude }` doesn't
+ * inherit the default OpenAI model (and fails validation without one).
+ */
+export function mergeConfig(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined || value === null) continue;
+    merged[key] =
+      isPlainObject(value) && isPlainObject(base[key]) && !isOtherProvider(key, base[key], value)
+        ? mergeConfig(base[key], value)
+        : value;
+  }
+  return merged;
+}
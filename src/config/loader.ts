@@ -2,29 +2,143 @@
  * Configuration loader for giscus-bot.
  *
  * Reads a YAML config file and performs environment variable interpolation.
- * The interpolation syntax is ${VAR_NAME} — any occurrence in the YAML string
- * values will be replaced with the corresponding env var at load time.
+ * The interpolation syntax is ${VAR_NAME} — any occurrence in a YAML string
+ * value is replaced with the corresponding env var at load time. Comments
+ * are left alone, so a commented-out line may reference unset variables.
  *
  * This allows users to keep secrets out of config files:
  *   api_key: ${GISCUS_BOT_OPENAI_API_KEY}
+ *
+ * A referenced variable that isn't set is an error; use ${VAR:-fallback}
+ * for optional ones. The parsed file is merged over the built-in defaults
+ * (so partial configs work) and validated against the schema in schema.ts.
  */
 
 import { readFileSync } from "node:fs";
-import { parse as parseYaml } from "yaml";
+import { LineCounter, isScalar, parseDocument, visit } from "yaml";
+import type { Document } from "yaml";
 import { config as loadDotenv } from "dotenv";
 import type { GiscusBotConfig } from "./types.js";
+import { defaultConfig, mergeConfig } from "./defaults.js";
+import { ConfigValidationError, validateConfig } from "./schema.js";
+import type { ConfigIssue } from "./schema.js";
 
 // Load .env file into process.env (no-op if .env doesn't exist)
 loadDotenv();
 
+/** ${VAR} or ${VAR:-fallback} */
+const ENV_VAR_PATTERN = /\$\{([^}:]+)(?::-([^}]*))?\}/g;
+
 /**
- * Replace all ${VAR_NAME} patterns in a string with their env var values.
- * Unmatched variables are left as empty strings (fail-open for optional vars).
+ * Replace all ${VAR_NAME} patterns in the document's string values with
+ * their env var values, in place. ${VAR:-fallback} uses the fallback when
+ * VAR is unset or empty. An unquoted value that becomes a number or
+ * boolean (e.g., `maxPersonas: ${MAX_PERSONAS}`) is read as one.
+ *
+ * @returns An issue for every required variable that isn't set.
  */
-function interpolateEnvVars(raw: string): string {
-  return raw.replace(/\$\{([^}]+)\}/g, (_match, varName: string) => {
-    return process.env[varName] ?? "";
+function interpolateEnvVars(doc: Document, lineCounter: LineCounter): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  visit(doc, {
+    Scalar(_, node) {
+      if (typeof node.value !== "string" || !node.value.includes("${")) return;
+      const line = node.range ? lineCounter.linePos(node.range[0]).line : undefined;
+      const text = node.value.replace(
+        ENV_VAR_PATTERN,
+        (_match, varName: string, fallback: string | undefined) => {
+          const value = process.env[varName];
+          if (value !== undefined && value !== "") return value;
+          if (fallback !== undefined) return fallback;
+          issues.push({
+            path: `\${${varName}}`,
+            message: `environment variable ${varName} is not set (use \${${varName}:-default} to make it optional)`,
+            line,
+          });
+          return "";
+        },
+      );
+      if (node.type === "PLAIN") {
+        const reparsed = parseDocument(text).contents;
+        node.value = isScalar(reparsed) && reparsed.value !== null ? reparsed.value : text;
+      } else {
+        node.value = text;
+      }
+    },
   });
+  return issues;
+}
+
+/**
+ * Find the line of the value at a dotted config path. Falls back to the
+ * closest parent that exists in the file (e.g., for a missing key, the
+ * line of the section it's missing from).
+ */
+function lineOf(doc: Document, lineCounter: LineCounter, path: string): number | undefined {
+  const segments = path
+    ? path.split(".").map((s) => (/^\d+$/.test(s) ? Number(s) : s))
+    : [];
+
+  for (let depth = segments.length; depth >= 0; depth--) {
+    const node = depth === 0 ? doc.contents : doc.getIn(segments.slice(0, depth), true);
+    const range = (node as { range?: [number, number, number] } | null)?.range;
+    if (range) {
+      return lineCounter.linePos(range[0]).line;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse, merge and validate a config file's contents.
+ *
+ * @param raw - The YAML source.
+ * @param source - Name used in error messages (usually the file path).
+ * @returns The validated configuration, with defaults filled in.
+ * @throws ConfigValidationError listing every problem found.
+ */
+export function parseConfig(raw: string, source: string): GiscusBotConfig {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(raw, { lineCounter });
+  if (doc.errors.length > 0) {
+    throw new ConfigValidationError(
+      source,
+      doc.errors.map((error) => ({
+        path: "",
+        message: `YAML syntax error: ${error.message.split("\n")[0]}`,
+        line: error.linePos?.[0].line,
+      })),
+    );
+  }
+
+  // Interpolate env vars in the parsed values, so comments are skipped
+  const envIssues = interpolateEnvVars(doc, lineCounter);
+  if (envIssues.length > 0) {
+    throw new ConfigValidationError(source, envIssues);
+  }
+
+  // An empty file parses to null — treat it as "all defaults"
+  const parsed: unknown = doc.toJS() ?? {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigValidationError(source, [
+      { path: "", message: "must be a mapping of config sections", line: 1 },
+    ]);
+  }
+
+  // Fill in anything the file leaves out from the built-in defaults
+  const merged = mergeConfig(
+    defaultConfig() as unknown as Record<string, unknown>,
+    parsed as Record<string, unknown>,
+  );
+
+  const issues = validateConfig(merged).map((issue) => ({
+    ...issue,
+    line: lineOf(doc, lineCounter, issue.path),
+  }));
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+
+  return merged as unknown as GiscusBotConfig;
 }
 
 /**
@@ -32,21 +146,13 @@ function interpolateEnvVars(raw: string): string {
  *
  * @param configPath - Absolute or relative path to the YAML config file.
  *                     Defaults to ./giscus-bot.config.yaml in the cwd.
- * @returns Parsed and env-interpolated configuration object.
- * @throws If the file cannot be read or parsed.
+ * @returns Parsed, env-interpolated and validated configuration object.
+ * @throws If the file cannot be read, or ConfigValidationError if it's invalid.
  */
 export function loadConfig(
   configPath: string = "giscus-bot.config.yaml",
 ): GiscusBotConfig {
   // Read the raw YAML file as a string
   const raw = readFileSync(configPath, "utf-8");
-
-  // Interpolate env vars before parsing YAML — this keeps the YAML parser
-  // from needing to know about our ${} syntax
-  const interpolated = interpolateEnvVars(raw);
-
-  // Parse the interpolated YAML into a plain object
-  const parsed = parseYaml(interpolated) as GiscusBotConfig;
-
-  return parsed;
+  return parseConfig(raw, configPath);
 }
@@ -0,0 +1,510 @@
+/**
+ * Config schema and validator.
+ *
+ * The schema below mirrors the interfaces in types.ts. Validation walks the
+ * parsed config and collects every problem (not just the first), each with
+ * its dotted YAML path — and, when the config came from a file, the line
+ * it's on — so users can fix everything in one pass:
+ *
+ *   Invalid config in giscus-bot.config.yaml:
+ *     - provider.temperature (line 4): must be at most 2 (got 7)
+ *     - personas (line 9): must have at least 1 item
+ *
+ * When adding a config option, add it to both types.ts and SCHEMA.
+ */
+
+/** A single validation problem */
+export interface ConfigIssue {
+  /** Dotted path to the offending value (e.g., "personas.0.name") */
+  path: string;
+  message: string;
+  /** 1-based line in the config file, when known */
+  line?: number;
+}
+
+/** Thrown when a config fails validation; carries every issue found */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    const details = issues.map((issue) => `  - ${formatIssue(issue)}`).join("\n");
+    super(`Invalid config in ${source}:\n${details}`);
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+/** Format an issue as "path (line N): message" */
+export function formatIssue(issue: ConfigIssue): string {
+  const where = issue.path || "(root)";
+  const line = issue.line !== undefined ? ` (line ${issue.line})` : "";
+  return `${where}${line}: ${issue.message}`;
+}
+
+/** Schema node describing one config value */
+export type SchemaRule =
+  | { type: "string"; required?: boolean; nonEmpty?: boolean; enum?: readonly string[]; check?: (value: string) => string | null }
+  | { type: "number"; required?: boolean; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean"; required?: boolean }
+  | { type: "array"; required?: boolean; minItems?: number; items: SchemaRule; check?: (value: unknown[]) => string | null }
+  | { type: "object"; required?: boolean; properties: Record<string, SchemaRule>; check?: (value: Record<string, unknown>) => ConfigIssue[] }
+  /** A single value, or a non-empty list of them */
+  | { type: "oneOrMany"; required?: boolean; item: SchemaRule }
+  /** Whichever of several rules matches the value's type */
+  | { type: "union"; required?: boolean; rules: SchemaRule[] };
+
+const PROVIDER_NAMES = [
+  "openai",
+  "openai-compatible",
+  "azure-openai",
+  "claude",
+  "gemini",
+  "mistral",
+  "ollama",
+] as const;
+const PERSONA_SELECTION_STRATEGIES = ["first", "random", "round-robin", "weighted", "tag-matched"] as const;
+const LENGTH_UNITS = ["paragraphs", "sentences", "words", "characters"] as const;
+const MAPPINGS = ["pathname", "url", "title", "og:title", "specific", "number"] as const;
+const APPROVAL_TARGETS = ["file", "issue"] as const;
+const SELECTION_STRATEGIES = [
+  "random",
+  "newest-first",
+  "least-commented",
+  "never-commented",
+  "changed-in-this-push",
+] as const;
+
+/** Accept a built-in provider name, or a plugin module path or package name */
+function checkProviderName(value: string): string | null {
+  if ((PROVIDER_NAMES as readonly string[]).includes(value)) return null;
+  if (/^(\.{1,2}\/|\/)/.test(value)) return null;
+  if (/^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/.test(value)) return null;
+  return (
+    `must be one of ${PROVIDER_NAMES.join(", ")}, ` +
+    `or a plugin module path or package name (got "${value}")`
+  );
+}
+
+/** Accept the built-in moderator, or a plugin module path or package name */
+function checkModeratorName(value: string): string | null {
+  if (value === "openai" || /^(\.{1,2}\/|\/)/.test(value)) return null;
+  if (/^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/.test(value)) return null;
+  return `must be "openai", or a plugin module path or package name (got "${value}")`;
+}
+
+/** Reject values that can't be environment variable names */
+function checkEnvVarName(value: string): string | null {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(value)
+    ? null
+    : `must be an environment variable name (got "${value}")`;
+}
+
+/** Reject values that aren't absolute http(s) URLs */
+function checkHttpUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? null
+      : `must be an http(s) URL (got "${value}")`;
+  } catch {
+    return `must be an absolute URL (got "${value}")`;
+  }
+}
+
+/** Sampling settings, shared by providers and per-persona overrides */
+const SAMPLING_PROPERTIES: Record<string, SchemaRule> = {
+  temperature: { type: "number", min: 0, max: 2 },
+  topP: { type: "number", min: 0, max: 1 },
+  maxTokens: { type: "number", integer: true, min: 1 },
+};
+
+/** A single provider, or a fallback chain tried in order */
+const PROVIDER_RULE: SchemaRule = {
+  type: "oneOrMany",
+  item: {
+    type: "object",
+    required: true,
+    properties: {
+      name: { type: "string", required: true, nonEmpty: true, check: checkProviderName },
+      model: { type: "string", required: true, nonEmpty: true },
+      ...SAMPLING_PROPERTIES,
+      timeout: { type: "number", integer: true, min: 1 },
+      baseUrl: { type: "string", check: checkHttpUrl },
+      apiKeyEnv: { type: "string", check: checkEnvVarName },
+      apiVersion: { type: "string", nonEmpty: true },
+    },
+    check: (provider) =>
+      (provider.name === "openai-compatible" || provider.name === "azure-openai") &&
+      provider.baseUrl === undefined
+        ? [{ path: "baseUrl", message: `is required for the "${provider.name}" provider` }]
+        : [],
+  },
+};
+
+/** Provider overrides on top of the top-level provider (personas, the judge) */
+const PROVIDER_OVERRIDE_PROPERTIES: Record<string, SchemaRule> = {
+  // A provider name, or full provider config(s)
+  provider: {
+    type: "union",
+    rules: [{ type: "string", nonEmpty: true, check: checkProviderName }, PROVIDER_RULE],
+  },
+  model: { type: "string", nonEmpty: true },
+  ...SAMPLING_PROPERTIES,
+};
+
+/** A provider name alone doesn't say which model to use */
+function checkProviderOverride(section: Record<string, unknown>): ConfigIssue[] {
+  return typeof section.provider === "string" && section.model === undefined
+    ? [{ path: "model", message: `is required when "provider" is a provider name` }]
+    : [];
+}
+
+/** The full config schema */
+export const SCHEMA: SchemaRule = {
+  type: "object",
+  required: true,
+  properties: {
+    provider: { ...PROVIDER_RULE, required: true },
+    github: {
+      type: "object",
+      required: true,
+      properties: {
+        // Empty is allowed: dry runs don't need it and the Action infers it
+        repo: {
+          type: "string",
+          required: true,
+          check: (value) =>
+            value === "" || /^[\w.-]+\/[\w.-]+$/.test(value)
+              ? null
+              : `must be "owner/repo" (got "${value}")`,
+        },
+        discussionCategory: { type: "string", required: true, nonEmpty: true },
+        mapping: { type: "string", enum: MAPPINGS },
+        term: { type: "string", nonEmpty: true },
+        strict: { type: "boolean" },
+      },
+      check: (github) => {
+        const mapping = github.mapping;
+        if ((mapping === "specific" || mapping === "number") && github.term === undefined) {
+          return [{ path: "term", message: `is required for "${mapping}" mapping` }];
+        }
+        if (mapping === "number" && typeof github.term === "string" && !/^[1-9]\d*$/.test(github.term)) {
+          return [{ path: "term", message: `must be a discussion number for "number" mapping (got "${github.term}")` }];
+        }
+        return [];
+      },
+    },
+    personas: {
+      type: "array",
+      required: true,
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", required: true, nonEmpty: true },
+          description: { type: "string", required: true, nonEmpty: true },
+          tone: { type: "string", required: true, nonEmpty: true },
+          expertise: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+          examples: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+          forbiddenPhrases: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+          length: {
+            type: "object",
+            properties: {
+              min: { type: "number", integer: true, min: 1 },
+              max: { type: "number", integer: true, min: 1 },
+              unit: { type: "string", enum: LENGTH_UNITS },
+            },
+            check: (length) => {
+              if (length.min === undefined && length.max === undefined) {
+                return [{ path: "", message: `needs "min", "max" or both` }];
+              }
+              return typeof length.min === "number" && typeof length.max === "number" && length.min > length.max
+                ? [{ path: "max", message: `must be at least min (${length.min})` }]
+                : [];
+            },
+          },
+          language: { type: "string", nonEmpty: true },
+          endWithQuestion: { type: "boolean" },
+          weight: { type: "number", min: 0 },
+          topics: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+          ...PROVIDER_OVERRIDE_PROPERTIES,
+        },
+        check: checkProviderOverride,
+      },
+      check: (personas) => {
+        const names = personas.map((p) => (p as { name?: unknown })?.name);
+        const duplicate = names.find((name, i) => name !== undefined && names.indexOf(name) !== i);
+        return duplicate !== undefined
+          ? `persona names must be unique ("${duplicate}" appears more than once)`
+          : null;
+      },
+    },
+    limits: {
+      type: "object",
+      required: true,
+      properties: {
+        maxPersonas: { type: "number", required: true, integer: true, min: 1 },
+        postsPerRun: { type: "number", required: true, integer: true, min: 1 },
+        selection: { type: "string", enum: SELECTION_STRATEGIES },
+        personaSelection: { type: "string", enum: PERSONA_SELECTION_STRATEGIES },
+        retries: { type: "number", integer: true, min: 0 },
+        retryDelay: { type: "number", integer: true, min: 0 },
+        maxRetryDelay: { type: "number", integer: true, min: 0 },
+        timeout: { type: "number", integer: true, min: 1 },
+      },
+    },
+    labeling: {
+      type: "object",
+      required: true,
+      properties: {
+        prefix: { type: "string", required: true, nonEmpty: true },
+        showModel: { type: "boolean" },
+      },
+    },
+    site: {
+      type: "object",
+      properties: {
+        baseUrl: { type: "string", required: true, check: checkHttpUrl },
+        permalink: { type: "string", nonEmpty: true },
+      },
+    },
+    content: {
+      type: "object",
+      properties: {
+        include: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+        exclude: { type: "array", items: { type: "string", nonEmpty: true } },
+        extensions: { type: "array", minItems: 1, items: { type: "string", nonEmpty: true } },
+        followSymlinks: { type: "boolean" },
+      },
+    },
+    state: {
+      type: "object",
+      properties: {
+        path: { type: "string", nonEmpty: true },
+      },
+    },
+    conversation: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        maxDepth: { type: "number", integer: true, min: 1 },
+        maxReplies: { type: "number", integer: true, min: 0 },
+      },
+    },
+    respond: {
+      type: "object",
+      properties: {
+        maxRepliesPerRun: { type: "number", integer: true, min: 1 },
+        maxRepliesPerThread: { type: "number", integer: true, min: 1 },
+        maxDiscussions: { type: "number", integer: true, min: 1, max: 100 },
+        allowUsers: { type: "array", items: { type: "string", nonEmpty: true } },
+        denyUsers: { type: "array", items: { type: "string", nonEmpty: true } },
+      },
+    },
+    quality: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        regenerations: { type: "number", integer: true, min: 0 },
+        bannedPhrases: { type: "array", items: { type: "string", nonEmpty: true } },
+        minLength: { type: "number", integer: true, min: 0 },
+        maxLength: { type: "number", integer: true, min: 1 },
+        minPostOverlap: { type: "number", integer: true, min: 0 },
+        requireQuestion: { type: "boolean" },
+        maxSimilarity: { type: "number", min: 0, max: 1 },
+      },
+      check: (quality) =>
+        typeof quality.minLength === "number" &&
+        typeof quality.maxLength === "number" &&
+        quality.minLength > quality.maxLength
+          ? [{ path: "maxLength", message: `must be at least minLength (${quality.minLength})` }]
+          : [],
+    },
+    judge: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        ...PROVIDER_OVERRIDE_PROPERTIES,
+        threshold: { type: "number", min: 1, max: 5 },
+        revisions: { type: "number", integer: true, min: 0 },
+      },
+      check: checkProviderOverride,
+    },
+    moderation: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        profanity: { type: "boolean" },
+        blockedWords: { type: "array", items: { type: "string", nonEmpty: true } },
+        allowedUrls: { type: "array", items: { type: "string", check: checkHttpUrl } },
+        allowedMentions: { type: "array", items: { type: "string", nonEmpty: true } },
+        provider: {
+          type: "object",
+          properties: {
+            name: { type: "string", required: true, nonEmpty: true, check: checkModeratorName },
+            model: { type: "string", nonEmpty: true },
+            baseUrl: { type: "string", check: checkHttpUrl },
+            apiKeyEnv: { type: "string", check: checkEnvVarName },
+            timeout: { type: "number", integer: true, min: 1 },
+            ignoreCategories: { type: "array", items: { type: "string", nonEmpty: true } },
+          },
+        },
+      },
+    },
+    approval: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        target: { type: "string", enum: APPROVAL_TARGETS },
+        path: { type: "string", nonEmpty: true },
+        label: { type: "string", nonEmpty: true },
+        approvedLabel: { type: "string", nonEmpty: true },
+      },
+      // Draft issues carrying the approved label would be approved on creation
+      check: (approval) => {
+        const label = String(approval.label ?? "giscus-bot").toLowerCase();
+        const approvedLabel = String(approval.approvedLabel ?? "approved").toLowerCase();
+        return label === approvedLabel
+          ? [{ path: "approvedLabel", message: `must differ from "label" (both are "${label}")` }]
+          : [];
+      },
+    },
+    prompts: {
+      type: "object",
+      properties: {
+        system: { type: "string", nonEmpty: true },
+        user: { type: "string", nonEmpty: true },
+      },
+    },
+  },
+};
+
+/** Describe a value's type for error messages */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/** The value types a rule accepts, for picking a union branch */
+function acceptedTypes(rule: SchemaRule): string[] {
+  switch (rule.type) {
+    case "oneOrMany":
+      return [...acceptedTypes(rule.item), "array"];
+    case "union":
+      return rule.rules.flatMap(acceptedTypes);
+    case "array":
+      return ["array"];
+    default:
+      return [rule.type];
+  }
+}
+
+/** Describe an accepted type for error messages */
+function describeType(type: string): string {
+  if (type === "object") return "a mapping";
+  if (type === "array") return "a list";
+  return `a ${type}`;
+}
+
+/** Join a parent path and a key */
+function child(path: string, key: string | number): string {
+  if (key === "") return path;
+  return path ? `${path}.${key}` : String(key);
+}
+
+/**
+ * Validate a value against a schema rule, collecting issues.
+ * Paths are relative to the root config object.
+ */
+function validateValue(rule: SchemaRule, value: unknown, path: string, issues: ConfigIssue[]): void {
+  const fail = (message: string, at = path): void => {
+    issues.push({ path: at, message });
+  };
+
+  switch (rule.type) {
+    case "string": {
+      if (typeof value !== "string") return fail(`must be a string (got ${typeOf(value)})`);
+      if (rule.nonEmpty && value.trim() === "") return fail("must not be empty");
+      if (rule.enum && !rule.enum.includes(value)) {
+        return fail(`must be one of ${rule.enum.join(", ")} (got "${value}")`);
+      }
+      const problem = rule.check?.(value);
+      if (problem) fail(problem);
+      return;
+    }
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail(`must be a number (got ${typeOf(value)})`);
+      }
+      if (rule.integer && !Number.isInteger(value)) return fail(`must be an integer (got ${value})`);
+      if (rule.min !== undefined && value < rule.min) return fail(`must be at least ${rule.min} (got ${value})`);
+      if (rule.max !== undefined && value > rule.max) return fail(`must be at most ${rule.max} (got ${value})`);
+      return;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") fail(`must be true or false (got ${typeOf(value)})`);
+      return;
+    case "array": {
+      if (!Array.isArray(value)) return fail(`must be a list (got ${typeOf(value)})`);
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return fail(`must have at least ${rule.minItems} item${rule.minItems === 1 ? "" : "s"}`);
+      }
+      value.forEach((item, i) => validateValue(rule.items, item, child(path, i), issues));
+      const problem = rule.check?.(value);
+      if (problem) fail(problem);
+      return;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`must be a mapping of keys to values (got ${typeOf(value)})`);
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, childRule] of Object.entries(rule.properties)) {
+        if (record[key] === undefined) {
+          if (childRule.required) fail(`is required`, child(path, key));
+          continue;
+        }
+        validateValue(childRule, record[key], child(path, key), issues);
+      }
+      for (const key of Object.keys(record)) {
+        if (!(key in rule.properties)) {
+          fail(`unknown option "${key}"`, child(path, key));
+        }
+      }
+      for (const issue of rule.check?.(record) ?? []) {
+        fail(issue.message, child(path, issue.path));
+      }
+      return;
+    }
+    case "oneOrMany": {
+      if (!Array.isArray(value)) {
+        validateValue(rule.item, value, path, issues);
+        return;
+      }
+      if (value.length === 0) return fail("must have at least 1 item");
+      value.forEach((item, i) => validateValue(rule.item, item, child(path, i), issues));
+      return;
+    }
+    case "union": {
+      const type = typeOf(value);
+      const match = rule.rules.find((candidate) => acceptedTypes(candidate).includes(type));
+      if (match) return validateValue(match, value, path, issues);
+      const expected = [...new Set(rule.rules.flatMap(acceptedTypes))].map(describeType);
+      const list = `${expected.slice(0, -1).join(", ")} or ${expected[expected.length - 1]}`;
+      return fail(`must be ${list} (got ${type})`);
+    }
+  }
+}
+
+/**
+ * Validate a config object against the schema.
+ *
+ * @param config - The parsed (and default-merged) config.
+ * @returns Every issue found; empty if the config is valid.
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateValue(SCHEMA, config, "", issues);
+  return issues;
+}
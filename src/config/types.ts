@@ -5,23 +5,83 @@
  * The config file is the primary way users customize bot behavior.
  */
 
-/** Supported AI provider names */
-export type ProviderName = "openai" | "claude" | "ollama";
+/** Built-in AI provider names */
+export type ProviderName =
+  | "openai"
+  | "openai-compatible"
+  | "azure-openai"
+  | "claude"
+  | "gemini"
+  | "mistral"
+  | "ollama";
 
-/** AI provider configuration — which LLM to use and what model */
+/**
+ * AI provider configuration — which LLM to use, what model, and how to
+ * call it. Only `name` and `model` are required; each provider has its own
+ * defaults for the rest.
+ */
 export interface ProviderConfig {
-  name: ProviderName;
+  /**
+   * A built-in provider, or a provider plugin: a local module path
+   * ("./providers/gateway.mjs") or npm package name ("@acme/giscus-bot-gateway")
+   */
+  name: ProviderName | string;
   model: string;
+  /** Sampling temperature (default: 0.7 for OpenAI, the API default elsewhere) */
+  temperature?: number;
+  /** Nucleus sampling cutoff, 0–1 */
+  topP?: number;
+  /** Max tokens in the generated comment (default: 1024 for Claude) */
+  maxTokens?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /**
+   * API endpoint — for OpenAI-compatible gateways or a remote Ollama host.
+   * Required for "openai-compatible" and "azure-openai" (the resource endpoint).
+   */
+  baseUrl?: string;
+  /** Env var holding the API key, instead of the provider's GISCUS_BOT_* default */
+  apiKeyEnv?: string;
+  /** Azure OpenAI API version (default: "2024-10-21") */
+  apiVersion?: string;
 }
 
+/**
+ * How a blog post is mapped to a discussion — mirrors giscus's `data-mapping`.
+ * Use the same value as your giscus widget so both point at the same discussion.
+ */
+export type DiscussionMapping =
+  | "pathname"
+  | "url"
+  | "title"
+  | "og:title"
+  | "specific"
+  | "number";
+
 /** GitHub repository + discussion category targeting */
 export interface GithubConfig {
   /** Format: "owner/repo" (e.g., "user/blog") */
   repo: string;
   /** The Discussions category to post comments in (e.g., "Blog Comments") */
   discussionCategory: string;
+  /** Page ↔ discussion mapping, same as giscus's `data-mapping` (default: "title") */
+  mapping?: DiscussionMapping;
+  /** The search term for "specific" mapping, or the discussion number for "number" */
+  term?: string;
+  /** Match discussions by the SHA-1 hash of the term, same as giscus's `data-strict` */
+  strict?: boolean;
 }
 
+/** Unit for a persona's target comment length */
+export type LengthUnit = "paragraphs" | "sentences" | "words" | "characters";
+
+/** Target comment length; either bound may be omitted */
+export interface LengthConfig {
+  min?: number;
+  max?: number;
+  /** Default: "paragraphs" ("characters" suits languages like Korean) */
+  unit?: LengthUnit;
+}
 
 /**
  * A persona defines the AI's "character" when generating a comment.
@@ -34,27 +94,305 @@ export interface PersonaConfig {
   description: string;
   /** Adjectives describing the persona's writing style */
   tone: string;
+  /** Topics the persona knows well (e.g., ["databases", "Rust"]) */
+  expertise?: string[];
+  /** Sample comments in the persona's voice, shown to the LLM as style examples */
+  examples?: string[];
+  /** Phrases the persona must never use */
+  forbiddenPhrases?: string[];
+  /** Target comment length (default: 2–4 paragraphs) */
+  length?: LengthConfig;
+  /** Language to write in, as a name or code (e.g., "Korean", "ko") */
+  language?: string;
+  /** Whether to end with a question or invitation to discuss (default: true) */
+  endWithQuestion?: boolean;
+  /** Relative chance of being picked with "weighted" selection (default: 1; 0 never) */
+  weight?: number;
+  /** Topics that bring this persona in with "tag-matched" selection (e.g., ["rust"]) */
+  topics?: string[];
+  /**
+   * Provider override for this persona: a provider name (which then needs
+   * `model`), or a full provider config / fallback list like `provider`.
+   * Defaults to the top-level provider.
+   */
+  provider?: string | ProviderConfig | ProviderConfig[];
+  /** Model override, applied to the persona's (first) provider */
+  model?: string;
+  /** Sampling overrides, applied to the persona's (first) provider */
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
 }
 
+/**
+ * How the automatic Action trigger picks posts to comment on.
+ *   - random: any post, uniformly at random
+ *   - newest-first: by front-matter date, falling back to the last git commit time
+ *   - least-commented: fewest comments on the post's discussion first
+ *   - never-commented: posts the bot hasn't commented on yet (default)
+ *   - changed-in-this-push: only posts touched by the triggering push event
+ */
+export type SelectionStrategy =
+  | "random"
+  | "newest-first"
+  | "least-commented"
+  | "never-commented"
+  | "changed-in-this-push";
+
+/**
+ * How personas are picked for a post, among those that haven't commented on it.
+ *   - first: in config order (default)
+ *   - random: uniformly at random
+ *   - round-robin: in config order, continuing after the persona that posted last
+ *   - weighted: at random, in proportion to each persona's `weight`
+ *   - tag-matched: personas whose `topics` appear in the post's tags or text
+ */
+export type PersonaSelectionStrategy =
+  | "first"
+  | "random"
+  | "round-robin"
+  | "weighted"
+  | "tag-matched";
+
 /** Rate-limiting and resource controls */
 export interface LimitsConfig {
   /** Max number of personas to use per blog post (caps AI API calls) */
   maxPersonas: number;
-  /** How many random posts to comment on per run (default: 1) */
+  /** How many posts to comment on per run (default: 1) */
   postsPerRun: number;
+  /** How posts are picked in automatic mode (default: "never-commented") */
+  selection?: SelectionStrategy;
+  /** How personas are picked for each post (default: "first") */
+  personaSelection?: PersonaSelectionStrategy;
+  /** Retries for a failed AI or GitHub call (default: 3; 0 disables) */
+  retries?: number;
+  /** Base backoff between retries in milliseconds, doubled each retry (default: 1000) */
+  retryDelay?: number;
+  /** Longest wait between retries in milliseconds (default: 60000) */
+  maxRetryDelay?: number;
+  /** Timeout for each AI or GitHub call in milliseconds (default: 120000) */
+  timeout?: number;
 }
 
 /** Controls the AI-generated label prepended to each comment */
 export interface LabelingConfig {
   /** Markdown text prepended to every AI comment for transparency */
   prefix: string;
+  /** Add the provider and model that wrote the comment to the label (default: false) */
+  showModel?: boolean;
+}
+
+/**
+ * Where blog posts live in the repo, for the Action's automatic trigger.
+ * Globs are matched against repo-relative paths (e.g., "src/content/blog/**\/index.md").
+ */
+export interface ContentConfig {
+  /** Globs of files to consider (default: the common blog directories) */
+  include?: string[];
+  /** Globs of files to skip, even if included (default: READMEs and _drafts/) */
+  exclude?: string[];
+  /** File extensions treated as posts, with the dot (default: [".md", ".mdx"]) */
+  extensions?: string[];
+  /** Follow symlinked files and directories while scanning (default: false) */
+  followSymlinks?: boolean;
+}
+
+/**
+ * The live blog, used to turn local post files into public URLs
+ * (for discussion bodies and url/pathname mapping).
+ */
+export interface SiteConfig {
+  /** The blog's root URL (e.g., "https://user.github.io" or "https://example.com/blog") */
+  baseUrl: string;
+  /**
+   * Permalink template, e.g. "/:year/:month/:day/:title/" (Jekyll) or
+   * "/posts/:slug/" (Hugo). Default: "/:categories/:year/:month/:day/:title/".
+   */
+  permalink?: string;
+}
+
+/** Where the bot remembers processed posts and posted comments between runs */
+export interface StateConfig {
+  /** Path to the JSON state file (default: "giscus-bot.state.json") */
+  path?: string;
+}
+
+/**
+ * Conversation mode: the first persona opens a top-level comment and the
+ * later ones see what came before and reply to it. Replies only ever go
+ * to the bot's own comments from the same run, never to humans.
+ */
+export interface ConversationConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /**
+   * How deep a back-and-forth may go: 1 means every reply answers the
+   * opening comment, 2 lets a reply answer a reply, and so on (default: 1)
+   */
+  maxDepth?: number;
+  /** Max replies per post per run; later personas post top-level comments (default: no limit) */
+  maxReplies?: number;
+}
+
+/**
+ * Answering readers (the opt-in `respond` command / Action mode): human
+ * replies to the bot's comments get one labeled reply from the persona
+ * they replied to.
+ */
+export interface RespondConfig {
+  /** Max replies posted per run (default: 5) */
+  maxRepliesPerRun?: number;
+  /** Max bot replies in one comment thread; busier threads are left to humans (default: 3) */
+  maxRepliesPerThread?: number;
+  /** How many of the category's most recently updated discussions to check (default: 20) */
+  maxDiscussions?: number;
+  /** Only answer these GitHub users (default: everyone not denied) */
+  allowUsers?: string[];
+  /** Never answer these GitHub users */
+  denyUsers?: string[];
+}
+
+/**
+ * Quality gate: generated comments are checked before posting, and one
+ * that fails is regenerated or, after `regenerations` tries, dropped.
+ */
+export interface QualityConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /** How many times to regenerate a failing comment before dropping it (default: 2) */
+  regenerations?: number;
+  /**
+   * Phrases a comment must not contain (case-insensitive), on top of the
+   * built-in generic ones and each persona's forbiddenPhrases
+   */
+  bannedPhrases?: string[];
+  /** Min comment length in characters (default: 80) */
+  minLength?: number;
+  /** Max comment length in characters (default: 2000) */
+  maxLength?: number;
+  /** Min distinct words a comment must share with the post; 0 turns the check off (default: 2) */
+  minPostOverlap?: number;
+  /** Require a closing question from personas with endWithQuestion on (default: true) */
+  requireQuestion?: boolean;
+  /** Max similarity (0–1) to a comment already on the discussion (default: 0.6) */
+  maxSimilarity?: number;
+}
+
+/**
+ * LLM judge: a second model call scores each draft comment for
+ * faithfulness to the post, specificity and fit with the persona's tone.
+ * Drafts scoring below the threshold are revised or dropped.
+ */
+export interface JudgeConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /**
+   * Provider for the judge: a provider name (which then needs `model`), or
+   * a full provider config / fallback list like `provider`. Defaults to
+   * the top-level provider.
+   */
+  provider?: string | ProviderConfig | ProviderConfig[];
+  /** Model override, applied to the judge's (first) provider */
+  model?: string;
+  /** Sampling overrides, applied to the judge's (first) provider */
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Min score (1–5) every criterion must reach (default: 3) */
+  threshold?: number;
+  /** How many times to revise a low-scoring draft with the judge's feedback; 0 drops it right away (default: 1) */
+  revisions?: number;
+}
+
+/**
+ * A moderation classifier that screens comments after the local rules:
+ * OpenAI's moderation endpoint, or a plugin (e.g., a local model).
+ */
+export interface ModerationProviderConfig {
+  /**
+   * "openai", or a moderation plugin: a local module path
+   * ("./moderation/classifier.mjs") or npm package name
+   */
+  name: string;
+  /** Moderation model (OpenAI default: "omni-moderation-latest") */
+  model?: string;
+  /** API endpoint override */
+  baseUrl?: string;
+  /** Env var holding the API key, instead of the provider's GISCUS_BOT_* default */
+  apiKeyEnv?: string;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Flagged categories to let through anyway (e.g., ["violence"]) */
+  ignoreCategories?: string[];
+}
+
+/**
+ * Moderation: every comment is screened right before it's posted, and
+ * blocked comments are logged with a reason code and never posted.
+ * Slurs and prompt leaks are always blocked; the other rules can be tuned.
+ */
+export interface ModerationConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /** Block common profanity (default: true) */
+  profanity?: boolean;
+  /** More words or phrases to block (case-insensitive) */
+  blockedWords?: string[];
+  /** URL prefixes comments may link to besides the URLs in the post (e.g., "https://docs.rs/") */
+  allowedUrls?: string[];
+  /** GitHub users comments may @-mention (default: none) */
+  allowedMentions?: string[];
+  /** Classifier to run after the local rules */
+  provider?: ModerationProviderConfig;
+}
+
+/** Where drafts wait for review: a file in the repo, or a GitHub issue */
+export type ApprovalTarget = "file" | "issue";
+
+/**
+ * Approval: generate() drafts comments for a human to review instead of
+ * posting them, and `giscus-bot publish` posts the approved drafts.
+ */
+export interface ApprovalConfig {
+  /** Default: true when the section is present */
+  enabled?: boolean;
+  /** Where drafts wait for review (default: "file") */
+  target?: ApprovalTarget;
+  /** The pending drafts file, for the "file" target (default: "giscus-bot.pending.yaml") */
+  path?: string;
+  /** Label put on draft issues, and used to find them (default: "giscus-bot") */
+  label?: string;
+  /** Label that marks a draft issue reviewed and ready to publish (default: "approved") */
+  approvedLabel?: string;
+}
+
+/**
+ * Custom prompt template files, relative to the working directory.
+ * Either may be omitted to keep the built-in prompt.
+ */
+export interface PromptsConfig {
+  /** Template for the system prompt (the persona and instructions) */
+  system?: string;
+  /** Template for the user prompt (the post) */
+  user?: string;
 }
 
 /** Top-level configuration object — the full config file shape */
 export interface GiscusBotConfig {
-  provider: ProviderConfig;
+  /** One provider, or an ordered fallback chain (first choice first) */
+  provider: ProviderConfig | ProviderConfig[];
   github: GithubConfig;
   personas: PersonaConfig[];
   limits: LimitsConfig;
   labeling: LabelingConfig;
+  site?: SiteConfig;
+  content?: ContentConfig;
+  state?: StateConfig;
+  prompts?: PromptsConfig;
+  conversation?: ConversationConfig;
+  respond?: RespondConfig;
+  quality?: QualityConfig;
+  judge?: JudgeConfig;
+  moderation?: ModerationConfig;
+  approval?: ApprovalConfig;
 }
@@ -0,0 +1,278 @@
+/**
+ * Approval — posts the drafts a human approved.
+ *
+ * In approval mode generate() only drafts comments (see drafts.ts). The
+ * `publish` command (and Action mode) then:
+ *   - for the pending file: posts every draft marked `approved: true`
+ *     and removes it from the file; the rest stay for a later review
+ *   - for draft issues: posts the checked drafts of every open draft
+ *     issue carrying the approved label, then comments on and closes it
+ *
+ * Drafts are posted as edited, with the AI label added at publish time,
+ * and recorded in the state like generated comments. A reply goes under
+ * the thread of the comment it answers, which must be published first
+ * (in the same run or an earlier one).
+ *
+ * If posting fails partway, what was already posted is still recorded
+ * and taken out of the review (removed from the file, or from the issue,
+ * which stays open) before the error is rethrown, so a rerun doesn't
+ * post it twice.
+ */
+
+import type { GiscusBotConfig } from "../config/types.js";
+import * as publisher from "./publisher.js";
+import { formatComment } from "./generator.js";
+import {
+  DEFAULT_APPROVED_LABEL,
+  DEFAULT_DRAFT_LABEL,
+  DEFAULT_PENDING_PATH,
+  loadPending,
+  parseDraftIssue,
+  renderDraftIssue,
+  savePending,
+} from "./drafts.js";
+import type { PendingPost } from "./drafts.js";
+import { describeError } from "./retry.js";
+import { recordPost } from "./state.js";
+import type { BotState, CommentRecord } from "./state.js";
+
+/** What was published for one post */
+export interface PublishedPost {
+  title: string;
+  url: string;
+  /** Where the drafts came from: the pending file or the issue URL */
+  source: string;
+  /** null in dry-run mode, or when nothing was approved */
+  discussionUrl: string | null;
+  published: {
+    personaName: string;
+    formattedComment: string;
+    /** Discussion comment node ID (undefined in dry-run mode) */
+    commentId?: string;
+  }[];
+  /** Approved drafts that couldn't be posted, and why */
+  skipped: { personaName: string; reason: string }[];
+}
+
+/** Result of a publish run */
+export interface PublishResult {
+  posts: PublishedPost[];
+  /** Drafts still waiting for approval */
+  waiting: number;
+}
+
+/** An empty result for a post, filled in as its drafts are published */
+function newResult(post: PendingPost, source: string): PublishedPost {
+  return {
+    title: post.title,
+    url: post.url,
+    source,
+    discussionUrl: null,
+    published: [],
+    skipped: [],
+  };
+}
+
+/**
+ * Post one post's approved drafts to its discussion, adding each one to
+ * `result` as it's posted. Posted comments are recorded in the state even
+ * if a later one fails.
+ *
+ * @throws If posting a comment fails.
+ */
+async function publishPost(
+  post: PendingPost,
+  result: PublishedPost,
+  config: GiscusBotConfig,
+  repo: { owner: string; repo: string },
+  options: { dryRun?: boolean; state?: BotState },
+): Promise<void> {
+  // Created on the first post, so skipped drafts never open an empty discussion
+  let discussion: { id: string; url: string } | null = null;
+
+  // GitHub nests replies one level, so every reply goes under its thread's
+  // top-level comment: the persona that opened the thread
+  const roots = new Map<string, string>();
+  const commentIds = new Map<string, string>();
+  // Top-level comments from earlier publish runs can take replies too
+  for (const record of options.state?.posts[post.post]?.comments ?? []) {
+    if (!record.replyToId) commentIds.set(record.personaName, record.id);
+  }
+  const published = new Set<string>(commentIds.keys());
+
+  const records: CommentRecord[] = [];
+  try {
+    for (const draft of post.drafts) {
+      const root = draft.replyTo ? (roots.get(draft.replyTo) ?? draft.replyTo) : draft.persona;
+      roots.set(draft.persona, root);
+      if (!draft.approved) continue;
+
+      const comment = draft.comment.trim();
+      if (comment === "") {
+        result.skipped.push({ personaName: draft.persona, reason: "the comment is empty" });
+        continue;
+      }
+      if (draft.replyTo && !published.has(root)) {
+        result.skipped.push({
+          personaName: draft.persona,
+          reason: `it replies in ${root}'s thread, which isn't published`,
+        });
+        continue;
+      }
+
+      const formattedComment = formatComment(comment, draft.persona, config.labeling, {
+        provider: draft.provider,
+        model: draft.model,
+      });
+      let commentId: string | undefined;
+      if (!options.dryRun) {
+        discussion ??= await publisher.findOrCreateDiscussion(
+          repo.owner,
+          repo.repo,
+          config.github.discussionCategory,
+          post.discussion,
+        );
+        result.discussionUrl = discussion.url;
+        const replyToId = draft.replyTo ? commentIds.get(root) : undefined;
+        const posted = replyToId
+          ? await publisher.addReply(discussion.id, replyToId, formattedComment, config.labeling.prefix)
+          : await publisher.addComment(discussion.id, formattedComment);
+        commentId = posted.id;
+        if (!replyToId) commentIds.set(draft.persona, posted.id);
+        records.push({
+          id: posted.id,
+          personaName: draft.persona,
+          provider: draft.provider,
+          model: draft.model,
+          createdAt: new Date().toISOString(),
+          ...(replyToId ? { replyToId } : {}),
+        });
+      }
+      published.add(draft.persona);
+      result.published.push({ personaName: draft.persona, formattedComment, commentId });
+    }
+  } finally {
+    if (options.state && discussion && records.length > 0) {
+      recordPost(options.state, post.post, {
+        title: post.title,
+        url: post.url,
+        discussionId: discussion.id,
+        discussionUrl: discussion.url,
+        comments: records,
+      });
+    }
+  }
+}
+
+/** A post's drafts, less the ones a result published */
+function unpublished(post: PendingPost, result: PublishedPost): PendingPost {
+  const done = new Set(result.published.map((p) => p.personaName));
+  return { ...post, drafts: post.drafts.filter((draft) => !done.has(draft.persona)) };
+}
+
+/** The closing comment for a published draft issue */
+function closingComment(result: PublishedPost): string {
+  const lines = [
+    `Published ${result.published.length} comment(s) to ${result.discussionUrl}: ` +
+      result.published.map((p) => p.personaName).join(", "),
+  ];
+  for (const skip of result.skipped) {
+    lines.push(`- Not published: ${skip.personaName} (${skip.reason})`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Publish the approved drafts.
+ *
+ * @param config - The full giscus-bot configuration (approval section).
+ * @param options.dryRun - If true, report what would be posted, but post
+ *                         nothing and leave the drafts alone.
+ * @param options.state - Persistent state; published comments are recorded
+ *                        into it.
+ * @returns What was published per post, and how many drafts still wait.
+ */
+export async function publish(
+  config: GiscusBotConfig,
+  options: { dryRun?: boolean; state?: BotState } = {},
+): Promise<PublishResult> {
+  const [owner, repo] = config.github.repo.split("/");
+  if (!owner || !repo) {
+    throw new Error(
+      `Invalid repo format "${config.github.repo}". Expected "owner/repo".`,
+    );
+  }
+  const approval = config.approval ?? {};
+  const posts: PublishedPost[] = [];
+  let waiting = 0;
+
+  if ((approval.target ?? "file") === "issue") {
+    const approvedLabel = approval.approvedLabel ?? DEFAULT_APPROVED_LABEL;
+    const issues = await publisher.getLabeledIssues(
+      owner,
+      repo,
+      approval.label ?? DEFAULT_DRAFT_LABEL,
+    );
+    for (const issue of issues) {
+      const post = parseDraftIssue(issue.body, issue.url);
+      if (!post) continue;
+      if (!issue.labels.some((label) => label.toLowerCase() === approvedLabel.toLowerCase())) {
+        waiting += post.drafts.length;
+        continue;
+      }
+
+      const result = newResult(post, issue.url);
+      posts.push(result);
+      try {
+        await publishPost(post, result, config, { owner, repo }, options);
+      } catch (error) {
+        // Take what was posted out of the issue and leave it open, so the
+        // next run publishes only the rest
+        if (!options.dryRun && result.published.length > 0) {
+          await publisher.updateIssue(
+            issue.id,
+            renderDraftIssue(unpublished(post, result), approvedLabel).body,
+            `${closingComment(result)}\n\nPublishing the rest failed (${describeError(error)}); ` +
+              "they stay here for the next run.",
+          );
+        }
+        throw error;
+      }
+      // An approved issue with nothing checked stays open for another look
+      if (!options.dryRun && result.published.length > 0) {
+        await publisher.closeIssue(issue.id, closingComment(result));
+      }
+    }
+    return { posts, waiting };
+  }
+
+  const path = approval.path ?? DEFAULT_PENDING_PATH;
+  const pending = loadPending(path);
+  const results: PublishedPost[] = [];
+  try {
+    for (const post of pending) {
+      const result = newResult(post, path);
+      results.push(result);
+      await publishPost(post, result, config, { owner, repo }, options);
+    }
+  } finally {
+    // Published drafts leave the file, even when a later one failed
+    if (!options.dryRun && pending.length > 0) {
+      savePending(
+        pending
+          .map((post, i) => (results[i] ? unpublished(post, results[i]) : post))
+          .filter((post) => post.drafts.length > 0),
+        path,
+      );
+    }
+  }
+
+  for (const [i, post] of pending.entries()) {
+    const result = results[i];
+    if (result.published.length > 0 || result.skipped.length > 0) {
+      posts.push(result);
+    }
+    waiting += post.drafts.filter((draft) => !draft.approved).length;
+  }
+  return { posts, waiting };
+}
@@ -0,0 +1,166 @@
+/**
+ * Blog content discovery.
+ *
+ * Finds the markdown posts in the checkout for the Action's automatic
+ * trigger, driven by the `content` config section:
+ *   - include / exclude globs (matched against repo-relative paths)
+ *   - allowed file extensions
+ *   - whether to follow symlinks
+ *
+ * Posts whose front matter marks them as drafts, unpublished, or dated in
+ * the future are skipped — the bot should only comment on live posts.
+ */
+
+import { existsSync, lstatSync, readdirSync, realpathSync, statSync } from "node:fs";
+import { extname, join, relative, sep } from "node:path";
+import picomatch from "picomatch";
+import type { ContentConfig } from "../config/types.js";
+import { isPublished } from "./scraper.js";
+
+/** Directories never worth scanning, whatever the globs say */
+const IGNORED_DIRS = new Set([".git", "node_modules"]);
+
+/** Defaults for every `content` option */
+export const DEFAULT_CONTENT: Required<ContentConfig> = {
+  include: [
+    "_posts/**",
+    "content/**",
+    "posts/**",
+    "blog/**",
+    "src/posts/**",
+    "src/content/**",
+  ],
+  exclude: ["**/README.md", "**/_drafts/**"],
+  extensions: [".md", ".mdx"],
+  followSymlinks: false,
+};
+
+/** Resolve a partial content config against the defaults */
+export function resolveContentConfig(
+  config: ContentConfig | undefined,
+): Required<ContentConfig> {
+  return {
+    include: config?.include ?? DEFAULT_CONTENT.include,
+    exclude: config?.exclude ?? DEFAULT_CONTENT.exclude,
+    extensions: (config?.extensions ?? DEFAULT_CONTENT.extensions).map((ext) =>
+      (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase(),
+    ),
+    followSymlinks: config?.followSymlinks ?? DEFAULT_CONTENT.followSymlinks,
+  };
+}
+
+/** Convert a path to the forward-slash form globs are written in */
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+/**
+ * Build a predicate that tells whether a repo-relative path is a post
+ * candidate by its path alone (globs + extension; front matter not read).
+ */
+export function createPostMatcher(
+  content: Required<ContentConfig>,
+): (path: string) => boolean {
+  const isIncluded = picomatch(content.include, { dot: true });
+  const isExcluded = picomatch(content.exclude, { dot: true });
+
+  return (path: string) => {
+    const posix = toPosix(path);
+    return (
+      content.extensions.includes(extname(posix).toLowerCase()) &&
+      isIncluded(posix) &&
+      !isExcluded(posix)
+    );
+  };
+}
+
+/**
+ * The directory to start walking from for an include glob: the path
+ * segments before the first one with glob syntax (e.g., "src/content"
+ * for "src/content/blog/**\/index.md").
+ */
+function globBase(pattern: string): string {
+  const base: string[] = [];
+  for (const segment of pattern.split("/")) {
+    if (picomatch.scan(segment).isGlob) break;
+    base.push(segment);
+  }
+  return base.join("/") || ".";
+}
+
+/**
+ * Recursively list files under a directory.
+ *
+ * Symlinks are skipped unless `followSymlinks` is set; when following,
+ * directories already visited (by real path) are skipped to avoid loops.
+ */
+function walk(dir: string, followSymlinks: boolean, visited: Set<string>): string[] {
+  const real = realpathSync(dir);
+  if (visited.has(real)) return [];
+  visited.add(real);
+
+  const results: string[] = [];
+  for (const entry of readdirSync(dir)) {
+    if (IGNORED_DIRS.has(entry)) continue;
+    const fullPath = join(dir, entry);
+    const link = lstatSync(fullPath);
+    if (link.isSymbolicLink() && !followSymlinks) continue;
+
+    // statSync follows the link; a dangling link throws, so skip it
+    let stat;
+    try {
+      stat = statSync(fullPath);
+    } catch {
+      continue;
+    }
+
+    if (stat.isDirectory()) {
+      results.push(...walk(fullPath, followSymlinks, visited));
+    } else if (stat.isFile()) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+/**
+ * Find every publishable blog post in the checkout.
+ *
+ * A post whose front matter can't be parsed is skipped with a warning,
+ * so one broken file doesn't stop the others from getting comments.
+ *
+ * @param config - The `content` config section (partial; defaults fill the rest).
+ * @param root - The repo root to scan (defaults to the cwd).
+ * @param warn - Where to report skipped files (defaults to console.warn).
+ * @returns Repo-relative paths of posts, in a stable (sorted) order.
+ */
+export function scanBlogPosts(
+  config: ContentConfig | undefined,
+  root: string = ".",
+  warn: (message: string) => void = (message) => console.warn(message),
+): string[] {
+  const content = resolveContentConfig(config);
+  const isPost = createPostMatcher(content);
+
+  // Walk each distinct base directory once, even if several globs share it
+  const bases = [...new Set(content.include.map(globBase))];
+  const visited = new Set<string>();
+  const files = new Set<string>();
+
+  for (const base of bases) {
+    const dir = join(root, base);
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) continue;
+
+    for (const fullPath of walk(dir, content.followSymlinks, visited)) {
+      const path = relative(root, fullPath);
+      if (!isPost(path)) continue;
+      try {
+        if (isPublished(fullPath)) files.add(path);
+      } catch (error) {
+        warn(`Skipping ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  return [...files].sort();
+}
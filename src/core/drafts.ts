@@ -0,0 +1,311 @@
+/**
+ * Drafts — comments waiting for a human to approve them.
+ *
+ * With an `approval` section, generate() doesn't post; it writes each
+ * post's comments as drafts for review, either:
+ *   - to a pending file in the repo (YAML, so drafts can be edited by
+ *     hand and approved with `approved: true`), or
+ *   - to a GitHub issue, with a checkbox per draft; the reviewer edits
+ *     the issue, checks the drafts to post and adds the approved label
+ *
+ * `giscus-bot publish` (see approval.ts) then posts the approved drafts.
+ * The file looks like:
+ *
+ *   posts:
+ *     - post: _posts/2024-01-01-foo.md
+ *       title: Foo
+ *       url: https://blog.example.com/foo/
+ *       discussion: { term: foo, hash: ..., strict: false, body: ... }
+ *       createdAt: 2024-01-02T09:00:00.000Z
+ *       drafts:
+ *         - persona: Curious Reader
+ *           provider: openai
+ *           model: gpt-4o
+ *           approved: false
+ *           comment: |
+ *             ...
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { Document, isScalar, parse as parseYaml, visit } from "yaml";
+import type { ApprovalConfig } from "../config/types.js";
+import type { DiscussionTarget } from "./mapping.js";
+import * as publisher from "./publisher.js";
+
+/** Default pending drafts file, relative to the project root */
+export const DEFAULT_PENDING_PATH = "giscus-bot.pending.yaml";
+
+/** Default labels for draft issues */
+export const DEFAULT_DRAFT_LABEL = "giscus-bot";
+export const DEFAULT_APPROVED_LABEL = "approved";
+
+/** A drafted comment */
+export interface Draft {
+  persona: string;
+  /** The provider and model that wrote it */
+  provider: string;
+  model: string;
+  /** The persona this draft replies to (conversation mode) */
+  replyTo?: string;
+  /** Whether a reviewer approved it for publishing */
+  approved: boolean;
+  /** The comment text, without the AI label (added when it's published) */
+  comment: string;
+}
+
+/** A post's drafts, with what's needed to publish them */
+export interface PendingPost {
+  /** The post's key in the state (file path for local posts, URL otherwise) */
+  post: string;
+  title: string;
+  url: string;
+  /** The discussion the comments go to (see mapping.ts) */
+  discussion: DiscussionTarget;
+  /** ISO 8601 timestamp of when the drafts were written */
+  createdAt: string;
+  /** In posting order: a reply comes after the comment it answers */
+  drafts: Draft[];
+}
+
+const FILE_HEADER = `# Comments drafted by giscus-bot, waiting for review.
+# Edit a comment if you like and set "approved: true" on the ones to post,
+# then run \`giscus-bot publish\`. Published drafts are removed from this file.
+`;
+
+const CHECKBOX = "Publish this comment";
+
+/**
+ * Check that a parsed value is a PendingPost.
+ *
+ * @param where - Where the value came from, for error messages.
+ * @throws Naming the first missing or mistyped field.
+ */
+function toPendingPost(value: unknown, where: string): PendingPost {
+  const invalid = (path: string, expected: string): never => {
+    throw new Error(`Invalid drafts in ${where}: ${path} must be ${expected}`);
+  };
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+  if (!isObject(value)) return invalid("the post", "an object");
+  for (const key of ["post", "title", "url", "createdAt"]) {
+    if (typeof value[key] !== "string") invalid(key, "a string");
+  }
+  const discussion = value.discussion;
+  if (
+    !isObject(discussion) ||
+    typeof discussion.term !== "string" ||
+    typeof discussion.hash !== "string" ||
+    typeof discussion.body !== "string" ||
+    typeof discussion.strict !== "boolean"
+  ) {
+    invalid("discussion", "a discussion target (term, hash, strict, body)");
+  }
+  if (!Array.isArray(value.drafts)) return invalid("drafts", "a list");
+
+  value.drafts.forEach((draft: unknown, i) => {
+    if (!isObject(draft)) return invalid(`drafts[${i}]`, "an object");
+    for (const key of ["persona", "provider", "model", "comment"]) {
+      if (typeof draft[key] !== "string") invalid(`drafts[${i}].${key}`, "a string");
+    }
+    if (draft.replyTo !== undefined && typeof draft.replyTo !== "string") {
+      invalid(`drafts[${i}].replyTo`, "a string");
+    }
+    if (typeof draft.approved !== "boolean") invalid(`drafts[${i}].approved`, "true or false");
+  });
+  return value as unknown as PendingPost;
+}
+
+/**
+ * Load the pending drafts file, or return no drafts if it doesn't exist.
+ *
+ * @throws If the file exists but doesn't hold valid drafts.
+ */
+export function loadPending(path: string = DEFAULT_PENDING_PATH): PendingPost[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const parsed = parseYaml(readFileSync(path, "utf-8")) as { posts?: unknown } | null;
+  if (!Array.isArray(parsed?.posts)) {
+    throw new Error(`Invalid pending drafts file ${path}: missing "posts" list.`);
+  }
+  return parsed.posts.map((post, i) => toPendingPost(post, `${path} (posts[${i}])`));
+}
+
+/**
+ * Write the pending drafts file. Comments are written as block scalars,
+ * so they read (and edit) like plain text.
+ */
+export function savePending(posts: PendingPost[], path: string = DEFAULT_PENDING_PATH): void {
+  const doc = new Document({ posts });
+  visit(doc, {
+    Pair(_, pair) {
+      if (isScalar(pair.key) && pair.key.value === "comment" && isScalar(pair.value)) {
+        pair.value.type = "BLOCK_LITERAL";
+      }
+    },
+  });
+
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, FILE_HEADER + doc.toString({ lineWidth: 0 }), "utf-8");
+}
+
+/** JSON for an HTML comment marker (never contains "-->") */
+function markerJson(value: unknown): string {
+  return JSON.stringify(value).replace(/>/g, "\\u003e");
+}
+
+/**
+ * Render a post's drafts as a draft issue: a hidden marker per draft
+ * carrying its metadata, then the persona, a checkbox and the comment.
+ *
+ * @param approvedLabel - The label that publishes the issue's checked drafts.
+ */
+export function renderDraftIssue(
+  post: PendingPost,
+  approvedLabel: string = DEFAULT_APPROVED_LABEL,
+): { title: string; body: string } {
+  const { drafts, ...meta } = post;
+  const lines = [
+    `<!-- giscus-bot:post ${markerJson(meta)} -->`,
+    `Comments drafted for **[${post.title}](${post.url})**.`,
+    "",
+    `Check the drafts to publish (edit their text if you like), then add the \`${approvedLabel}\` label. ` +
+      "Unchecked drafts are discarded when the issue is closed.",
+  ];
+  for (const { approved, comment, ...draft } of drafts) {
+    const reply = draft.replyTo ? `, replying to ${draft.replyTo}` : "";
+    lines.push(
+      "",
+      `<!-- giscus-bot:draft ${markerJson(draft)} -->`,
+      `### ${draft.persona}`,
+      `_${draft.model} via ${draft.provider}${reply}_`,
+      "",
+      `- [${approved ? "x" : " "}] ${CHECKBOX}`,
+      "",
+      comment,
+    );
+  }
+  return { title: `AI comment drafts: ${post.title}`, body: lines.join("\n") + "\n" };
+}
+
+/**
+ * Read a draft issue back, with the reviewer's edits: each checked draft
+ * is approved, and its text is whatever follows its checkbox.
+ *
+ * @param body - The issue body.
+ * @param where - Where it came from (e.g., the issue URL), for error messages.
+ * @returns The drafts, or null if the issue isn't a draft issue.
+ * @throws If the markers are damaged or a draft lost its checkbox.
+ */
+export function parseDraftIssue(body: string, where: string): PendingPost | null {
+  // Issues edited on github.com come back with CRLF line endings
+  const parts = body.replace(/\r\n/g, "\n").split(/^<!-- giscus-bot:(post|draft) (\{.*\}) -->$/m);
+  // [before, "post", json, text, "draft", json, text, ...]
+  if (parts.length < 4 || parts[1] !== "post") return null;
+
+  const readJson = (json: string): Record<string, unknown> => {
+    try {
+      return JSON.parse(json) as Record<string, unknown>;
+    } catch {
+      throw new Error(`Invalid drafts in ${where}: a giscus-bot marker was edited and is no longer valid JSON`);
+    }
+  };
+
+  const drafts: unknown[] = [];
+  for (let i = 4; i < parts.length; i += 3) {
+    if (parts[i] !== "draft") {
+      throw new Error(`Invalid drafts in ${where}: it has more than one giscus-bot:post marker`);
+    }
+    const draft = readJson(parts[i + 1]);
+    const text = parts[i + 2];
+    const checkbox = /^\s*[-*] \[([ xX])\].*$/m.exec(text);
+    if (!checkbox) {
+      throw new Error(
+        `Invalid drafts in ${where}: the draft by ${String(draft.persona)} lost its "- [ ] ${CHECKBOX}" checkbox`,
+      );
+    }
+    drafts.push({
+      ...draft,
+      approved: checkbox[1] !== " ",
+      comment: text.slice(checkbox.index + checkbox[0].length).trim(),
+    });
+  }
+  return toPendingPost({ ...readJson(parts[2]), drafts }, where);
+}
+
+/**
+ * Personas with drafts waiting for review on a post, so another run
+ * doesn't draft them again. Draft issues are only checked outside dry-run
+ * mode (`repo` given); the pending file always is.
+ *
+ * @param approval - The config's approval section.
+ * @param postKey - The post's key in the state.
+ * @param repo - The repository, or null in dry-run mode.
+ */
+export async function getPendingPersonas(
+  approval: ApprovalConfig,
+  postKey: string,
+  repo: { owner: string; repo: string } | null,
+): Promise<Set<string>> {
+  let posts: PendingPost[] = [];
+  if ((approval.target ?? "file") === "file") {
+    posts = loadPending(approval.path ?? DEFAULT_PENDING_PATH);
+  } else if (repo) {
+    const issues = await publisher.getLabeledIssues(
+      repo.owner,
+      repo.repo,
+      approval.label ?? DEFAULT_DRAFT_LABEL,
+    );
+    posts = issues
+      .map((issue) => parseDraftIssue(issue.body, issue.url))
+      .filter((post): post is PendingPost => post !== null);
+  }
+  return new Set(
+    posts.filter((post) => post.post === postKey).flatMap((post) => post.drafts.map((d) => d.persona)),
+  );
+}
+
+/**
+ * Put a post's drafts up for review: add them to the pending file
+ * (replacing older drafts by the same personas) or open a draft issue.
+ *
+ * @param post - The post and its drafts.
+ * @param approval - The config's approval section.
+ * @param repo - The repository the issue goes to.
+ * @returns Where the drafts are: the file path or the issue URL.
+ */
+export async function submitDrafts(
+  post: PendingPost,
+  approval: ApprovalConfig,
+  repo: { owner: string; repo: string },
+): Promise<string> {
+  if ((approval.target ?? "file") === "issue") {
+    const { title, body } = renderDraftIssue(post, approval.approvedLabel);
+    const issue = await publisher.createIssue(
+      repo.owner,
+      repo.repo,
+      title,
+      body,
+      approval.label ?? DEFAULT_DRAFT_LABEL,
+    );
+    return issue.url;
+  }
+
+  const path = approval.path ?? DEFAULT_PENDING_PATH;
+  const posts = loadPending(path);
+  const existing = posts.find((p) => p.post === post.post);
+  if (existing) {
+    const personas = new Set(post.drafts.map((d) => d.persona));
+    existing.drafts = [...existing.drafts.filter((d) => !personas.has(d.persona)), ...post.drafts];
+  } else {
+    posts.push(post);
+  }
+  savePending(posts, path);
+  return path;
+}
@@ -0,0 +1,198 @@
+/**
+ * Front matter parsing for local markdown posts.
+ *
+ * Static site generators put post metadata at the top of the file in one
+ * of three formats, which we all support:
+ *   - YAML between `---` lines (Jekyll, Hugo, Astro, ...)
+ *   - TOML between `+++` lines (Hugo, Zola)
+ *   - A JSON object (Hugo)
+ *
+ * The raw key/value data is then normalized into the PostContext metadata
+ * fields (date, tags, description, ...), accepting the common key spellings
+ * of each generator (e.g., `pubDate` in Astro, `canonicalURL` in Hugo).
+ */
+
+import { parse as parseYaml } from "yaml";
+import { parse as parseToml } from "smol-toml";
+
+/** Front matter formats we recognize */
+export type FrontMatterFormat = "yaml" | "toml" | "json";
+
+/** The result of splitting a markdown file into front matter and body */
+export interface ParsedFrontMatter {
+  /** The front matter format, or null if the file has none */
+  format: FrontMatterFormat | null;
+  /** Raw front matter key/values (empty if none) */
+  data: Record<string, unknown>;
+  /** The markdown body after the front matter */
+  body: string;
+}
+
+/** Post metadata read from front matter (all optional) */
+export interface PostMetadata {
+  title?: string;
+  date?: Date;
+  tags?: string[];
+  categories?: string[];
+  description?: string;
+  author?: string;
+  canonicalUrl?: string;
+  slug?: string;
+  /** Permalink override (Jekyll `permalink`, Hugo `url`) */
+  permalink?: string;
+  language?: string;
+  draft?: boolean;
+  published?: boolean;
+}
+
+/** Delimited front matter: `---` YAML or `+++` TOML */
+const DELIMITED = /^(---|\+\+\+)[ \t]*\r?\n([\s\S]*?)\r?\n\1[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+/**
+ * Find the end of a JSON object at the start of `raw`, tracking strings so
+ * braces inside values don't confuse us. Returns -1 if it never closes.
+ */
+function jsonObjectEnd(raw: string): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/** Ensure parsed front matter is a plain object */
+function asRecord(value: unknown, format: FrontMatterFormat): Record<string, unknown> {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`Invalid ${format.toUpperCase()} front matter: expected key/value pairs.`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Split a markdown file into its front matter and body.
+ *
+ * @param raw - The full file contents.
+ * @returns The detected format, the parsed data and the body.
+ * @throws If the front matter is present but malformed.
+ */
+export function parseFrontMatter(raw: string): ParsedFrontMatter {
+  // Strip a UTF-8 BOM, which some editors add and which breaks the match
+  const text = raw.replace(/^\uFEFF/, "");
+
+  const delimited = text.match(DELIMITED);
+  if (delimited) {
+    const [, fence, source, body] = delimited;
+    const format: FrontMatterFormat = fence === "---" ? "yaml" : "toml";
+    const data = format === "yaml" ? parseYaml(source) : parseToml(source);
+    return { format, data: asRecord(data, format), body };
+  }
+
+  if (text.startsWith("{")) {
+    const end = jsonObjectEnd(text);
+    if (end > 0) {
+      const data = JSON.parse(text.slice(0, end));
+      return { format: "json", data: asRecord(data, "json"), body: text.slice(end) };
+    }
+  }
+
+  return { format: null, data: {}, body: raw };
+}
+
+/** Return the first key present in the data, in priority order */
+function pick(data: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (data[key] !== undefined && data[key] !== null) return data[key];
+  }
+  return undefined;
+}
+
+/** Coerce a scalar to a trimmed non-empty string */
+function toText(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return undefined;
+}
+
+/**
+ * Coerce a list-ish value to a string array. Accepts arrays, and strings
+ * separated by commas (or by spaces, as Jekyll does for `tags: a b c`).
+ */
+function toList(value: unknown): string[] | undefined {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === "string") {
+    items = value.includes(",") ? value.split(",") : value.split(/\s+/);
+  } else {
+    return undefined;
+  }
+
+  const list = items.map(toText).filter((item): item is string => !!item);
+  return list.length > 0 ? list : undefined;
+}
+
+/** Coerce a date-ish value (Date, TOML date, string, timestamp) to a Date */
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : new Date(value.getTime());
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/** Coerce a boolean-ish value ("true", "false", true, false) */
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+}
+
+/** Authors may be a string, a list, or an object with a `name` */
+function toAuthor(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(toAuthor).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(", ") : undefined;
+  }
+  if (value && typeof value === "object" && "name" in value) {
+    return toText((value as { name: unknown }).name);
+  }
+  return toText(value);
+}
+
+/**
+ * Normalize raw front matter into post metadata, accepting the key names
+ * used by Jekyll, Hugo, Astro, Eleventy and friends.
+ */
+export function toPostMetadata(data: Record<string, unknown>): PostMetadata {
+  return {
+    title: toText(data.title),
+    date: toDate(pick(data, ["date", "pubDate", "publishDate", "published_at", "created"])),
+    tags: toList(pick(data, ["tags", "tag", "keywords"])),
+    categories: toList(pick(data, ["categories", "category"])),
+    description: toText(pick(data, ["description", "summary", "excerpt"])),
+    author: toAuthor(pick(data, ["author", "authors"])),
+    canonicalUrl: toText(pick(data, ["canonical_url", "canonicalUrl", "canonicalURL", "canonical"])),
+    slug: toText(data.slug),
+    permalink: toText(pick(data, ["permalink", "url"])),
+    language: toText(pick(data, ["lang", "language", "locale"])),
+    draft: toBoolean(data.draft),
+    published: toBoolean(data.published),
+  };
+}
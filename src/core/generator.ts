@@ -7,42 +7,173 @@
  *   3. Publisher posts comments to GitHub Discussions
  *
  * It also handles the --dry-run mode (preview without posting)
- * and formats comments with the AI-generated label.
+ * and formats comments with the AI-generated label. In conversation mode,
+ * later personas see the earlier comments and reply to them. With a
+ * `quality` section, comments that fail the quality checks are
+ * regenerated or dropped; with a `judge` section, an LLM judge scores the
+ * ones that pass, and low scorers are revised or dropped. With a
+ * `moderation` section, comments are screened right before posting, and
+ * blocked ones are never posted. With an `approval` section, nothing is
+ * posted: the comments become drafts for a human to review (drafts.ts).
  */
 
-import type { GiscusBotConfig } from "../config/types.js";
-import type { AIProvider, PostContext } from "../providers/base.js";
+import type { GiscusBotConfig, PersonaSelectionStrategy } from "../config/types.js";
+import type {
+  AIProvider,
+  CommentSource,
+  Moderator,
+  PostContext,
+  Prompts,
+  TokenUsage,
+} from "../providers/base.js";
+import { providerChain, resolvePersonaProvider } from "../providers/index.js";
 import { extractPost } from "./scraper.js";
 import * as publisher from "./publisher.js";
+import { resolveDiscussionTarget } from "./mapping.js";
+import type { DiscussionTarget } from "./mapping.js";
+import { selectPersonas } from "./personas.js";
+import { checkComment } from "./quality.js";
+import {
+  InvalidVerdictError,
+  describeScores,
+  judgeComment,
+  revisionPrompt,
+} from "./judge.js";
+import type { JudgeScores, JudgeVerdict } from "./judge.js";
+import { moderateComment } from "./moderation.js";
+import { getPendingPersonas, submitDrafts } from "./drafts.js";
+import type { ModerationReason } from "./moderation.js";
+import { getCommentedPersonas, recordPost } from "./state.js";
+import type { BotState, CommentRecord } from "./state.js";
 
 /** Result of a single comment generation */
 export interface CommentResult {
   personaName: string;
+  /** The provider that wrote the comment (the backend, for a fallback chain) */
+  provider: string;
+  /** The model that wrote the comment */
+  model: string;
   comment: string;
   /** The formatted comment including the AI label prefix */
   formattedComment: string;
+  /** Discussion comment node ID (undefined in dry-run mode) */
+  commentId?: string;
+  /** The persona this comment replies to (conversation mode) */
+  inReplyTo?: string;
+  /** The LLM judge's scores (when the judge is on) */
+  judgeScores?: JudgeScores;
+  /** How long writing it took, over every try, in milliseconds (judging not included) */
+  durationMs: number;
+  /** Tokens the persona's provider used writing it, over every try (unset if the API doesn't report them) */
+  usage?: TokenUsage;
+  /** How long the judge's calls for it took, in milliseconds (when the judge is on) */
+  judgeDurationMs?: number;
+  /** Tokens the judge's calls for it used (unset if the judge's API doesn't report them) */
+  judgeUsage?: TokenUsage;
+}
+
+/** The post details a result carries besides its title and URL */
+export type PostMetadata = Pick<
+  PostContext,
+  "description" | "date" | "tags" | "categories" | "author" | "language"
+>;
+
+/** A generated comment the quality gate turned down */
+export interface QualityRejection {
+  personaName: string;
+  /** Which try this was (1 for the first comment, 2 for the next regeneration or revision, ...) */
+  attempt: number;
+  /** Why it failed */
+  reasons: string[];
+  /** The LLM judge's scores, when the judge turned it down */
+  judgeScores?: JudgeScores;
+}
+
+/** A comment moderation blocked from being posted */
+export interface BlockedComment {
+  personaName: string;
+  reasons: ModerationReason[];
 }
 
 /** Result of the full generation pipeline */
 export interface GenerateResult {
   postTitle: string;
   postUrl: string;
+  postMetadata: PostMetadata;
   discussionUrl: string | null; // null in dry-run mode
   comments: CommentResult[];
+  /** Personas skipped because they already commented on the discussion (or have drafts waiting) */
+  skippedPersonas: string[];
+  /** How the commenting personas were picked, and why each one was */
+  personaSelection: {
+    strategy: PersonaSelectionStrategy;
+    choices: { personaName: string; reason: string }[];
+  };
+  /** Comments the quality gate turned down, one entry per failed try */
+  rejectedComments: QualityRejection[];
+  /** Personas whose every try failed the quality gate or judge, so nothing was posted */
+  droppedPersonas: string[];
+  /** Comments moderation blocked, with why */
+  blockedComments: BlockedComment[];
+  /** Where the comments wait for review in approval mode: the pending file or the issue URL */
+  draftsAt: string | null;
+  /** How long the whole run took, including scraping and posting, in milliseconds */
+  durationMs: number;
+}
+
+/** Add reported token usage to a running total */
+function addUsage(total: TokenUsage | undefined, reported: TokenUsage): TokenUsage {
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + reported.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + reported.outputTokens,
+  };
 }
 
 /**
  * Format a generated comment with the AI-generated label prefix.
  *
  * Every AI comment is clearly labeled for transparency. This builds trust
- * with readers and is a core design principle of giscus-bot.
+ * with readers and is a core design principle of giscus-bot. With
+ * `showModel`, the label also names the model that wrote the comment.
  */
-function formatComment(
+export function formatComment(
   comment: string,
   personaName: string,
-  labelPrefix: string,
+  labeling: GiscusBotConfig["labeling"],
+  source: CommentSource,
 ): string {
-  return `${labelPrefix} · Persona: ${personaName}\n\n${comment}`;
+  const model = labeling.showModel
+    ? ` · Model: ${source.model} (${source.provider})`
+    : "";
+  return `${labeling.prefix} · Persona: ${personaName}${model}\n\n${comment}`;
+}
+
+/** Where a reply sits in a conversation-mode thread */
+interface ReplyPosition {
+  /**
+   * Index of the top-level comment the thread hangs off — GitHub nests
+   * replies only one level, so every reply is posted under it
+   */
+  root: number;
+  /** Index of the comment being answered */
+  parent: number;
+  /** 1 for a reply to the top-level comment, 2 for a reply to that, ... */
+  depth: number;
+}
+
+/**
+ * Decide what the next comment in conversation mode replies to: the latest
+ * comment in the current thread that's shallower than `maxDepth`.
+ *
+ * @param positions - Each earlier comment's reply position (null if top-level).
+ */
+function nextReplyPosition(positions: (ReplyPosition | null)[], maxDepth: number): ReplyPosition {
+  const root = positions.lastIndexOf(null);
+  for (let i = positions.length - 1; i > root; i--) {
+    const depth = positions[i]!.depth;
+    if (depth < maxDepth) return { root, parent: i, depth: depth + 1 };
+  }
+  return { root, parent: root, depth: 1 };
 }
 
 /**
@@ -55,79 +186,382 @@ function formatComment(
  * @param config - The full giscus-bot configuration.
  * @param provider - The AI provider to use for generating comments.
  * @param options.dryRun - If true, generate comments but don't post to GitHub.
+ * @param options.state - Persistent state; personas recorded there are skipped,
+ *                        and posted comments are recorded into it (in place).
+ * @param options.postKey - The post's key in the state (defaults to its URL).
+ * @param options.personaProviders - Providers for personas that override the
+ *                                   top-level one (see createPersonaProviders).
+ * @param options.judgeProvider - Provider for the LLM judge, when it overrides
+ *                                the top-level one (see createJudgeProvider).
+ * @param options.moderator - Classifier from `moderation.provider` (see createModerator).
  * @returns Results including the generated comments and discussion URL.
  */
 export async function generate(
   urlOrContext: string | PostContext,
   config: GiscusBotConfig,
   provider: AIProvider,
-  options: { dryRun?: boolean } = {},
+  options: {
+    dryRun?: boolean;
+    state?: BotState;
+    postKey?: string;
+    personaProviders?: Map<string, AIProvider>;
+    judgeProvider?: AIProvider;
+    moderator?: Moderator;
+  } = {},
 ): Promise<GenerateResult> {
+  const started = Date.now();
+
   // Step 1: Get the post content — either scrape the URL or use the provided context
   const postContext: PostContext =
     typeof urlOrContext === "string"
       ? await extractPost(urlOrContext)
       : urlOrContext;
 
-  // Step 2: Select personas (cap at maxPersonas from config)
-  // If the user defines 5 personas but maxPersonas is 2, only use the first 2
-  const personaCount = Math.min(
-    config.limits.maxPersonas,
-    config.personas.length,
-  );
-  const selectedPersonas = config.personas.slice(0, personaCount);
+  // Step 2: Look up the existing discussion (unless dry-run) so we can
+  // skip personas that already commented on a previous run
+  let repoRef: { owner: string; repo: string } | null = null;
+  let target: DiscussionTarget | null = null;
+  let discussion: { id: string; url: string } | null = null;
+  // Comments already on the discussion, for the quality gate's duplicate check
+  const existingComments: string[] = [];
+  const quality = config.quality;
+  const gated = quality !== undefined && quality.enabled !== false;
+  const judge = config.judge;
+  const judged = judge !== undefined && judge.enabled !== false;
+  const moderation = config.moderation;
+  const moderated = moderation !== undefined && moderation.enabled !== false;
+  const approval = config.approval;
+  const approving = approval !== undefined && approval.enabled !== false;
+  const postKey = options.postKey ?? postContext.url;
+  // Personas the state file remembers — works even in dry-run mode
+  const alreadyCommented = options.state
+    ? getCommentedPersonas(options.state, postKey)
+    : new Set<string>();
+
+  if (!options.dryRun) {
+    // Parse "owner/repo" from config
+    const [owner, repo] = config.github.repo.split("/");
+    if (!owner || !repo) {
+      throw new Error(
+        `Invalid repo format "${config.github.repo}". Expected "owner/repo".`,
+      );
+    }
+    repoRef = { owner, repo };
 
-  // Step 3: Generate a comment for each persona
-  // We run these sequentially to be respectful of API rate limits
+    // Map the post to its discussion the same way the giscus widget does
+    target = resolveDiscussionTarget(postContext, config.github);
+    discussion = await publisher.findMappedDiscussion(owner, repo, target);
+    if (discussion) {
+      const onDiscussion = await publisher.getDiscussionBotComments(
+        discussion.id,
+        config.labeling.prefix,
+      );
+      for (const name of onDiscussion) {
+        alreadyCommented.add(name);
+      }
+      if (gated) {
+        for (const body of await publisher.getDiscussionComments(discussion.id)) {
+          // Compare comment text, not the bot's label line
+          existingComments.push(
+            publisher.parseBotPersona(body, config.labeling.prefix)
+              ? body.split("\n").slice(1).join("\n").trim()
+              : body,
+          );
+        }
+      }
+    }
+  }
+
+  // In approval mode, personas with drafts waiting for review are done too
+  if (approving) {
+    for (const name of await getPendingPersonas(approval, postKey, repoRef)) {
+      alreadyCommented.add(name);
+    }
+  }
+
+  // Step 3: Select personas (cap at maxPersonas from config)
+  // Personas that already posted are skipped, and the budget is filled
+  // from the ones that haven't — so 5 personas with maxPersonas 2 rotate
+  // through the list across runs instead of repeating the first 2
+  const skippedPersonas = config.personas
+    .filter((p) => alreadyCommented.has(p.name))
+    .map((p) => p.name);
+  const strategy = config.limits.personaSelection ?? "first";
+  const choices = selectPersonas(config.personas, {
+    count: config.limits.maxPersonas,
+    strategy,
+    post: postContext,
+    exclude: alreadyCommented,
+    state: options.state,
+  });
+  const selectedPersonas = choices.map((choice) => choice.persona);
+
+  // Step 4: Generate a comment for each persona
+  // We run these sequentially to be respectful of API rate limits — and
+  // in conversation mode, each persona needs to see the ones before it
+  const conversation = config.conversation;
+  const conversing = conversation !== undefined && conversation.enabled !== false;
   const comments: CommentResult[] = [];
+  const positions: (ReplyPosition | null)[] = [];
+  const rejectedComments: QualityRejection[] = [];
+  const droppedPersonas: string[] = [];
+  const blockedComments: BlockedComment[] = [];
+  let replies = 0;
   for (const persona of selectedPersonas) {
-    const comment = await provider.generateComment(postContext, persona);
+    let position: ReplyPosition | null = null;
+    let context = postContext;
+    if (conversing && comments.length > 0) {
+      if (replies < (conversation.maxReplies ?? Infinity)) {
+        position = nextReplyPosition(positions, conversation.maxDepth ?? 1);
+      }
+      context = {
+        ...postContext,
+        thread: {
+          comments: comments.map((c, i) => ({
+            author: c.personaName,
+            body: c.comment,
+            isReply: positions[i] !== null,
+          })),
+          replyTo: position ? comments[position.parent].personaName : undefined,
+        },
+      };
+    }
+
+    const personaProvider = options.personaProviders?.get(persona.name) ?? provider;
+    // A fallback chain reports which backend actually answered
+    let source: CommentSource = {
+      provider: personaProvider.name,
+      model:
+        personaProvider.model ??
+        providerChain(resolvePersonaProvider(config.provider, persona))[0].model,
+    };
+    // Without a quality gate or judge the first comment goes. A comment
+    // failing the quality checks is regenerated; one the judge scores too
+    // low is revised with its feedback — until one passes or the tries
+    // for either run out
+    let comment: string | null = null;
+    let judgeScores: JudgeScores | undefined;
+    let usage: TokenUsage | undefined;
+    let judgeUsage: TokenUsage | undefined;
+    let judgeDurationMs = 0;
+    const writing = Date.now();
+    let prompt: Prompts | undefined;
+    let regenerations = 0;
+    let revisions = 0;
+    for (let attempt = 1; comment === null; attempt++) {
+      const candidate = await personaProvider.generateComment(context, persona, {
+        onSource: (reported) => {
+          source = reported;
+        },
+        onUsage: (reported) => {
+          usage = addUsage(usage, reported);
+        },
+        prompt,
+      });
+      const reasons = gated
+        ? checkComment(
+            candidate,
+            {
+              post: postContext,
+              persona,
+              existing: [...existingComments, ...comments.map((c) => c.comment)],
+            },
+            quality,
+          )
+        : [];
+      if (reasons.length > 0) {
+        rejectedComments.push({ personaName: persona.name, attempt, reasons });
+        if (regenerations++ >= (quality?.regenerations ?? 2)) break;
+        prompt = undefined;
+        continue;
+      }
+
+      if (judged) {
+        let verdict: JudgeVerdict;
+        const judging = Date.now();
+        try {
+          verdict = await judgeComment(
+            options.judgeProvider ?? provider,
+            context,
+            persona,
+            candidate,
+            judge,
+            (reported) => {
+              judgeUsage = addUsage(judgeUsage, reported);
+            },
+          );
+        } catch (error) {
+          judgeDurationMs += Date.now() - judging;
+          if (!(error instanceof InvalidVerdictError)) throw error;
+          // The judge is an LLM too: an unreadable verdict fails the draft,
+          // which is written anew since there's no feedback to revise with
+          rejectedComments.push({ personaName: persona.name, attempt, reasons: [error.message] });
+          if (revisions++ >= (judge.revisions ?? 1)) break;
+          prompt = undefined;
+          continue;
+        }
+        judgeDurationMs += Date.now() - judging;
+        if (!verdict.passed) {
+          const feedback = verdict.feedback ? ` — ${verdict.feedback}` : "";
+          rejectedComments.push({
+            personaName: persona.name,
+            attempt,
+            reasons: [`judge: ${describeScores(verdict.scores)}${feedback}`],
+            judgeScores: verdict.scores,
+          });
+          if (revisions++ >= (judge.revisions ?? 1)) break;
+          prompt = revisionPrompt(context, persona, candidate, verdict);
+          continue;
+        }
+        judgeScores = verdict.scores;
+      }
+      comment = candidate;
+    }
+    if (comment === null) {
+      droppedPersonas.push(persona.name);
+      continue;
+    }
+    const durationMs = Date.now() - writing - judgeDurationMs;
+
+    // Last check before anything is posted: blocked comments never are
+    if (moderated) {
+      const reasons = await moderateComment(
+        comment,
+        { post: postContext, persona },
+        moderation,
+        options.moderator,
+      );
+      if (reasons.length > 0) {
+        blockedComments.push({ personaName: persona.name, reasons });
+        continue;
+      }
+    }
+
+    if (position) replies++;
     const formattedComment = formatComment(
       comment,
       persona.name,
-      config.labeling.prefix,
+      config.labeling,
+      source,
     );
     comments.push({
       personaName: persona.name,
+      provider: source.provider,
+      model: source.model,
       comment,
       formattedComment,
+      inReplyTo: position ? comments[position.parent].personaName : undefined,
+      ...(judgeScores ? { judgeScores } : {}),
+      durationMs,
+      ...(usage ? { usage } : {}),
+      ...(judged ? { judgeDurationMs } : {}),
+      ...(judgeUsage ? { judgeUsage } : {}),
     });
+    positions.push(position);
   }
 
-  // Step 4: Post to GitHub (unless dry-run)
-  let discussionUrl: string | null = null;
-
-  if (!options.dryRun) {
-    // Parse "owner/repo" from config
-    const [owner, repo] = config.github.repo.split("/");
-    if (!owner || !repo) {
-      throw new Error(
-        `Invalid repo format "${config.github.repo}". Expected "owner/repo".`,
+  // Step 5: Post to GitHub (unless dry-run) — or, in approval mode, put
+  // the comments up for review; `giscus-bot publish` posts them later
+  let draftsAt: string | null = null;
+  if (approving && repoRef && target) {
+    if (comments.length > 0) {
+      draftsAt = await submitDrafts(
+        {
+          post: postKey,
+          title: postContext.title,
+          url: postContext.url,
+          discussion: target,
+          createdAt: new Date().toISOString(),
+          drafts: comments.map((c) => ({
+            persona: c.personaName,
+            provider: c.provider,
+            model: c.model,
+            ...(c.inReplyTo ? { replyTo: c.inReplyTo } : {}),
+            approved: false,
+            comment: c.comment,
+          })),
+        },
+        approval,
+        repoRef,
+      );
+    }
+  } else if (repoRef && target && (discussion || comments.length > 0)) {
+    // Nothing to post means nothing to create — don't open an empty discussion
+    if (!discussion) {
+      // Create or find the discussion for this blog post
+      discussion = await publisher.findOrCreateDiscussion(
+        repoRef.owner,
+        repoRef.repo,
+        config.github.discussionCategory,
+        target,
       );
     }
 
-    // Create or find the discussion for this blog post
-    const discussionBody = `Discussion for: ${postContext.title}`;
-    const discussion = await publisher.findOrCreateDiscussion(
-      owner,
-      repo,
-      config.github.discussionCategory,
-      postContext.title,
-      discussionBody,
-    );
-
-    discussionUrl = discussion.url;
-
-    // Post each generated comment as a top-level comment on the discussion
-    for (const result of comments) {
-      await publisher.addComment(discussion.id, result.formattedComment);
+    // Post each generated comment on the discussion — as a top-level
+    // comment, or in conversation mode as a reply in its thread
+    const records: CommentRecord[] = [];
+    try {
+      for (const [i, result] of comments.entries()) {
+        const position = positions[i];
+        const replyToId = position ? comments[position.root].commentId : undefined;
+        const posted = replyToId
+          ? await publisher.addReply(
+              discussion.id,
+              replyToId,
+              result.formattedComment,
+              config.labeling.prefix,
+            )
+          : await publisher.addComment(discussion.id, result.formattedComment);
+        result.commentId = posted.id;
+        records.push({
+          id: posted.id,
+          personaName: result.personaName,
+          provider: result.provider,
+          model: result.model,
+          createdAt: new Date().toISOString(),
+          ...(replyToId ? { replyToId } : {}),
+        });
+      }
+    } finally {
+      // Remember what we posted so later runs don't repeat it. If a
+      // comment failed, the ones before it are still on the discussion
+      if (options.state && (records.length > 0 || comments.length === 0)) {
+        recordPost(options.state, postKey, {
+          title: postContext.title,
+          url: postContext.url,
+          discussionId: discussion.id,
+          discussionUrl: discussion.url,
+          comments: records,
+        });
+      }
     }
   }
 
   return {
     postTitle: postContext.title,
     postUrl: postContext.url,
-    discussionUrl,
+    postMetadata: {
+      description: postContext.description,
+      date: postContext.date,
+      tags: postContext.tags,
+      categories: postContext.categories,
+      author: postContext.author,
+      language: postContext.language,
+    },
+    discussionUrl: discussion?.url ?? null,
     comments,
+    skippedPersonas,
+    personaSelection: {
+      strategy,
+      choices: choices.map((choice) => ({
+        personaName: choice.persona.name,
+        reason: choice.reason,
+      })),
+    },
+    rejectedComments,
+    droppedPersonas,
+    blockedComments,
+    draftsAt,
+    durationMs: Date.now() - started,
   };
 }
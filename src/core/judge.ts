@@ -0,0 +1,186 @@
+/**
+ * LLM judge — a second model call that reviews each draft comment.
+ *
+ * With a `judge` section in the config, generate() shows the judge the
+ * post, the persona and the draft, and the judge scores it from 1 to 5 on:
+ *   - faithfulness: what it says about the post is accurate
+ *   - specificity: it's about this post, not remarks any post could get
+ *   - tone: it fits the persona
+ *
+ * A draft with any score below `judge.threshold` is revised — the persona
+ * rewrites it with the judge's feedback — up to `judge.revisions` times,
+ * and then dropped. A reply that can't be read as a verdict counts as a
+ * failed one (without feedback, the draft is written anew).
+ *
+ * The judge runs on any AIProvider: its prompts go through
+ * GenerateOptions.prompt instead of the persona's comment prompts.
+ */
+
+import type { JudgeConfig } from "../config/types.js";
+import type {
+  AIProvider,
+  Persona,
+  PostContext,
+  Prompts,
+  TokenUsage,
+} from "../providers/base.js";
+import { buildSystemPrompt, buildUserPrompt } from "../providers/base.js";
+
+/** Default min score every criterion must reach */
+const DEFAULT_THRESHOLD = 3;
+
+/** What the judge scores, each from 1 (poor) to 5 (excellent) */
+export interface JudgeScores {
+  faithfulness: number;
+  specificity: number;
+  tone: number;
+}
+
+/** The judge's review of a draft */
+export interface JudgeVerdict {
+  scores: JudgeScores;
+  /** What to fix (empty when nothing) */
+  feedback: string;
+  /** Whether every score reached the threshold */
+  passed: boolean;
+}
+
+const CRITERIA = ["faithfulness", "specificity", "tone"] as const;
+
+/** A judge reply that can't be read as a verdict */
+export class InvalidVerdictError extends Error {
+  constructor(why: string, reply: string) {
+    super(`The judge returned an invalid verdict (${why}): ${reply.slice(0, 200)}`);
+    this.name = "InvalidVerdictError";
+  }
+}
+
+const JUDGE_SYSTEM_PROMPT = `You review draft blog comments before they're posted.
+
+Score the draft from 1 (poor) to 5 (excellent) on each of:
+- faithfulness: everything it says about the post is accurate; it doesn't claim the post says something it doesn't
+- specificity: it engages with this post's particular content rather than making remarks any post could get
+- tone: it fits the persona's description and tone
+
+Reply with only a JSON object, no other text:
+{"faithfulness": <1-5>, "specificity": <1-5>, "tone": <1-5>, "feedback": "<what to fix, in one or two sentences; empty if nothing>"}`;
+
+/** The judge's user prompt: the post, the persona and the draft */
+function judgeUserPrompt(post: PostContext, persona: Persona, comment: string): string {
+  const lines = [
+    `Blog post: "${post.title}"`,
+    "",
+    post.content,
+    "",
+    "---",
+    "",
+    `Persona: ${persona.name}`,
+    `Description: ${persona.description}`,
+    `Tone: ${persona.tone}`,
+  ];
+  if (post.thread?.replyTo) {
+    lines.push(`The draft replies to a comment by ${post.thread.replyTo}.`);
+  }
+  lines.push("", "---", "", "Draft comment:", "", comment);
+  return lines.join("\n");
+}
+
+/**
+ * Read the judge's JSON verdict, tolerating text or code fences around it.
+ *
+ * @throws If the reply has no JSON object with three scores from 1 to 5.
+ */
+function parseVerdict(reply: string, threshold: number): JudgeVerdict {
+  const invalid = (why: string): never => {
+    throw new InvalidVerdictError(why, reply);
+  };
+
+  const json = /\{[\s\S]*\}/.exec(reply)?.[0] ?? invalid("no JSON object");
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return invalid("malformed JSON");
+  }
+
+  const scores = {} as JudgeScores;
+  for (const criterion of CRITERIA) {
+    const score = parsed[criterion];
+    if (typeof score !== "number" || score < 1 || score > 5) {
+      invalid(`"${criterion}" must be a score from 1 to 5`);
+    }
+    scores[criterion] = score as number;
+  }
+  return {
+    scores,
+    feedback: typeof parsed.feedback === "string" ? parsed.feedback.trim() : "",
+    passed: CRITERIA.every((criterion) => scores[criterion] >= threshold),
+  };
+}
+
+/**
+ * Have the judge review a draft comment.
+ *
+ * @param provider - The provider the judge runs on.
+ * @param post - The post the comment is for (with the thread, when replying).
+ * @param persona - The persona that wrote the comment.
+ * @param comment - The draft comment, without the AI label.
+ * @param judge - The config's judge section.
+ * @param onUsage - Reports the tokens the judge's call used.
+ * @returns The scores, feedback, and whether the draft passed.
+ * @throws InvalidVerdictError if the judge's reply can't be read as a verdict.
+ */
+export async function judgeComment(
+  provider: AIProvider,
+  post: PostContext,
+  persona: Persona,
+  comment: string,
+  judge: JudgeConfig,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<JudgeVerdict> {
+  const reply = await provider.generateComment(post, persona, {
+    prompt: {
+      system: JUDGE_SYSTEM_PROMPT,
+      user: judgeUserPrompt(post, persona, comment),
+    },
+    onUsage,
+  });
+  return parseVerdict(reply, judge.threshold ?? DEFAULT_THRESHOLD);
+}
+
+/**
+ * Prompts asking the persona to rewrite its draft with the judge's
+ * feedback: the usual comment prompts, followed by the draft and the
+ * review.
+ */
+export function revisionPrompt(
+  context: PostContext,
+  persona: Persona,
+  draft: string,
+  verdict: JudgeVerdict,
+): Prompts {
+  const feedback = verdict.feedback || "Make it more accurate and specific to the post.";
+  return {
+    system: buildSystemPrompt(persona),
+    user: [
+      buildUserPrompt(context),
+      "",
+      "---",
+      "",
+      "Your draft comment:",
+      "",
+      draft,
+      "",
+      "---",
+      "",
+      `A reviewer scored it ${describeScores(verdict.scores)} and said: ${feedback}`,
+      "",
+      "Rewrite the comment to fix this. Reply with only the comment.",
+    ].join("\n"),
+  };
+}
+
+/** Scores as text, e.g. "faithfulness 4/5, specificity 5/5, tone 3/5" */
+export function describeScores(scores: JudgeScores): string {
+  return CRITERIA.map((criterion) => `${criterion} ${scores[criterion]}/5`).join(", ");
+}
@@ -0,0 +1,151 @@
+/**
+ * Giscus-compatible discussion mapping.
+ *
+ * giscus finds the discussion for a page by a "term" derived from the page
+ * (its pathname, URL, title, og:title, or a fixed value) and, in strict mode,
+ * by the SHA-1 hash of that term embedded in the discussion body.
+ *
+ * This module derives the same term, title, body and hash from a PostContext,
+ * so a discussion created by giscus-bot is the one the giscus widget shows —
+ * and vice versa.
+ */
+
+import { createHash } from "node:crypto";
+import type { GithubConfig } from "../config/types.js";
+import type { PostContext } from "../providers/base.js";
+
+/** Everything the publisher needs to find or create a post's discussion */
+export interface DiscussionTarget {
+  /** Search term — giscus uses it verbatim as the discussion title */
+  term: string;
+  /** SHA-1 hex digest of the term (matched against the body in strict mode) */
+  hash: string;
+  /** Whether to match discussions by hash instead of title */
+  strict: boolean;
+  /** Discussion number for "number" mapping — looked up, never created */
+  number?: number;
+  /** Discussion body, built the same way giscus builds it */
+  body: string;
+}
+
+/**
+ * Compute the SHA-1 hex digest of a mapping term, as giscus does for
+ * `data-strict="1"`.
+ */
+export function hashTerm(term: string): string {
+  return createHash("sha1").update(term).digest("hex");
+}
+
+/**
+ * Derive giscus's "pathname" term from a URL path.
+ *
+ * giscus strips the leading slash and any file extension, and uses
+ * "index" for the site root.
+ */
+function pathnameTerm(pathname: string): string {
+  return pathname.length < 2
+    ? "index"
+    : pathname.substring(1).replace(/\.\w+$/, "");
+}
+
+/**
+ * Strip the parts of a URL giscus ignores: the hash and its own
+ * `giscus` session query parameter.
+ */
+function cleanUrl(url: URL): string {
+  const cleaned = new URL(url.href);
+  cleaned.searchParams.delete("giscus");
+  cleaned.hash = "";
+  return cleaned.toString();
+}
+
+/**
+ * Parse a post URL, returning null for non-URL identifiers
+ * (e.g., a local file path from the push-trigger path).
+ */
+function tryParseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the mapping term for a post.
+ *
+ * @throws If "specific" or "number" mapping is used without `github.term`.
+ */
+export function resolveTerm(post: PostContext, github: GithubConfig): string {
+  const mapping = github.mapping ?? "title";
+  // The page's own URL, not its canonical link: giscus reads `location`,
+  // so a cross-posted page keeps its own discussion
+  const postUrl = post.url;
+  const url = tryParseUrl(postUrl);
+
+  switch (mapping) {
+    case "pathname":
+      return pathnameTerm(url ? url.pathname : `/${postUrl.replace(/^\/+/, "")}`);
+    case "url":
+      return url ? cleanUrl(url) : postUrl;
+    case "og:title":
+      return post.ogTitle ?? post.title;
+    case "specific":
+    case "number":
+      if (!github.term) {
+        throw new Error(`github.term is required for "${mapping}" mapping.`);
+      }
+      return github.term;
+    case "title":
+      return post.title;
+    default:
+      throw new Error(`Unknown discussion mapping: ${mapping}`);
+  }
+}
+
+/**
+ * Build the discussion body the way giscus does: the page title as a
+ * heading, the page description, a link back to the page, and the
+ * term's SHA-1 hash in an HTML comment (used by strict mode).
+ */
+export function buildDiscussionBody(post: PostContext, hash: string): string {
+  const sections = [`# ${post.title}`];
+  if (post.description) {
+    sections.push(post.description);
+  }
+  sections.push(post.url, `<!-- sha1: ${hash} -->`);
+  return sections.join("\n\n");
+}
+
+/**
+ * Resolve the discussion a post maps to under the configured mapping mode.
+ *
+ * @param post - The post being commented on.
+ * @param github - The github section of the config (mapping, term, strict).
+ * @returns The term, hash, body and (for "number" mapping) discussion number.
+ */
+export function resolveDiscussionTarget(
+  post: PostContext,
+  github: GithubConfig,
+): DiscussionTarget {
+  const term = resolveTerm(post, github);
+  const hash = hashTerm(term);
+
+  let number: number | undefined;
+  if (github.mapping === "number") {
+    number = Number(term);
+    if (!Number.isInteger(number) || number <= 0) {
+      throw new Error(
+        `github.term must be a discussion number for "number" mapping, got "${term}".`,
+      );
+    }
+  }
+
+  return {
+    term,
+    hash,
+    strict: github.strict ?? false,
+    number,
+    body: buildDiscussionBody(post, hash),
+  };
+}
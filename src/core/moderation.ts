@@ -0,0 +1,243 @@
+/**
+ * Moderation — the last check before a comment is posted.
+ *
+ * Comments go out in public under the blog owner's name, so with a
+ * `moderation` section every comment (and every reply to a reader) is
+ * screened right before posting. Local rules run first:
+ *   - profanity and slurs (word lists below, plus `blockedWords`)
+ *   - links to URLs that aren't in the post (or `allowedUrls`)
+ *   - @-mentions, which would notify GitHub users (unless allowed)
+ *   - prompt leaks: a run of words copied from the system prompt
+ * Then, if one is configured, a classifier (`moderation.provider`) gets
+ * the comment. A blocked comment is never posted; each reason comes with
+ * a code for logs.
+ */
+
+import type { ModerationConfig } from "../config/types.js";
+import type { Moderator, Persona, PostContext } from "../providers/base.js";
+import { buildSystemPrompt } from "../providers/base.js";
+
+/** Why a comment was blocked */
+export type ModerationCode =
+  | "profanity"
+  | "slur"
+  | "blocked-word"
+  | "url"
+  | "mention"
+  | "prompt-leak"
+  | "classifier";
+
+/** A reason a comment was blocked */
+export interface ModerationReason {
+  code: ModerationCode;
+  /** Human-readable detail (offensive words are masked) */
+  detail: string;
+}
+
+/** What a comment is screened against */
+export interface ModerationInput {
+  /** The post the comment is on */
+  post: PostContext;
+  /** The persona that wrote it */
+  persona: Persona;
+  /** GitHub users this comment may mention, besides `allowedMentions` (e.g., readers being answered) */
+  allowedMentions?: string[];
+}
+
+/** Common profanity; each also matches with -s, -ed, -ing, ... */
+const PROFANITY = [
+  "fuck", "motherfucker", "shit", "bullshit", "bitch", "bastard", "asshole",
+  "cunt", "twat", "wanker", "bollocks", "dickhead", "goddamn",
+];
+
+/**
+ * Slurs — always blocked. Patterns spell out their inflections instead of
+ * taking SUFFIXES, which would catch everyday words ("spicy"); "chink"
+ * spares the idioms "a chink in the armor" and "chinks of light".
+ */
+const SLURS = [
+  "niggers?", "niggas?", "faggots?", "fags?", "kikes?", "spics?",
+  "chinks?(?!\\s+(?:in|of)\\b)", "gooks?", "wetbacks?", "trann(?:y|ies)",
+  "retards?", "retarded",
+];
+
+/** Suffixes a profane word may carry and still match */
+const SUFFIXES = "(?:s|es|ed|er|ers|ing|in|y)?";
+
+/** How many consecutive system-prompt words count as a leak */
+const LEAK_WORDS = 8;
+
+/** Escape a string for use in a regular expression */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** "bastard" → "b*****d", so logs don't repeat what was blocked */
+function mask(word: string): string {
+  if (word.length <= 2) return "*".repeat(word.length);
+  return `${word[0]}${"*".repeat(word.length - 2)}${word.slice(-1)}`;
+}
+
+/** The whole words matching any of the patterns, as found */
+function findPatterns(text: string, patterns: string[], suffixes: string): string[] {
+  if (patterns.length === 0) return [];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${patterns.join("|")})${suffixes}(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+  return [...new Set([...text.matchAll(pattern)].map((match) => match[0].toLowerCase()))];
+}
+
+/** The listed words or phrases the text contains, as found */
+function findWords(text: string, words: string[], suffixes: string): string[] {
+  return findPatterns(
+    text,
+    words.map((word) => escapeRegExp(word).replace(/\s+/g, "\\s+")),
+    suffixes,
+  );
+}
+
+/** Markdown with code blocks and inline code removed (GitHub doesn't notify from code) */
+function withoutCode(text: string): string {
+  return text.replace(/```[\s\S]*?```/g, " ").replace(/`[^`\n]*`/g, " ");
+}
+
+/** URLs in a text, without trailing punctuation */
+function findUrls(text: string): string[] {
+  return [...text.matchAll(/\bhttps?:\/\/[^\s<>()[\]"'`]+/gi)].map((match) =>
+    match[0].replace(/[.,;:!?*_~]+$/, ""),
+  );
+}
+
+/** Normalize a URL for comparison: lowercase host, no hash, no trailing slash */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.href.replace(/\/$/, "");
+  } catch {
+    return url.replace(/\/$/, "");
+  }
+}
+
+/**
+ * Whether a URL is under an `allowedUrls` prefix: same origin, and a path
+ * equal to the prefix's or below it at a "/" (so "https://docs.rs/" doesn't
+ * allow "https://docs.rs.evil.net/", nor "/book" allow "/bookmarks").
+ */
+function isUnder(url: string, prefix: string): boolean {
+  let target: URL;
+  let base: URL;
+  try {
+    target = new URL(url);
+    base = new URL(prefix);
+  } catch {
+    return false;
+  }
+  if (target.origin !== base.origin) return false;
+  const path = base.pathname.replace(/\/$/, "");
+  return target.pathname === path || target.pathname.startsWith(`${path}/`);
+}
+
+/** Links to URLs that appear neither in the post nor in `allowedUrls` */
+function unknownUrls(comment: string, post: PostContext, allowedUrls: string[]): string[] {
+  const known = new Set(
+    [post.url, post.canonicalUrl, ...findUrls(post.content)]
+      .filter((url): url is string => url !== undefined)
+      .map(normalizeUrl),
+  );
+  return [...new Set(findUrls(comment))].filter(
+    (url) => !known.has(normalizeUrl(url)) && !allowedUrls.some((prefix) => isUnder(url, prefix)),
+  );
+}
+
+/** @-mentioned GitHub logins, outside code */
+function findMentions(comment: string): string[] {
+  const mentions = withoutCode(comment).matchAll(
+    /(?<![\w@./-])@([A-Za-z0-9][A-Za-z0-9-]{0,38})(?![\w/-])/g,
+  );
+  return [...new Set([...mentions].map((match) => match[1]))];
+}
+
+/** Lowercased words, for prompt-leak comparison */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Whether the comment repeats LEAK_WORDS or more consecutive words of the system prompt */
+function leaksPrompt(comment: string, persona: Persona): boolean {
+  const runs = (list: string[]): string[] =>
+    list
+      .slice(0, Math.max(0, list.length - LEAK_WORDS + 1))
+      .map((_, i) => list.slice(i, i + LEAK_WORDS).join(" "));
+  const prompt = new Set(runs(words(buildSystemPrompt(persona))));
+  return runs(words(comment)).some((run) => prompt.has(run));
+}
+
+/**
+ * Screen a comment with the local rules, then the classifier (if any and
+ * if the local rules passed it).
+ *
+ * @param comment - The comment text, without the AI label.
+ * @param input - The post and persona, and any extra allowed mentions.
+ * @param config - The config's moderation section.
+ * @param moderator - The classifier from `moderation.provider`, if any.
+ * @returns Why the comment is blocked, or an empty list if it may be posted.
+ */
+export async function moderateComment(
+  comment: string,
+  input: ModerationInput,
+  config: ModerationConfig,
+  moderator?: Moderator,
+): Promise<ModerationReason[]> {
+  const reasons: ModerationReason[] = [];
+
+  for (const word of findPatterns(comment, SLURS, "")) {
+    reasons.push({ code: "slur", detail: `contains "${mask(word)}"` });
+  }
+  if (config.profanity !== false) {
+    for (const word of findWords(comment, PROFANITY, SUFFIXES)) {
+      reasons.push({ code: "profanity", detail: `contains "${mask(word)}"` });
+    }
+  }
+  for (const word of findWords(comment, config.blockedWords ?? [], "")) {
+    reasons.push({ code: "blocked-word", detail: `contains "${word}"` });
+  }
+
+  for (const url of unknownUrls(comment, input.post, config.allowedUrls ?? [])) {
+    reasons.push({ code: "url", detail: `links to ${url}, which isn't in the post` });
+  }
+
+  const allowed = new Set(
+    [...(config.allowedMentions ?? []), ...(input.allowedMentions ?? [])].map((login) =>
+      login.replace(/^@/, "").toLowerCase(),
+    ),
+  );
+  for (const login of findMentions(comment)) {
+    if (!allowed.has(login.toLowerCase())) {
+      reasons.push({ code: "mention", detail: `mentions @${login}` });
+    }
+  }
+
+  if (leaksPrompt(comment, input.persona)) {
+    reasons.push({ code: "prompt-leak", detail: "repeats part of the system prompt" });
+  }
+
+  if (moderator && reasons.length === 0) {
+    const ignored = new Set(config.provider?.ignoreCategories ?? []);
+    const categories = (await moderator.moderate(comment)).filter((c) => !ignored.has(c));
+    if (categories.length > 0) {
+      reasons.push({
+        code: "classifier",
+        detail: `${moderator.name} flagged ${categories.join(", ")}`,
+      });
+    }
+  }
+
+  return reasons;
+}
+
+/** Reasons as text, e.g. "[url] links to ...; [mention] mentions @x" */
+export function describeReasons(reasons: ModerationReason[]): string {
+  return reasons.map((reason) => `[${reason.code}] ${reason.detail}`).join("; ");
+}
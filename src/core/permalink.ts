@@ -0,0 +1,135 @@
+/**
+ * Public post URLs for local markdown files.
+ *
+ * In the Action's push/schedule path we read posts from the checkout, so
+ * we only know a file path like `_posts/2024-01-01-foo.md`. This module
+ * turns it into the live URL using `site.baseUrl` and a permalink template,
+ * the same way the static site generator does:
+ *
+ *   Jekyll: /:year/:month/:day/:title/   →  /2024/01/01/foo/
+ *   Hugo:   /posts/:slug/                →  /posts/my-post-title/
+ *
+ * A `permalink` (Jekyll) or `url` (Hugo) in the front matter replaces the
+ * template, and a front-matter `slug` replaces the slug derived from the file.
+ */
+
+import { basename, dirname, extname } from "node:path";
+import type { SiteConfig } from "../config/types.js";
+import type { PostMetadata } from "./frontmatter.js";
+
+/** Permalink template used when `site.permalink` isn't set (Jekyll's default "date" style) */
+export const DEFAULT_PERMALINK = "/:categories/:year/:month/:day/:title/";
+
+/** Jekyll's `YYYY-MM-DD-` filename prefix */
+const FILENAME_DATE = /^(\d{4})-(\d{2})-(\d{2})-/;
+
+/**
+ * Turn text into a URL slug: lowercase, with runs of anything but letters
+ * and digits collapsed to "-". Non-Latin letters (e.g., Korean) are kept.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * The file's name without extension or Jekyll date prefix. For page
+ * bundles (`.../my-post/index.md`) this is the bundle directory's name.
+ */
+function fileSlug(filePath: string): string {
+  let name = basename(filePath, extname(filePath));
+  if (name === "index" || name === "_index") {
+    name = basename(dirname(filePath));
+  }
+  return name.replace(FILENAME_DATE, "");
+}
+
+/** The post date: front matter first, then the Jekyll filename prefix */
+function postDate(filePath: string, metadata: PostMetadata): Date | undefined {
+  if (metadata.date) return metadata.date;
+  const match = basename(filePath).match(FILENAME_DATE);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}`) : undefined;
+}
+
+/**
+ * Expand the `:token` placeholders of a permalink template.
+ *
+ * Supported tokens:
+ *   :year :month :day     — post date (UTC), zero-padded
+ *   :title                — front-matter slug, else the file name (Jekyll)
+ *   :slug                 — front-matter slug, else the slugified title (Hugo)
+ *   :filename             — the file name without extension or date prefix
+ *   :categories           — categories as slugified path segments (Jekyll)
+ *
+ * @throws If the template uses a date token but the post has no date.
+ */
+export function expandPermalink(
+  template: string,
+  filePath: string,
+  metadata: PostMetadata,
+): string {
+  const date = postDate(filePath, metadata);
+  const fromFile = fileSlug(filePath);
+
+  const dateToken = (value: (d: Date) => number, token: string): string => {
+    if (!date) {
+      throw new Error(
+        `Permalink token ":${token}" needs a date, but ${filePath} has none.`,
+      );
+    }
+    return String(value(date)).padStart(2, "0");
+  };
+
+  const path = template.replace(/:([a-z_]+)/g, (match, token: string) => {
+    switch (token) {
+      case "year":
+        return dateToken((d) => d.getUTCFullYear(), token);
+      case "month":
+        return dateToken((d) => d.getUTCMonth() + 1, token);
+      case "day":
+        return dateToken((d) => d.getUTCDate(), token);
+      case "title":
+        return metadata.slug ?? slugify(fromFile);
+      case "slug":
+        return metadata.slug ?? slugify(metadata.title ?? fromFile);
+      case "filename":
+        return fromFile;
+      case "categories":
+        return (metadata.categories ?? []).map(slugify).join("/");
+      default:
+        // Not a token we know — leave it alone (it may be a literal colon)
+        return match;
+    }
+  });
+
+  // Empty tokens (e.g., no categories) leave doubled slashes behind
+  return path.replace(/\/{2,}/g, "/");
+}
+
+/**
+ * Build the public URL of a local post.
+ *
+ * @param filePath - Repo-relative path of the markdown file.
+ * @param metadata - The post's front matter.
+ * @param site - The `site` config section.
+ * @returns The absolute post URL, or null if `site.baseUrl` isn't configured.
+ */
+export function buildPostUrl(
+  filePath: string,
+  metadata: PostMetadata,
+  site: SiteConfig | undefined,
+): string | null {
+  if (!site?.baseUrl) {
+    return null;
+  }
+
+  // A permalink in the front matter wins over the site-wide template
+  const template = metadata.permalink ?? site.permalink ?? DEFAULT_PERMALINK;
+  const path = expandPermalink(template, filePath, metadata);
+
+  // Join by hand: new URL(path, base) would drop a base path like "/blog"
+  return `${site.baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
@@ -0,0 +1,188 @@
+/**
+ * Persona selection strategies.
+ *
+ * Picks which personas comment on a post, up to `limits.maxPersonas`,
+ * among those that haven't commented on it yet. The strategy comes from
+ * `limits.personaSelection`:
+ *
+ *   - first: in config order
+ *   - random: uniformly random
+ *   - round-robin: in config order, starting after the persona whose
+ *     comment the state recorded last — so every persona gets a turn
+ *     across runs
+ *   - weighted: random, in proportion to each persona's `weight`
+ *   - tag-matched: personas whose `topics` match the post's tags or
+ *     categories (strongest) or appear in its title or text; when none
+ *     match, the personas without topics step in
+ *
+ * Each choice comes with a short reason, for logs and dry-run output.
+ */
+
+import type { PersonaConfig, PersonaSelectionStrategy } from "../config/types.js";
+import type { PostContext } from "../providers/base.js";
+import { getLastCommentedPersona } from "./state.js";
+import type { BotState } from "./state.js";
+import { shuffle } from "./selection.js";
+
+/** A selected persona and why it was picked */
+export interface PersonaChoice {
+  persona: PersonaConfig;
+  reason: string;
+}
+
+/** Inputs for selectPersonas() */
+export interface PersonaSelectionOptions {
+  /** How many personas to pick */
+  count: number;
+  strategy: PersonaSelectionStrategy;
+  /** The post being commented on (used by tag-matched) */
+  post: PostContext;
+  /** Personas to leave out (e.g., ones that already commented on the post) */
+  exclude?: Set<string>;
+  /** Persistent state (used by round-robin) */
+  state?: BotState;
+  /** Random number source in [0, 1), for tests */
+  random?: () => number;
+}
+
+/** Normalize a topic or tag for comparison ("Data-Bases" → "data bases") */
+function normalizeTopic(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, " ").trim();
+}
+
+/** Escape a string for use in a regular expression */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether a topic appears in some text. ASCII topics must match whole
+ * words ("go" shouldn't match "good"); others (e.g., Korean, where
+ * particles attach to the word) match anywhere.
+ */
+function mentions(text: string, topic: string): boolean {
+  const pattern = escapeRegExp(topic).replace(/ /g, "[\\s_-]+");
+  const bounded = /^[\x00-\x7f]+$/.test(topic)
+    ? `(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`
+    : pattern;
+  return new RegExp(bounded, "iu").test(text);
+}
+
+/** How a persona's topics match a post */
+interface TopicMatch {
+  inTags: string[];
+  inText: string[];
+}
+
+function matchTopics(persona: PersonaConfig, post: PostContext): TopicMatch {
+  const tags = new Set([...(post.tags ?? []), ...(post.categories ?? [])].map(normalizeTopic));
+  const text = `${post.title}\n${post.content}`;
+  const match: TopicMatch = { inTags: [], inText: [] };
+  for (const topic of persona.topics ?? []) {
+    const normalized = normalizeTopic(topic);
+    if (tags.has(normalized)) {
+      match.inTags.push(topic);
+    } else if (mentions(text, normalized)) {
+      match.inText.push(topic);
+    }
+  }
+  return match;
+}
+
+function describeMatch(match: TopicMatch): string {
+  const parts = [
+    ...match.inTags.map((topic) => `"${topic}" in tags`),
+    ...match.inText.map((topic) => `"${topic}" in text`),
+  ];
+  return `matched ${parts.join(", ")}`;
+}
+
+/** Personas whose topics match the post, best match first */
+function tagMatched(personas: PersonaConfig[], post: PostContext): PersonaChoice[] {
+  const matched = personas
+    .map((persona) => ({ persona, match: matchTopics(persona, post) }))
+    .filter(({ match }) => match.inTags.length + match.inText.length > 0);
+
+  if (matched.length === 0) {
+    return personas
+      .filter((persona) => !persona.topics?.length)
+      .map((persona) => ({ persona, reason: "no topics matched the post; general persona" }));
+  }
+
+  // Stable sort: ties keep config order
+  return matched
+    .sort(
+      (a, b) =>
+        b.match.inTags.length - a.match.inTags.length ||
+        b.match.inText.length - a.match.inText.length,
+    )
+    .map(({ persona, match }) => ({ persona, reason: describeMatch(match) }));
+}
+
+/**
+ * Weighted random order without replacement: each persona draws
+ * random^(1/weight) and the highest draws go first. Weight 0 never goes.
+ */
+function weighted(personas: PersonaConfig[], random: () => number): PersonaChoice[] {
+  const total = personas.reduce((sum, persona) => sum + (persona.weight ?? 1), 0);
+  return personas
+    .filter((persona) => (persona.weight ?? 1) > 0)
+    .map((persona) => ({ persona, key: random() ** (1 / (persona.weight ?? 1)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ persona }) => ({
+      persona,
+      reason: `weight ${persona.weight ?? 1} of ${total}`,
+    }));
+}
+
+/** Config order, rotated to start after the persona that posted last */
+function roundRobin(personas: PersonaConfig[], state: BotState | undefined): PersonaChoice[] {
+  const last = state ? getLastCommentedPersona(state) : null;
+  const start = personas.findIndex((persona) => persona.name === last) + 1;
+  const rotated = [...personas.slice(start), ...personas.slice(0, start)];
+  return rotated.map((persona) => ({
+    persona,
+    reason: last && start > 0 ? `next in rotation after "${last}"` : "start of rotation",
+  }));
+}
+
+/**
+ * Pick the personas to comment on a post.
+ *
+ * @param personas - All configured personas, in config order.
+ * @param options - The strategy, how many to pick, and its inputs.
+ * @returns Up to `options.count` personas, in the order they'll comment.
+ */
+export function selectPersonas(
+  personas: PersonaConfig[],
+  options: PersonaSelectionOptions,
+): PersonaChoice[] {
+  const random = options.random ?? Math.random;
+  const exclude = options.exclude ?? new Set<string>();
+
+  let ordered: PersonaChoice[];
+  switch (options.strategy) {
+    case "first":
+      ordered = personas.map((persona) => ({ persona, reason: "in config order" }));
+      break;
+    case "random": {
+      const shuffled = shuffle([...personas], random);
+      ordered = shuffled.map((persona) => ({ persona, reason: "picked at random" }));
+      break;
+    }
+    case "round-robin":
+      // Rotate over the full list, so skipping personas doesn't shift the turn
+      ordered = roundRobin(personas, options.state);
+      break;
+    case "weighted":
+      ordered = weighted(personas.filter((p) => !exclude.has(p.name)), random);
+      break;
+    case "tag-matched":
+      ordered = tagMatched(personas.filter((p) => !exclude.has(p.name)), options.post);
+      break;
+  }
+
+  return ordered
+    .filter((choice) => !exclude.has(choice.persona.name))
+    .slice(0, options.count);
+}
@@ -4,18 +4,28 @@
  * Manages the lifecycle of GitHub Discussions and comments using the GraphQL API.
  * This module handles:
  *   - Looking up repository and discussion category IDs
- *   - Finding existing discussions (to avoid duplicates)
+ *   - Finding existing discussions (to avoid duplicates), using the same
+ *     title / strict-hash / number lookups as giscus
  *   - Creating new discussions for blog posts
  *   - Adding AI-generated top-level comments
+ *   - Opening, editing and closing draft issues (the approval workflow)
  *
  * We use GraphQL (not REST) because the GitHub Discussions API is
  * only available through GraphQL.
+ *
+ * Every request goes through the retry layer (retry.ts), so rate limits
+ * and transient errors are retried; mutations only on rate limits.
  */
 
 import { graphql } from "@octokit/graphql";
+import type { DiscussionTarget } from "./mapping.js";
+import { withRetry } from "./retry.js";
 
-/** Authenticated GraphQL client type */
-type GraphQLClient = typeof graphql;
+/** Authenticated GraphQL client: runs a query or mutation with retries */
+type GraphQLClient = <T>(
+  query: string,
+  variables?: Record<string, unknown>,
+) => Promise<T>;
 
 /**
  * Result of looking up a repository's ID and discussion categories.
@@ -39,9 +49,21 @@ function createClient(token?: string): GraphQLClient {
       "GitHub token is required. Set GISCUS_BOT_GITHUB_TOKEN or pass it explicitly.",
     );
   }
-  return graphql.defaults({
+  const client = graphql.defaults({
     headers: { authorization: `token ${authToken}` },
   });
+
+  return <T>(query: string, variables: Record<string, unknown> = {}) => {
+    // "mutation($input: ...) { createDiscussion(...) ..." → mutation, createDiscussion
+    const operation = /^\s*(query|mutation)\b[^{]*\{\s*(\w+)/.exec(query);
+    return withRetry(
+      (signal) => client<T>(query, { ...variables, request: { signal } }),
+      {
+        label: `GitHub ${operation?.[2] ?? "GraphQL"} ${operation?.[1] ?? "request"}`,
+        idempotent: operation?.[1] !== "mutation",
+      },
+    );
+  };
 }
 
 /**
@@ -145,6 +167,101 @@ export async function findDiscussion(
   return match ? { id: match.id, url: match.url } : null;
 }
 
+/**
+ * Search for an existing discussion by the SHA-1 hash giscus embeds in the
+ * discussion body (`<!-- sha1: <hash> -->`). Used in strict mapping mode,
+ * where titles may collide but hashes don't.
+ *
+ * @returns The discussion node ID and URL if found, null otherwise.
+ */
+export async function findDiscussionByHash(
+  owner: string,
+  repo: string,
+  hash: string,
+  token?: string,
+): Promise<{ id: string; url: string } | null> {
+  const client = createClient(token);
+
+  const searchQuery = `repo:${owner}/${repo} "${hash}" in:body type:discussion`;
+
+  const result = await client<{
+    search: {
+      nodes: Array<{ id: string; body: string; url: string }>;
+    };
+  }>(
+    `query($searchQuery: String!) {
+      search(query: $searchQuery, type: DISCUSSION, first: 5) {
+        nodes {
+          ... on Discussion {
+            id
+            body
+            url
+          }
+        }
+      }
+    }`,
+    { searchQuery },
+  );
+
+  // Verify the hash marker is actually present (search is fuzzy)
+  const marker = `sha1: ${hash}`;
+  const match = result.search.nodes.find((d) => d.body.includes(marker));
+  return match ? { id: match.id, url: match.url } : null;
+}
+
+/**
+ * Look up a discussion by its number (giscus's "number" mapping).
+ *
+ * @returns The discussion node ID and URL if it exists, null otherwise.
+ */
+export async function getDiscussionByNumber(
+  owner: string,
+  repo: string,
+  number: number,
+  token?: string,
+): Promise<{ id: string; url: string } | null> {
+  const client = createClient(token);
+
+  const result = await client<{
+    repository: {
+      discussion: { id: string; url: string } | null;
+    };
+  }>(
+    `query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        discussion(number: $number) {
+          id
+          url
+        }
+      }
+    }`,
+    { owner, repo, number },
+  );
+
+  return result.repository.discussion;
+}
+
+/**
+ * Find the existing discussion a post maps to, using the lookup that matches
+ * the mapping mode: by number, by strict hash, or by exact title (the term).
+ *
+ * @returns The discussion node ID and URL if found, null otherwise.
+ */
+export async function findMappedDiscussion(
+  owner: string,
+  repo: string,
+  target: DiscussionTarget,
+  token?: string,
+): Promise<{ id: string; url: string } | null> {
+  if (target.number !== undefined) {
+    return getDiscussionByNumber(owner, repo, target.number, token);
+  }
+  if (target.strict) {
+    return findDiscussionByHash(owner, repo, target.hash, token);
+  }
+  return findDiscussion(owner, repo, target.term, token);
+}
+
 /**
  * Create a new GitHub Discussion.
  *
@@ -183,8 +300,9 @@ export async function createDiscussion(
 /**
  * Add a top-level comment to an existing discussion.
  *
- * Note: giscus-bot only posts top-level comments, never replies.
- * Replies are reserved for human readers.
+ * Note: giscus-bot never replies to human comments — those replies are
+ * reserved for human readers. The only replies it posts are between its
+ * own personas, in conversation mode (see addReply()).
  */
 export async function addComment(
   discussionId: string,
@@ -214,28 +332,82 @@ export async function addComment(
 }
 
 /**
- * Get the set of persona names that have already commented on a discussion.
+ * Reply to one of the bot's own comments (conversation mode).
  *
- * Queries the discussion's comments via GraphQL and checks if any start
- * with the labeling prefix pattern. Extracts persona names from comments
- * matching the format: `<prefix> · Persona: <name>`.
+ * Enforces the rule that the bot never replies to humans: the target
+ * comment is fetched first, and anything that doesn't carry the bot's
+ * label is refused.
  *
  * @param discussionId - The discussion node ID.
- * @param labelPrefix - The labeling prefix used by the bot (e.g., "🤖 **AI-Generated Comment**").
+ * @param replyToId - The top-level bot comment to reply to.
+ * @param body - The reply, including the AI label.
+ * @param labelPrefix - The labeling prefix used by the bot.
  * @param token - GitHub PAT.
- * @returns Set of persona names that have already commented.
+ * @throws If the target comment isn't a labeled bot comment.
  */
-export async function getDiscussionBotComments(
+export async function addReply(
   discussionId: string,
+  replyToId: string,
+  body: string,
   labelPrefix: string,
   token?: string,
-): Promise<Set<string>> {
+): Promise<{ id: string }> {
+  const client = createClient(token);
+
+  const target = await client<{ node: { body?: string } | null }>(
+    `query($id: ID!) {
+      node(id: $id) {
+        ... on DiscussionComment {
+          body
+        }
+      }
+    }`,
+    { id: replyToId },
+  );
+  if (!parseBotPersona(target.node?.body ?? "", labelPrefix)) {
+    throw new Error(
+      `Refusing to reply to comment ${replyToId}: it isn't a giscus-bot comment.`,
+    );
+  }
+
+  const result = await client<{
+    addDiscussionComment: {
+      comment: { id: string };
+    };
+  }>(
+    `mutation($input: AddDiscussionCommentInput!) {
+      addDiscussionComment(input: $input) {
+        comment {
+          id
+        }
+      }
+    }`,
+    {
+      input: { discussionId, replyToId, body },
+    },
+  );
+
+  return result.addDiscussionComment.comment;
+}
+
+/**
+ * Get the bodies of all comments on a discussion, replies included, in
+ * thread order (each top-level comment followed by its replies).
+ *
+ * @param discussionId - The discussion node ID.
+ * @param token - GitHub PAT.
+ * @returns The comment bodies, as posted (bot comments keep their label).
+ */
+export async function getDiscussionComments(
+  discussionId: string,
+  token?: string,
+): Promise<string[]> {
   const client = createClient(token);
 
   const result = await client<{
     node: {
       comments: {
-        nodes: Array<{ body: string }>;
+        nodes: Array<{ body: string; replies?: { nodes: Array<{ body: string }> } }>;
       };
     };
   }>(
@@ -245,6 +417,11 @@ export async function getDiscussionBotComments(
           comments(first: 100) {
             nodes {
               body
+              replies(first: 100) {
+                nodes {
+                  body
+                }
+              }
             }
           }
         }
@@ -253,51 +430,500 @@ export async function getDiscussionBotComments(
     { id: discussionId },
   );
 
+  return result.node.comments.nodes.flatMap((comment) => [
+    comment.body,
+    ...(comment.replies?.nodes ?? []).map((reply) => reply.body),
+  ]);
+}
+
+/**
+ * Get the set of persona names that have already commented on a discussion.
+ *
+ * Reads the discussion's comments and their replies and extracts persona
+ * names from comments matching the label format:
+ * `<prefix> · Persona: <name>`, optionally followed by ` · Model: ...`.
+ *
+ * @param discussionId - The discussion node ID.
+ * @param labelPrefix - The labeling prefix used by the bot (e.g., "🤖 **AI-Generated Comment**").
+ * @param token - GitHub PAT.
+ * @returns Set of persona names that have already commented.
+ */
+export async function getDiscussionBotComments(
+  discussionId: string,
+  labelPrefix: string,
+  token?: string,
+): Promise<Set<string>> {
   const personas = new Set<string>();
+
+  // Personas may have replied to each other in conversation mode
+  for (const body of await getDiscussionComments(discussionId, token)) {
+    const name = parseBotPersona(body, labelPrefix);
+    if (name) {
+      personas.add(name);
+    }
+  }
+
+  return personas;
+}
+
+/**
+ * Read the persona name from a bot comment's label line
+ * (`<prefix> · Persona: <name>`, optionally followed by ` · Model: ...`).
+ *
+ * @returns The persona name, or null if the comment isn't the bot's.
+ */
+export function parseBotPersona(body: string, labelPrefix: string): string | null {
   const prefix = `${labelPrefix} · Persona: `;
+  if (!body.startsWith(prefix)) return null;
+  const firstLine = body.split("\n")[0];
+  return firstLine.slice(prefix.length).split(" · ")[0].trim() || null;
+}
+
+/** A discussion comment or reply, with its author's login */
+export interface DiscussionCommentNode {
+  id: string;
+  body: string;
+  /** The author's login, or null for a deleted account */
+  author: string | null;
+}
+
+/** A top-level discussion comment and its replies, oldest first */
+export interface DiscussionThread {
+  comment: DiscussionCommentNode;
+  replies: DiscussionCommentNode[];
+}
+
+/** A discussion with all of its comment threads */
+export interface CategoryDiscussion {
+  id: string;
+  title: string;
+  url: string;
+  body: string;
+  threads: DiscussionThread[];
+}
+
+/**
+ * Fetch the most recently updated discussions in a category, with their
+ * comments and replies (used to find readers' replies to answer).
+ *
+ * @param owner - Repository owner.
+ * @param repo - Repository name.
+ * @param categoryId - Discussion category node ID (see getRepoInfo()).
+ * @param first - How many discussions to fetch (max 100).
+ * @param token - GitHub PAT.
+ */
+export async function getCategoryDiscussions(
+  owner: string,
+  repo: string,
+  categoryId: string,
+  first: number,
+  token?: string,
+): Promise<CategoryDiscussion[]> {
+  const client = createClient(token);
+
+  type CommentNode = { id: string; body: string; author: { login: string } | null };
+  const result = await client<{
+    repository: {
+      discussions: {
+        nodes: Array<{
+          id: string;
+          title: string;
+          url: string;
+          body: string;
+          comments: {
+            nodes: Array<CommentNode & { replies: { nodes: CommentNode[] } }>;
+          };
+        }>;
+      };
+    };
+  }>(
+    `query($owner: String!, $repo: String!, $categoryId: ID!, $first: Int!) {
+      repository(owner: $owner, name: $repo) {
+        discussions(first: $first, categoryId: $categoryId, orderBy: { field: UPDATED_AT, direction: DESC }) {
+          nodes {
+            id
+            title
+            url
+            body
+            comments(first: 100) {
+              nodes {
+                id
+                body
+                author { login }
+                replies(first: 100) {
+                  nodes {
+                    id
+                    body
+                    author { login }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { owner, repo, categoryId, first },
+  );
+
+  const toNode = (node: CommentNode): DiscussionCommentNode => ({
+    id: node.id,
+    body: node.body,
+    author: node.author?.login ?? null,
+  });
+  return result.repository.discussions.nodes.map((discussion) => ({
+    id: discussion.id,
+    title: discussion.title,
+    url: discussion.url,
+    body: discussion.body,
+    threads: discussion.comments.nodes.map((comment) => ({
+      comment: toNode(comment),
+      replies: comment.replies.nodes.map(toNode),
+    })),
+  }));
+}
+
+/** A discussion as listCategoryDiscussions() returns it: enough to map posts to it */
+export interface DiscussionSummary {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  body: string;
+}
+
+/**
+ * Fetch every discussion in a category, 100 per request (used to map
+ * many posts to their discussions without a search per post).
+ *
+ * @param owner - Repository owner.
+ * @param repo - Repository name.
+ * @param categoryId - Discussion category node ID (see getRepoInfo()).
+ * @param token - GitHub PAT.
+ */
+export async function listCategoryDiscussions(
+  owner: string,
+  repo: string,
+  categoryId: string,
+  token?: string,
+): Promise<DiscussionSummary[]> {
+  const client = createClient(token);
+  const discussions: DiscussionSummary[] = [];
+
+  let after: string | null = null;
+  do {
+    const result: {
+      repository: {
+        discussions: {
+          nodes: DiscussionSummary[];
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      };
+    } = await client(
+      `query($owner: String!, $repo: String!, $categoryId: ID!, $after: String) {
+        repository(owner: $owner, name: $repo) {
+          discussions(first: 100, after: $after, categoryId: $categoryId) {
+            nodes {
+              id
+              number
+              title
+              url
+              body
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+      { owner, repo, categoryId, after },
+    );
+
+    const page = result.repository.discussions;
+    discussions.push(...page.nodes);
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after);
+
+  return discussions;
+}
+
+/** An open issue, as the approval workflow reads it */
+export interface IssueNode {
+  id: string;
+  number: number;
+  url: string;
+  body: string;
+  /** Label names */
+  labels: string[];
+}
+
+/**
+ * Fetch the open issues carrying a label, oldest first (used to find
+ * draft issues in the approval workflow).
+ *
+ * @param owner - Repository owner.
+ * @param repo - Repository name.
+ * @param label - Label name.
+ * @param token - GitHub PAT.
+ */
+export async function getLabeledIssues(
+  owner: string,
+  repo: string,
+  label: string,
+  token?: string,
+): Promise<IssueNode[]> {
+  const client = createClient(token);
+
+  const result = await client<{
+    repository: {
+      issues: {
+        nodes: Array<Omit<IssueNode, "labels"> & { labels: { nodes: Array<{ name: string }> } }>;
+      };
+    };
+  }>(
+    `query($owner: String!, $repo: String!, $labels: [String!]) {
+      repository(owner: $owner, name: $repo) {
+        issues(first: 100, states: OPEN, labels: $labels, orderBy: { field: CREATED_AT, direction: ASC }) {
+          nodes {
+            id
+            number
+            url
+            body
+            labels(first: 20) {
+              nodes {
+                name
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { owner, repo, labels: [label] },
+  );
+
+  return result.repository.issues.nodes.map((issue) => ({
+    ...issue,
+    labels: issue.labels.nodes.map((l) => l.name),
+  }));
+}
+
+/**
+ * Open an issue with a label (the approval workflow's draft issues).
+ *
+ * @param owner - Repository owner.
+ * @param repo - Repository name.
+ * @param title - Issue title.
+ * @param body - Issue body (markdown).
+ * @param label - Name of a label that must already exist in the repo.
+ * @param token - GitHub PAT (needs Issues: write).
+ * @returns The issue's node ID and URL.
+ * @throws If the label doesn't exist.
+ */
+export async function createIssue(
+  owner: string,
+  repo: string,
+  title: string,
+  body: string,
+  label: string,
+  token?: string,
+): Promise<{ id: string; url: string }> {
+  const client = createClient(token);
 
-  for (const comment of result.node.comments.nodes) {
-    if (comment.body.startsWith(prefix)) {
-      // Extract persona name from the first line
-      const firstLine = comment.body.split("\n")[0];
-      const name = firstLine.slice(prefix.length).trim();
-      if (name) {
-        personas.add(name);
+  const info = await client<{
+    repository: { id: string; labels: { nodes: Array<{ id: string; name: string }> } };
+  }>(
+    `query($owner: String!, $repo: String!) {
+      repository(owner: $owner, name: $repo) {
+        id
+        labels(first: 100) {
+          nodes {
+            id
+            name
+          }
+        }
+      }
+    }`,
+    { owner, repo },
+  );
+
+  // GitHub matches label names case-insensitively
+  const labels = info.repository.labels.nodes;
+  const match = labels.find((l) => l.name.toLowerCase() === label.toLowerCase());
+  if (!match) {
+    throw new Error(
+      `Label "${label}" not found in ${owner}/${repo}. Available: ${labels.map((l) => l.name).join(", ")}`,
+    );
+  }
+
+  const result = await client<{
+    createIssue: { issue: { id: string; url: string } };
+  }>(
+    `mutation($input: CreateIssueInput!) {
+      createIssue(input: $input) {
+        issue {
+          id
+          url
+        }
+      }
+    }`,
+    {
+      input: { repositoryId: info.repository.id, title, body, labelIds: [match.id] },
+    },
+  );
+
+  return result.createIssue.issue;
+}
+
+/**
+ * Comment on an issue and close it.
+ *
+ * @param issueId - The issue node ID.
+ * @param comment - Closing comment (markdown).
+ * @param token - GitHub PAT (needs Issues: write).
+ */
+export async function closeIssue(
+  issueId: string,
+  comment: string,
+  token?: string,
+): Promise<void> {
+  const client = createClient(token);
+
+  await client(
+    `mutation($input: AddCommentInput!) {
+      addComment(input: $input) {
+        clientMutationId
+      }
+    }`,
+    { input: { subjectId: issueId, body: comment } },
+  );
+  await client(
+    `mutation($input: CloseIssueInput!) {
+      closeIssue(input: $input) {
+        clientMutationId
+      }
+    }`,
+    { input: { issueId } },
+  );
+}
+
+/**
+ * Replace an issue's body and comment on why.
+ *
+ * @param issueId - The issue node ID.
+ * @param body - The new body (markdown).
+ * @param comment - Comment explaining the edit (markdown).
+ * @param token - GitHub PAT (needs Issues: write).
+ */
+export async function updateIssue(
+  issueId: string,
+  body: string,
+  comment: string,
+  token?: string,
+): Promise<void> {
+  const client = createClient(token);
+
+  await client(
+    `mutation($input: UpdateIssueInput!) {
+      updateIssue(input: $input) {
+        clientMutationId
+      }
+    }`,
+    { input: { id: issueId, body } },
+  );
+  await client(
+    `mutation($input: AddCommentInput!) {
+      addComment(input: $input) {
+        clientMutationId
+      }
+    }`,
+    { input: { subjectId: issueId, body: comment } },
+  );
+}
+
+/**
+ * Get the total comment count of several discussions in one request.
+ *
+ * Used by the "least-commented" post selection strategy. IDs that no
+ * longer resolve to a discussion (e.g., deleted) are left out of the map.
+ *
+ * @param discussionIds - Discussion node IDs.
+ * @returns Map of discussion ID → number of top-level comments.
+ */
+export async function getDiscussionCommentCounts(
+  discussionIds: string[],
+  token?: string,
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const client = createClient(token);
+
+  // The nodes() field accepts at most 100 IDs per request
+  for (let i = 0; i < discussionIds.length; i += 100) {
+    const result = await client<{
+      nodes: Array<{ id: string; comments: { totalCount: number } } | null>;
+    }>(
+      `query($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on Discussion {
+            id
+            comments {
+              totalCount
+            }
+          }
+        }
+      }`,
+      { ids: discussionIds.slice(i, i + 100) },
+    );
+
+    for (const node of result.nodes) {
+      if (node?.comments) {
+        counts.set(node.id, node.comments.totalCount);
       }
     }
   }
 
-  return personas;
+  return counts;
 }
 
 /**
  * Find an existing discussion or create a new one for a blog post.
  *
  * This is the main entry point for the publisher — it ensures exactly
- * one discussion exists per blog post title, creating it only if needed.
+ * one discussion exists per mapping term, creating it only if needed.
+ * Like giscus, the term becomes the discussion title.
  *
  * @param owner - GitHub repository owner
  * @param repo - GitHub repository name
  * @param categoryName - Discussion category name (e.g., "Blog Comments")
- * @param title - Blog post title (becomes the discussion title)
- * @param body - Discussion body text (typically a link to the blog post)
+ * @param target - The post's mapping term, hash and discussion body
  * @returns The discussion's node ID and URL
+ * @throws If "number" mapping points at a discussion that doesn't exist
  */
 export async function findOrCreateDiscussion(
   owner: string,
   repo: string,
   categoryName: string,
-  title: string,
-  body: string,
+  target: DiscussionTarget,
   token?: string,
 ): Promise<{ id: string; url: string }> {
   // First, check if a discussion already exists for this post
-  const existing = await findDiscussion(owner, repo, title, token);
+  const existing = await findMappedDiscussion(owner, repo, target, token);
   if (existing) {
     return existing;
   }
 
+  // "number" mapping only ever refers to an existing discussion
+  if (target.number !== undefined) {
+    throw new Error(`Discussion #${target.number} not found in ${owner}/${repo}.`);
+  }
+
   // No existing discussion — create a new one
   const repoInfo = await getRepoInfo(owner, repo, categoryName, token);
-  return createDiscussion(repoInfo.repoId, repoInfo.categoryId, title, body, token);
+  return createDiscussion(
+    repoInfo.repoId,
+    repoInfo.categoryId,
+    target.term,
+    target.body,
+    token,
+  );
 }
@@ -0,0 +1,126 @@
+/**
+ * Push event inspection.
+ *
+ * When the Action runs on a `push`, GitHub writes the event payload to
+ * GITHUB_EVENT_PATH. This module reads it to find which blog posts the
+ * push touched, so only new posts get comments instead of the whole archive.
+ *
+ * New posts are detected with `git diff --diff-filter=AR` between the
+ * push's `before` and `after` commits, which also catches renames. If that
+ * history isn't in the checkout (actions/checkout fetches one commit by
+ * default), we fall back to the `added` lists in the payload's commits.
+ */
+
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { normalize } from "node:path";
+
+/** The subset of a GitHub push event payload we read */
+export interface PushEvent {
+  /** SHA before the push (all zeros when the push created the branch) */
+  before?: string;
+  /** SHA after the push */
+  after?: string;
+  commits?: Array<{ added?: string[]; modified?: string[]; removed?: string[] }>;
+  head_commit?: { added?: string[]; modified?: string[]; removed?: string[] } | null;
+}
+
+/** `before` value GitHub sends for a push that created the branch */
+const NULL_SHA = /^0+$/;
+
+/**
+ * Read the push event payload.
+ *
+ * @param eventPath - Path to the event payload (GITHUB_EVENT_PATH).
+ * @returns The parsed payload, or null if there is none.
+ */
+export function readPushEvent(eventPath: string | undefined): PushEvent | null {
+  if (!eventPath || !existsSync(eventPath)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(eventPath, "utf-8")) as PushEvent;
+}
+
+/**
+ * The commits listed in a push payload. Pushes with many commits may
+ * omit `commits`; head_commit still describes the latest one.
+ */
+function pushCommits(event: PushEvent) {
+  return event.commits ?? (event.head_commit ? [event.head_commit] : []);
+}
+
+/**
+ * Read the files added or modified by a push event.
+ *
+ * @param eventPath - Path to the event payload (GITHUB_EVENT_PATH).
+ * @returns Normalized repo-relative paths, or an empty list if the payload
+ *          is missing or isn't a push event.
+ */
+export function readPushedFiles(eventPath: string | undefined): string[] {
+  const event = readPushEvent(eventPath);
+  if (!event) {
+    return [];
+  }
+
+  const files = new Set<string>();
+  for (const commit of pushCommits(event)) {
+    for (const file of [...(commit.added ?? []), ...(commit.modified ?? [])]) {
+      files.add(normalize(file));
+    }
+  }
+  return [...files];
+}
+
+/**
+ * List files added or renamed between two commits with `git diff`.
+ *
+ * @returns Repo-relative paths, or null if git can't diff the range
+ *          (e.g., a shallow checkout without the `before` commit).
+ */
+function gitAddedFiles(before: string, after: string): string[] | null {
+  try {
+    const output = execFileSync(
+      "git",
+      ["diff", "--name-only", "--diff-filter=AR", "-M", before, after],
+      { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] },
+    );
+    return output.split("\n").filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files added by the push according to the payload. A rename shows up as
+ * added + removed, so it's included; files added and then removed again
+ * within the same push are not.
+ */
+function payloadAddedFiles(event: PushEvent): string[] {
+  const added = new Set<string>();
+  for (const commit of pushCommits(event)) {
+    for (const file of commit.added ?? []) added.add(file);
+    for (const file of commit.removed ?? []) added.delete(file);
+  }
+  return [...added];
+}
+
+/**
+ * Find the blog posts a push added (or renamed).
+ *
+ * @param event - The push event payload.
+ * @param isPost - Tells whether a repo-relative path is a blog post
+ *                 (see createPostMatcher in content.ts).
+ * @returns Normalized repo-relative paths of the new posts.
+ */
+export function findAddedPosts(
+  event: PushEvent,
+  isPost: (path: string) => boolean,
+): string[] {
+  const canDiff =
+    event.before && event.after && !NULL_SHA.test(event.before);
+  const files =
+    (canDiff ? gitAddedFiles(event.before!, event.after!) : null) ??
+    payloadAddedFiles(event);
+
+  return files.map((file) => normalize(file)).filter(isPost);
+}
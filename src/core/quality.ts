@@ -0,0 +1,182 @@
+/**
+ * Quality gate — checks generated comments before they're posted.
+ *
+ * The prompt asks for specific, engaging comments, but models don't always
+ * listen. With a `quality` section in the config, generate() runs each
+ * comment through these checks:
+ *   - banned phrases (generic praise, the persona's forbiddenPhrases, and
+ *     `quality.bannedPhrases`)
+ *   - min/max length in characters
+ *   - overlap with the post: the comment must share some words with it,
+ *     a cheap sign that it's about this post and not any post
+ *   - ending with a question, for personas that should
+ *   - near-duplicates of comments already on the discussion
+ *
+ * A comment that fails is regenerated, up to `quality.regenerations`
+ * times, and then dropped.
+ */
+
+import type { PersonaConfig, QualityConfig } from "../config/types.js";
+import type { PostContext } from "../providers/base.js";
+
+/** Default limits for the quality section */
+const DEFAULT_MIN_LENGTH = 80;
+const DEFAULT_MAX_LENGTH = 2000;
+const DEFAULT_MIN_POST_OVERLAP = 2;
+const DEFAULT_MAX_SIMILARITY = 0.6;
+
+/** Generic phrases that are always rejected (the prompt forbids them too) */
+export const GENERIC_PHRASES = [
+  "great article",
+  "great post",
+  "nice article",
+  "nice post",
+  "great read",
+  "thanks for sharing",
+  "as an ai",
+];
+
+/**
+ * Common English words of four letters or more, which say nothing about
+ * whether a comment is about the post
+ */
+const STOPWORDS = new Set([
+  "about", "also", "been", "both", "could", "does", "each", "even", "from",
+  "have", "here", "into", "just", "like", "made", "make", "many", "more",
+  "most", "much", "only", "other", "over", "really", "same", "should",
+  "some", "such", "than", "that", "their", "them", "then", "there", "these",
+  "they", "thing", "things", "think", "this", "those", "very", "want",
+  "well", "were", "what", "when", "where", "which", "while", "will", "with",
+  "would", "your",
+]);
+
+/** What a comment is checked against */
+export interface QualityCheckInput {
+  /** The post being commented on */
+  post: PostContext;
+  /** The persona that wrote the comment */
+  persona: PersonaConfig;
+  /** Comments already on the discussion (and earlier ones from this run), without labels */
+  existing: string[];
+}
+
+/** Lowercased words (letters and digits) in a text */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Whether a word carries meaning for the overlap check */
+function isContentWord(word: string): boolean {
+  return /^[\x00-\x7f]+$/.test(word)
+    ? word.length >= 4 && !/^\d+$/.test(word) && !STOPWORDS.has(word)
+    : word.length >= 2;
+}
+
+/**
+ * Distinct content words the comment shares with the post. ASCII words
+ * must match exactly; others (e.g., Korean, where particles attach to the
+ * word) count when they appear anywhere in the post.
+ */
+function sharedWords(comment: string, post: PostContext): string[] {
+  const postText = [post.title, post.content, ...(post.tags ?? []), ...(post.categories ?? [])]
+    .join("\n")
+    .toLowerCase();
+  const postWords = new Set(words(postText));
+  const shared = new Set<string>();
+  for (const word of words(comment)) {
+    if (!isContentWord(word)) continue;
+    if (/^[\x00-\x7f]+$/.test(word) ? postWords.has(word) : postText.includes(word)) {
+      shared.add(word);
+    }
+  }
+  return [...shared];
+}
+
+/** Whether a comment ends with a question (allowing closing quotes and markup) */
+function endsWithQuestion(comment: string): boolean {
+  return /[?？][\s"'”’)\]*_~]*$/u.test(comment);
+}
+
+/**
+ * How similar two texts are, from 0 (nothing in common) to 1 (the same
+ * words in the same order): the Jaccard similarity of their word pairs.
+ */
+export function similarity(a: string, b: string): number {
+  const shingles = (text: string): Set<string> => {
+    const list = words(text);
+    if (list.length < 2) return new Set(list);
+    return new Set(list.slice(1).map((word, i) => `${list[i]} ${word}`));
+  };
+  const left = shingles(a);
+  const right = shingles(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let common = 0;
+  for (const shingle of left) {
+    if (right.has(shingle)) common++;
+  }
+  return common / (left.size + right.size - common);
+}
+
+/**
+ * Check a generated comment against the quality rules.
+ *
+ * @param comment - The comment text, without the AI label.
+ * @param input - The post, persona and existing comments to check against.
+ * @param quality - The config's quality section.
+ * @returns Why the comment fails, or an empty list if it passes.
+ */
+export function checkComment(
+  comment: string,
+  input: QualityCheckInput,
+  quality: QualityConfig,
+): string[] {
+  const reasons: string[] = [];
+  const text = comment.trim();
+  const lower = text.toLowerCase();
+
+  const banned = [
+    ...GENERIC_PHRASES,
+    ...(input.persona.forbiddenPhrases ?? []),
+    ...(quality.bannedPhrases ?? []),
+  ];
+  for (const phrase of new Set(banned.map((p) => p.toLowerCase()))) {
+    if (lower.includes(phrase)) {
+      reasons.push(`contains banned phrase "${phrase}"`);
+    }
+  }
+
+  const length = [...text].length;
+  const minLength = quality.minLength ?? DEFAULT_MIN_LENGTH;
+  const maxLength = quality.maxLength ?? DEFAULT_MAX_LENGTH;
+  if (length < minLength) {
+    reasons.push(`too short (${length} characters, minimum ${minLength})`);
+  } else if (length > maxLength) {
+    reasons.push(`too long (${length} characters, maximum ${maxLength})`);
+  }
+
+  const minOverlap = quality.minPostOverlap ?? DEFAULT_MIN_POST_OVERLAP;
+  if (minOverlap > 0) {
+    const shared = sharedWords(text, input.post).length;
+    if (shared < minOverlap) {
+      reasons.push(
+        `doesn't reference the post (shares ${shared} word${shared === 1 ? "" : "s"} with it, minimum ${minOverlap})`,
+      );
+    }
+  }
+
+  if (
+    quality.requireQuestion !== false &&
+    input.persona.endWithQuestion !== false &&
+    !endsWithQuestion(text)
+  ) {
+    reasons.push("doesn't end with a question");
+  }
+
+  const maxSimilarity = quality.maxSimilarity ?? DEFAULT_MAX_SIMILARITY;
+  const closest = Math.max(0, ...input.existing.map((other) => similarity(text, other)));
+  if (closest > maxSimilarity) {
+    reasons.push(`near-duplicate of an existing comment (similarity ${closest.toFixed(2)})`);
+  }
+
+  return reasons;
+}
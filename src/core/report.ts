@@ -0,0 +1,311 @@
+/**
+ * Report — generate() results as a file for review outside the console.
+ *
+ * `giscus-bot generate --output <file>` writes one, so a dry run can be
+ * kept as a CI artifact or diffed across prompt and model changes. The
+ * Action also writes the markdown report to the job summary. Formats:
+ *   - json: the GenerateResults as-is, plus run totals (for tooling)
+ *   - markdown: a summary table, then each post's comments (for people)
+ *   - text: what the CLI prints after a run
+ *
+ * Every format includes each comment's persona, provider and model,
+ * timing and token usage (when the provider's API reports it), with the
+ * LLM judge's time and tokens apart from the writer's. Totals add both.
+ * Moderation calls aren't counted: the OpenAI moderation endpoint reports
+ * no token usage.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname, extname } from "node:path";
+import type { TokenUsage } from "../providers/base.js";
+import type { GenerateResult } from "./generator.js";
+import { describeScores } from "./judge.js";
+import { describeReasons } from "./moderation.js";
+
+/** Supported report formats */
+export const REPORT_FORMATS = ["json", "markdown", "text"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Totals across every post in a report */
+export interface ReportTotals {
+  posts: number;
+  comments: number;
+  durationMs: number;
+  /** Writer and judge tokens together; null if no provider reported usage */
+  usage: TokenUsage | null;
+}
+
+/** The JSON report */
+export interface Report {
+  /** ISO 8601 timestamp of when the report was written */
+  generatedAt: string;
+  dryRun: boolean;
+  totals: ReportTotals;
+  results: GenerateResult[];
+}
+
+/**
+ * Parse a --format value.
+ *
+ * @throws If it isn't a supported format.
+ */
+export function parseReportFormat(value: string): ReportFormat {
+  const format = REPORT_FORMATS.find((f) => f === value.toLowerCase());
+  if (!format) {
+    throw new Error(
+      `Unknown report format "${value}". Use one of: ${REPORT_FORMATS.join(", ")}.`,
+    );
+  }
+  return format;
+}
+
+/** The format a report path implies: .json, .md/.markdown, else text */
+export function inferReportFormat(path: string): ReportFormat {
+  const ext = extname(path).toLowerCase();
+  if (ext === ".json") return "json";
+  if (ext === ".md" || ext === ".markdown") return "markdown";
+  return "text";
+}
+
+/** Add up token usage, ignoring comments whose provider didn't report any */
+function sumUsage(usages: (TokenUsage | undefined)[]): TokenUsage | null {
+  const reported = usages.filter((u): u is TokenUsage => u !== undefined);
+  if (reported.length === 0) return null;
+  return {
+    inputTokens: reported.reduce((sum, u) => sum + u.inputTokens, 0),
+    outputTokens: reported.reduce((sum, u) => sum + u.outputTokens, 0),
+  };
+}
+
+/** The tokens a result's writer and judge calls used */
+function resultUsages(result: GenerateResult): (TokenUsage | undefined)[] {
+  return result.comments.flatMap((c) => [c.usage, c.judgeUsage]);
+}
+
+/** Totals across a run's results */
+export function reportTotals(results: GenerateResult[]): ReportTotals {
+  return {
+    posts: results.length,
+    comments: results.reduce((sum, r) => sum + r.comments.length, 0),
+    durationMs: results.reduce((sum, r) => sum + r.durationMs, 0),
+    usage: sumUsage(results.flatMap(resultUsages)),
+  };
+}
+
+/** Format a duration (e.g., "4.2s") */
+function describeDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Format token usage (e.g., "812 in / 95 out tokens") */
+function describeUsage(usage: TokenUsage | null | undefined): string {
+  return usage
+    ? `${usage.inputTokens} in / ${usage.outputTokens} out tokens`
+    : "tokens not reported";
+}
+
+/** The judge's share of a comment (e.g., "judge 1.1s, 300 in / 20 out tokens"), if it was judged */
+function describeJudging(comment: GenerateResult["comments"][number]): string | null {
+  if (comment.judgeDurationMs === undefined) return null;
+  return `judge ${describeDuration(comment.judgeDurationMs)}, ${describeUsage(comment.judgeUsage)}`;
+}
+
+/** The post's metadata as "Key: value" pairs, skipping unset fields */
+function describeMetadata(result: GenerateResult): string[] {
+  const { date, author, tags, categories, language } = result.postMetadata;
+  const pairs: [string, string | undefined][] = [
+    ["Date", date?.toISOString().slice(0, 10)],
+    ["Author", author],
+    ["Tags", tags?.join(", ") || undefined],
+    ["Categories", categories?.join(", ") || undefined],
+    ["Language", language],
+  ];
+  return pairs.filter(([, value]) => value).map(([key, value]) => `${key}: ${value}`);
+}
+
+/** The text report: what the CLI prints after a run */
+function renderText(results: GenerateResult[], dryRun: boolean): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    lines.push(`\nPost: "${result.postTitle}"`, `URL: ${result.postUrl}`);
+    const metadata = describeMetadata(result);
+    if (metadata.length > 0) lines.push(metadata.join(" · "));
+    if (result.discussionUrl) {
+      lines.push(`Discussion: ${result.discussionUrl}`);
+    }
+    if (result.skippedPersonas.length > 0) {
+      lines.push(`Skipped (already commented): ${result.skippedPersonas.join(", ")}`);
+    }
+    lines.push(`Personas (${result.personaSelection.strategy}):`);
+    for (const choice of result.personaSelection.choices) {
+      lines.push(`  - ${choice.personaName}: ${choice.reason}`);
+    }
+    if (result.personaSelection.choices.length === 0) {
+      lines.push("  (none)");
+    }
+    for (const rejection of result.rejectedComments) {
+      lines.push(
+        `Rejected ${rejection.personaName} (try ${rejection.attempt}): ${rejection.reasons.join("; ")}`,
+      );
+    }
+    if (result.droppedPersonas.length > 0) {
+      lines.push(`Dropped (no draft passed the checks): ${result.droppedPersonas.join(", ")}`);
+    }
+    for (const blocked of result.blockedComments) {
+      lines.push(`Blocked ${blocked.personaName}: ${describeReasons(blocked.reasons)}`);
+    }
+
+    // Each generated comment with a separator
+    lines.push("\n" + "=".repeat(60));
+    for (const comment of result.comments) {
+      const reply = comment.inReplyTo ? `, replying to ${comment.inReplyTo}` : "";
+      const judging = describeJudging(comment);
+      lines.push(
+        `\nPersona: ${comment.personaName} (${comment.model} via ${comment.provider})${reply}`,
+        `Took ${describeDuration(comment.durationMs)}, ${describeUsage(comment.usage)}` +
+          (judging ? `; ${judging}` : ""),
+      );
+      if (comment.judgeScores) {
+        lines.push(`Judge: ${describeScores(comment.judgeScores)}`);
+      }
+      lines.push("-".repeat(40), comment.formattedComment, "\n" + "=".repeat(60));
+    }
+
+    lines.push(`\nDone! Generated ${result.comments.length} comment(s) in ${describeDuration(result.durationMs)}.`);
+    if (result.draftsAt) {
+      lines.push(`Drafts waiting for review: ${result.draftsAt}`);
+    }
+  }
+
+  if (results.length > 1) {
+    const totals = reportTotals(results);
+    lines.push(
+      `\nTotal: ${totals.comments} comment(s) for ${totals.posts} post(s) in ` +
+        `${describeDuration(totals.durationMs)}, ${describeUsage(totals.usage)}`,
+    );
+  }
+  if (dryRun) {
+    lines.push("(dry run: nothing was posted)");
+  }
+  return lines.join("\n").trimStart() + "\n";
+}
+
+/** Escape text for a markdown table cell */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/** The markdown report: a summary table, then each post's comments */
+function renderMarkdown(results: GenerateResult[], dryRun: boolean): string {
+  const totals = reportTotals(results);
+  const lines = [
+    `# giscus-bot${dryRun ? " dry run" : ""}`,
+    "",
+    `${totals.comments} comment(s) for ${totals.posts} post(s) in ` +
+      `${describeDuration(totals.durationMs)}, ${describeUsage(totals.usage)}.`,
+    "",
+    "| Post | Discussion | Comments | Time | Tokens (in / out) |",
+    "|------|------------|----------|------|-------------------|",
+  ];
+  for (const result of results) {
+    const usage = sumUsage(resultUsages(result));
+    lines.push(
+      `| [${tableCell(result.postTitle)}](${result.postUrl}) ` +
+        `| ${result.discussionUrl ?? result.draftsAt ?? "—"} ` +
+        `| ${result.comments.length} ` +
+        `| ${describeDuration(result.durationMs)} ` +
+        `| ${usage ? `${usage.inputTokens} / ${usage.outputTokens}` : "—"} |`,
+    );
+  }
+
+  for (const result of results) {
+    lines.push("", `## ${result.postTitle}`, "", `Post: ${result.postUrl}`);
+    const metadata = describeMetadata(result);
+    if (metadata.length > 0) lines.push(`${metadata.join(" · ")}`);
+    if (result.discussionUrl) lines.push(`Discussion: ${result.discussionUrl}`);
+    if (result.draftsAt) lines.push(`Drafts waiting for review: ${result.draftsAt}`);
+
+    for (const comment of result.comments) {
+      const judging = describeJudging(comment);
+      const details = [
+        `${comment.model} via ${comment.provider}`,
+        describeDuration(comment.durationMs),
+        describeUsage(comment.usage),
+        ...(comment.inReplyTo ? [`replying to ${comment.inReplyTo}`] : []),
+        ...(comment.judgeScores ? [`judge: ${describeScores(comment.judgeScores)}`] : []),
+        ...(judging ? [judging] : []),
+      ];
+      // Quoted, so headings or lists in a comment don't break the report
+      lines.push(
+        "",
+        `### ${comment.personaName}`,
+        "",
+        `_${details.join(" · ")}_`,
+        "",
+        comment.comment.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n"),
+      );
+    }
+
+    const notes = [
+      ...result.skippedPersonas.map((name) => `Skipped ${name} (already commented)`),
+      ...result.rejectedComments.map(
+        (r) => `Rejected ${r.personaName} (try ${r.attempt}): ${r.reasons.join("; ")}`,
+      ),
+      ...result.droppedPersonas.map((name) => `Dropped ${name} (no draft passed the checks)`),
+      ...result.blockedComments.map(
+        (b) => `Blocked ${b.personaName}: ${describeReasons(b.reasons)}`,
+      ),
+    ];
+    if (notes.length > 0) {
+      lines.push("", ...notes.map((note) => `- ${note}`));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Render a run's results as a report.
+ *
+ * @param results - One GenerateResult per post, in the order they ran.
+ * @param format - The report format.
+ * @param options.dryRun - Whether the run was a dry run (noted in the report).
+ */
+export function renderReport(
+  results: GenerateResult[],
+  format: ReportFormat,
+  options: { dryRun?: boolean } = {},
+): string {
+  const dryRun = options.dryRun ?? false;
+  if (format === "json") {
+    const report: Report = {
+      generatedAt: new Date().toISOString(),
+      dryRun,
+      totals: reportTotals(results),
+      results,
+    };
+    return JSON.stringify(report, null, 2) + "\n";
+  }
+  return format === "markdown"
+    ? renderMarkdown(results, dryRun)
+    : renderText(results, dryRun);
+}
+
+/**
+ * Write a report file, creating its directory if needed.
+ *
+ * @param path - Where to write it.
+ * @param format - The report format (default: implied by the extension).
+ */
+export function writeReport(
+  results: GenerateResult[],
+  path: string,
+  format: ReportFormat = inferReportFormat(path),
+  options: { dryRun?: boolean } = {},
+): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, renderReport(results, format, options), "utf-8");
+}
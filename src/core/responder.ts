@@ -0,0 +1,356 @@
+/**
+ * Responder — answers readers who reply to the bot's comments (opt-in).
+ *
+ * Readers often reply to a persona's question and nobody answers. The
+ * `respond` command (and Action mode) walks the configured discussion
+ * category and, for each thread a bot comment started:
+ *   1. Finds human replies posted after the bot last spoke in the thread
+ *   2. Has the persona they replied to write one labeled reply, with the
+ *      post content and the thread history in its prompt
+ *   3. Posts it as a reply in the same thread
+ *
+ * Only threads the bot started are touched: human top-level comments are
+ * never answered, and every reply goes under a bot comment (addReply()
+ * refuses anything else). Limits cap replies per run and per thread, and
+ * `respond.allowUsers` / `respond.denyUsers` pick whom to answer. With a
+ * `moderation` section, replies are screened before posting like comments.
+ * A thread that fails (e.g., its post can't be fetched) is skipped with
+ * the error, and the run goes on. With approval mode on, only dry runs are
+ * allowed: replies have no review step, so they'd go live unseen.
+ */
+
+import { existsSync } from "node:fs";
+import type { GiscusBotConfig } from "../config/types.js";
+import type {
+  AIProvider,
+  CommentSource,
+  Moderator,
+  PostContext,
+  ThreadComment,
+} from "../providers/base.js";
+import { providerChain, resolvePersonaProvider } from "../providers/index.js";
+import { extractPost, extractPostFromFile } from "./scraper.js";
+import * as publisher from "./publisher.js";
+import type {
+  CategoryDiscussion,
+  DiscussionCommentNode,
+  DiscussionThread,
+} from "./publisher.js";
+import { formatComment } from "./generator.js";
+import { moderateComment } from "./moderation.js";
+import { describeError } from "./retry.js";
+import type { ModerationReason } from "./moderation.js";
+import { recordPost } from "./state.js";
+import type { BotState } from "./state.js";
+
+/** Default limits for the respond section */
+const DEFAULT_MAX_REPLIES_PER_RUN = 5;
+const DEFAULT_MAX_REPLIES_PER_THREAD = 3;
+const DEFAULT_MAX_DISCUSSIONS = 20;
+
+/** A thread with reader replies the bot hasn't answered yet */
+export interface PendingReply {
+  discussion: CategoryDiscussion;
+  thread: DiscussionThread;
+  /** The persona the readers replied to (the bot's last speaker in the thread) */
+  personaName: string;
+  /** The unanswered human replies, oldest first */
+  unanswered: DiscussionCommentNode[];
+}
+
+/** A reply the responder wrote */
+export interface ReplyResult {
+  discussionUrl: string;
+  personaName: string;
+  /** The readers being answered (logins) */
+  replyingTo: string[];
+  provider: string;
+  model: string;
+  comment: string;
+  formattedComment: string;
+  /** Reply node ID (undefined in dry-run mode) */
+  commentId?: string;
+}
+
+/** Result of a respond run */
+export interface RespondResult {
+  /** How many discussions were checked */
+  discussionsChecked: number;
+  replies: ReplyResult[];
+  /** Threads with unanswered replies that were left alone, and why */
+  skipped: { discussionUrl: string; reason: string }[];
+  /** Replies moderation blocked from being posted, with why */
+  blocked: { discussionUrl: string; personaName: string; reasons: ModerationReason[] }[];
+}
+
+/** Whether a reader may be answered under the allow/deny lists (case-insensitive) */
+function isAllowed(login: string, respond: GiscusBotConfig["respond"]): boolean {
+  const matches = (list: string[] | undefined): boolean =>
+    list?.some((user) => user.toLowerCase() === login.toLowerCase()) ?? false;
+  if (matches(respond?.denyUsers)) return false;
+  return respond?.allowUsers === undefined || matches(respond.allowUsers);
+}
+
+/**
+ * Find threads where readers replied to the bot and got no answer.
+ *
+ * A thread qualifies when its top-level comment is the bot's, some human
+ * replies came after the bot last spoke in it, and it has fewer than
+ * `maxRepliesPerThread` bot replies. Readers outside the allow list or on
+ * the deny list are ignored (and don't trigger a reply on their own).
+ *
+ * @param discussions - Discussions with their threads (see getCategoryDiscussions()).
+ * @param config - The full config (labeling prefix and respond section).
+ * @returns Pending threads, in discussion order.
+ */
+export function findPendingReplies(
+  discussions: CategoryDiscussion[],
+  config: GiscusBotConfig,
+): PendingReply[] {
+  const prefix = config.labeling.prefix;
+  const maxPerThread = config.respond?.maxRepliesPerThread ?? DEFAULT_MAX_REPLIES_PER_THREAD;
+  const pending: PendingReply[] = [];
+
+  for (const discussion of discussions) {
+    for (const thread of discussion.threads) {
+      let personaName = publisher.parseBotPersona(thread.comment.body, prefix);
+      if (!personaName) continue;
+
+      let botReplies = 0;
+      let unanswered: DiscussionCommentNode[] = [];
+      for (const reply of thread.replies) {
+        const botPersona = publisher.parseBotPersona(reply.body, prefix);
+        if (botPersona) {
+          // The bot spoke: everything before this has been answered
+          personaName = botPersona;
+          botReplies++;
+          unanswered = [];
+        } else if (reply.author && isAllowed(reply.author, config.respond)) {
+          unanswered.push(reply);
+        }
+      }
+
+      if (unanswered.length > 0 && botReplies < maxPerThread) {
+        pending.push({ discussion, thread, personaName, unanswered });
+      }
+    }
+  }
+
+  return pending;
+}
+
+/** Strip the AI label line from a bot comment */
+function stripLabel(body: string): string {
+  return body.split("\n").slice(1).join("\n").trim();
+}
+
+/** The thread so far, as the persona sees it in its prompt */
+function threadHistory(thread: DiscussionThread, prefix: string): ThreadComment[] {
+  return [thread.comment, ...thread.replies].map((node, i) => {
+    const persona = publisher.parseBotPersona(node.body, prefix);
+    return {
+      author: persona ?? `@${node.author ?? "ghost"}`,
+      body: persona ? stripLabel(node.body) : node.body,
+      isReply: i > 0,
+    };
+  });
+}
+
+/**
+ * Find the post a discussion belongs to: the state's record of it (a
+ * local post file, or the post's URL), else the URL giscus put in the
+ * discussion body, else just the discussion itself.
+ */
+async function resolvePost(
+  discussion: CategoryDiscussion,
+  config: GiscusBotConfig,
+  state: BotState | undefined,
+): Promise<{ post: PostContext; postKey: string | null }> {
+  const entry = state
+    ? Object.entries(state.posts).find(([, post]) => post.discussionId === discussion.id)
+    : undefined;
+  const postKey = entry?.[0] ?? null;
+
+  if (postKey && existsSync(postKey)) {
+    return { post: extractPostFromFile(postKey, config.site), postKey };
+  }
+  const url =
+    entry?.[1].url ?? /^https?:\/\/\S+$/m.exec(discussion.body)?.[0];
+  if (url) {
+    return { post: await extractPost(url), postKey };
+  }
+  return {
+    post: {
+      url: discussion.url,
+      title: discussion.title,
+      content: discussion.body,
+      excerpt: discussion.body.slice(0, 200),
+    },
+    postKey,
+  };
+}
+
+/**
+ * Answer readers' unanswered replies to the bot's comments.
+ *
+ * @param config - The full giscus-bot configuration.
+ * @param provider - The AI provider to use.
+ * @param options.dryRun - If true, write the replies but don't post them.
+ * @param options.state - Persistent state; used to find each discussion's
+ *                        post, and posted replies are recorded into it.
+ * @param options.personaProviders - Providers for personas that override
+ *                                   the top-level one.
+ * @param options.moderator - Classifier from `moderation.provider`.
+ * @returns The replies written and the threads skipped.
+ * @throws If approval mode is on and this isn't a dry run.
+ */
+export async function respond(
+  config: GiscusBotConfig,
+  provider: AIProvider,
+  options: {
+    dryRun?: boolean;
+    state?: BotState;
+    personaProviders?: Map<string, AIProvider>;
+    moderator?: Moderator;
+  } = {},
+): Promise<RespondResult> {
+  // Approval means nothing goes out without a human look, and replies
+  // have no review step
+  const approval = config.approval;
+  if (approval !== undefined && approval.enabled !== false && !options.dryRun) {
+    throw new Error(
+      "respond can't run with approval mode on: replies aren't drafted for review, " +
+        "so they'd be posted without a human look. Use --dry-run to preview them, " +
+        "or turn approval off (approval.enabled: false).",
+    );
+  }
+
+  const [owner, repo] = config.github.repo.split("/");
+  if (!owner || !repo) {
+    throw new Error(
+      `Invalid repo format "${config.github.repo}". Expected "owner/repo".`,
+    );
+  }
+
+  const { categoryId } = await publisher.getRepoInfo(
+    owner,
+    repo,
+    config.github.discussionCategory,
+  );
+  const discussions = await publisher.getCategoryDiscussions(
+    owner,
+    repo,
+    categoryId,
+    config.respond?.maxDiscussions ?? DEFAULT_MAX_DISCUSSIONS,
+  );
+
+  const maxPerRun = config.respond?.maxRepliesPerRun ?? DEFAULT_MAX_REPLIES_PER_RUN;
+  const replies: ReplyResult[] = [];
+  const skipped: RespondResult["skipped"] = [];
+  const blocked: RespondResult["blocked"] = [];
+
+  for (const pending of findPendingReplies(discussions, config)) {
+    const discussionUrl = pending.discussion.url;
+    if (replies.length >= maxPerRun) {
+      skipped.push({ discussionUrl, reason: `reached maxRepliesPerRun (${maxPerRun})` });
+      continue;
+    }
+    const persona = config.personas.find((p) => p.name === pending.personaName);
+    if (!persona) {
+      skipped.push({
+        discussionUrl,
+        reason: `persona "${pending.personaName}" is no longer configured`,
+      });
+      continue;
+    }
+
+    // One thread's failure (a dead post URL, a provider error) is skipped
+    // with its reason, so the threads after it still get answered
+    try {
+      // The persona sees the post and the whole thread, and answers the
+      // latest reader (addressing any others who replied since)
+      const { post, postKey } = await resolvePost(pending.discussion, config, options.state);
+      const readers = [...new Set(pending.unanswered.map((reply) => reply.author!))];
+      const context: PostContext = {
+        ...post,
+        thread: {
+          comments: threadHistory(pending.thread, config.labeling.prefix),
+          replyTo: `@${readers[readers.length - 1]}`,
+        },
+      };
+
+      const personaProvider = options.personaProviders?.get(persona.name) ?? provider;
+      let source: CommentSource = {
+        provider: personaProvider.name,
+        model:
+          personaProvider.model ??
+          providerChain(resolvePersonaProvider(config.provider, persona))[0].model,
+      };
+      const comment = await personaProvider.generateComment(context, persona, {
+        onSource: (reported) => {
+          source = reported;
+        },
+      });
+
+      // Screen the reply; it may address the readers it answers
+      if (config.moderation && config.moderation.enabled !== false) {
+        const reasons = await moderateComment(
+          comment,
+          { post, persona, allowedMentions: readers },
+          config.moderation,
+          options.moderator,
+        );
+        if (reasons.length > 0) {
+          blocked.push({ discussionUrl, personaName: persona.name, reasons });
+          continue;
+        }
+      }
+
+      const formattedComment = formatComment(comment, persona.name, config.labeling, source);
+      const result: ReplyResult = {
+        discussionUrl,
+        personaName: persona.name,
+        replyingTo: readers,
+        provider: source.provider,
+        model: source.model,
+        comment,
+        formattedComment,
+      };
+
+      if (!options.dryRun) {
+        const posted = await publisher.addReply(
+          pending.discussion.id,
+          pending.thread.comment.id,
+          formattedComment,
+          config.labeling.prefix,
+        );
+        result.commentId = posted.id;
+
+        if (options.state && postKey) {
+          const known = options.state.posts[postKey];
+          recordPost(options.state, postKey, {
+            title: known.title,
+            url: known.url,
+            discussionId: pending.discussion.id,
+            discussionUrl,
+            comments: [
+              {
+                id: posted.id,
+                personaName: persona.name,
+                provider: source.provider,
+                model: source.model,
+                createdAt: new Date().toISOString(),
+                replyToId: pending.thread.comment.id,
+              },
+            ],
+          });
+        }
+      }
+      replies.push(result);
+    } catch (error) {
+      skipped.push({ discussionUrl, reason: `failed: ${describeError(error)}` });
+    }
+  }
+
+  return { discussionsChecked: discussions.length, replies, skipped, blocked };
+}
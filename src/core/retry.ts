@@ -0,0 +1,414 @@
+/**
+ * Retry, backoff and timeout layer for AI provider and GitHub calls.
+ *
+ * A single 429, 5xx or network blip shouldn't fail a whole run. Every
+ * outbound call goes through withRetry(), which:
+ *   - aborts an attempt that runs past the per-call timeout
+ *   - retries transient failures (429, 408, 5xx, connection errors,
+ *     timeouts, GitHub secondary rate limits)
+ *   - waits for the server-requested time (Retry-After, or GitHub's
+ *     x-ratelimit-reset) when there is one, otherwise backs off
+ *     exponentially with jitter
+ *   - logs every retry
+ *
+ * GraphQL mutations (creating discussions, posting comments) are only
+ * retried when the request was rejected outright by a rate limit — a
+ * timeout or 502 might mean it went through, and retrying would post twice.
+ *
+ * The policy comes from `limits` in the config and is set once per run
+ * with setRetryPolicy(), so the publisher and providers don't need it
+ * threaded through every call.
+ */
+
+import type { LimitsConfig } from "../config/types.js";
+import type { AIProvider, Moderator } from "../providers/base.js";
+
+/** How calls are retried */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  retries: number;
+  /** Base backoff delay in milliseconds; doubles with each retry */
+  retryDelay: number;
+  /** Longest wait between attempts; a server asking for longer fails instead */
+  maxRetryDelay: number;
+  /** Per-attempt timeout in milliseconds */
+  timeout: number;
+  /** Where retry notices go */
+  log: (message: string) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  retryDelay: 1000,
+  maxRetryDelay: 60_000,
+  timeout: 120_000,
+  log: (message) => console.warn(message),
+};
+
+/** GitHub asks clients to wait at least a minute after a secondary rate limit */
+const SECONDARY_RATE_LIMIT_WAIT = 60_000;
+
+/** Node/undici error codes for connection-level failures worth retrying */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+/**
+ * An HTTP error response, for clients that don't have their own error type
+ * (the fetch-based providers). Carries what the retry layer needs.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, status: number, headers: Headers | Record<string, string> = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.headers =
+      headers instanceof Headers ? Object.fromEntries(headers.entries()) : headers;
+  }
+}
+
+/** How much of an error response body goes into the error message */
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Build an HttpError from a failed fetch response, with the start of its
+ * body in the message — that's where APIs say "quota exceeded" or why a
+ * request was rejected, which isQuotaError() and the logs need to see.
+ *
+ * @param label - What failed (e.g., "Gemini request").
+ */
+export async function responseError(label: string, response: Response): Promise<HttpError> {
+  let body = "";
+  try {
+    body = (await response.text()).replace(/\s+/g, " ").trim();
+  } catch {
+    // The status alone still says what happened
+  }
+  if (body.length > MAX_ERROR_BODY_LENGTH) {
+    body = body.slice(0, MAX_ERROR_BODY_LENGTH) + "…";
+  }
+  return new HttpError(
+    `${label} failed: ${response.status} ${response.statusText}${body ? ` — ${body}` : ""}`,
+    response.status,
+    response.headers,
+  );
+}
+
+/** An attempt that ran past the per-call timeout */
+export class TimeoutError extends Error {
+  constructor(label: string, timeout: number) {
+    super(`${label} timed out after ${timeout}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+let currentPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+/**
+ * Set the policy used by withRetry() calls that don't pass their own.
+ * Unset (or undefined) fields keep their defaults.
+ */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  const defined = Object.entries(policy).filter(([, value]) => value !== undefined);
+  currentPolicy = { ...DEFAULT_RETRY_POLICY, ...Object.fromEntries(defined) };
+}
+
+/** The policy withRetry() currently uses by default */
+export function getRetryPolicy(): RetryPolicy {
+  return currentPolicy;
+}
+
+/** Build a retry policy from the config's `limits` section */
+export function retryPolicyFromLimits(limits: LimitsConfig): Partial<RetryPolicy> {
+  return {
+    retries: limits.retries,
+    retryDelay: limits.retryDelay,
+    maxRetryDelay: limits.maxRetryDelay,
+    timeout: limits.timeout,
+  };
+}
+
+/** HTTP status of an SDK, Octokit or HttpError error, if it has one */
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/** Lower-cased response header lookup across SDK / Octokit / fetch error shapes */
+function errorHeader(error: unknown, name: string): string | undefined {
+  const e = error as {
+    headers?: unknown;
+    response?: { headers?: unknown };
+  } | null;
+  for (const headers of [e?.headers, e?.response?.headers]) {
+    if (!headers) continue;
+    if (headers instanceof Headers) {
+      const value = headers.get(name);
+      if (value !== null) return value;
+      continue;
+    }
+    for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+      if (key.toLowerCase() === name && value != null) return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether an error means the account is out of quota or credit — retrying
+ * the same backend won't help, but another one might.
+ */
+export function isQuotaError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === 402) return true;
+  const e = error as { code?: unknown; type?: unknown; error?: { code?: unknown; type?: unknown } } | null;
+  if ([e?.code, e?.type, e?.error?.code, e?.error?.type].includes("insufficient_quota")) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : "";
+  return (
+    (status === 400 || status === 403 || status === 429) &&
+    /quota|billing|credit balance/i.test(message)
+  );
+}
+
+/** Whether an error is a rate-limit rejection (the request wasn't processed) */
+export function isRateLimitError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === 429) return true;
+
+  // GraphQL rate limits come back as 200 responses with typed errors
+  const graphqlErrors = (error as { errors?: unknown } | null)?.errors;
+  if (
+    Array.isArray(graphqlErrors) &&
+    graphqlErrors.some((e) => (e as { type?: unknown })?.type === "RATE_LIMITED")
+  ) {
+    return true;
+  }
+
+  // GitHub signals primary and secondary rate limits with 403
+  if (status === 403) {
+    const message = error instanceof Error ? error.message : "";
+    return (
+      /rate limit/i.test(message) ||
+      errorHeader(error, "retry-after") !== undefined ||
+      errorHeader(error, "x-ratelimit-remaining") === "0"
+    );
+  }
+  return false;
+}
+
+/** Node error code of an error or its cause (fetch wraps them in a TypeError) */
+function errorCode(error: unknown): string | undefined {
+  const e = error as { code?: unknown; cause?: { code?: unknown } } | null;
+  const code = e?.code ?? e?.cause?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/** Whether an error is a connection failure or timeout (no response at all) */
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  // The OpenAI and Anthropic SDKs wrap these in their own error types
+  const name = (error as { name?: unknown } | null)?.name;
+  if (name === "APIConnectionError" || name === "APIConnectionTimeoutError") {
+    return true;
+  }
+  const code = errorCode(error);
+  return code !== undefined && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Whether a failed call is worth retrying.
+ *
+ * @param idempotent - False for calls that may have taken effect even
+ *                     though they failed (mutations); those only retry
+ *                     rate-limit rejections and refused connections.
+ */
+export function isRetryable(error: unknown, idempotent = true): boolean {
+  // An exhausted quota won't refill in the next minute, even if it's a 429
+  if (isQuotaError(error)) return false;
+  if (isRateLimitError(error)) return true;
+  // A refused connection never reached the server, so even a mutation is safe
+  if (!idempotent) return errorCode(error) === "ECONNREFUSED";
+  if (isNetworkError(error)) return true;
+  const status = errorStatus(error);
+  return status === 408 || (status !== undefined && status >= 500);
+}
+
+/**
+ * How long the server asked us to wait, in milliseconds, if it did.
+ * Reads Retry-After (seconds or HTTP date), then GitHub's
+ * x-ratelimit-reset when the rate limit is exhausted.
+ */
+function requestedDelay(error: unknown, now: number): number | undefined {
+  const retryAfter = errorHeader(error, "retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  if (errorHeader(error, "x-ratelimit-remaining") === "0") {
+    const reset = Number(errorHeader(error, "x-ratelimit-reset"));
+    if (!Number.isNaN(reset)) return Math.max(0, reset * 1000 - now);
+  }
+  return undefined;
+}
+
+/**
+ * Compute the wait before the next attempt.
+ *
+ * @param attempt - The retry about to happen (1 for the first retry).
+ * @returns Milliseconds to wait, or null if the server wants us to wait
+ *          longer than `maxRetryDelay` (e.g., a quota that resets in an hour).
+ */
+export function computeRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: Pick<RetryPolicy, "retryDelay" | "maxRetryDelay">,
+  now: number = Date.now(),
+): number | null {
+  const requested = requestedDelay(error, now);
+  if (requested !== undefined) {
+    return requested <= policy.maxRetryDelay ? requested : null;
+  }
+
+  // Exponential backoff with "equal jitter": at least half the step,
+  // so retries from parallel runs spread out without ever firing instantly
+  const step = Math.min(policy.maxRetryDelay, policy.retryDelay * 2 ** (attempt - 1));
+  const backoff = step / 2 + Math.random() * (step / 2);
+
+  // A secondary rate limit without Retry-After still needs a minute
+  if (errorStatus(error) === 403 && isRateLimitError(error)) {
+    const wait = Math.max(backoff, SECONDARY_RATE_LIMIT_WAIT);
+    return wait <= policy.maxRetryDelay ? wait : null;
+  }
+  return backoff;
+}
+
+/** Short description of an error for retry and fallback log lines */
+export function describeError(error: unknown): string {
+  const status = errorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  const firstLine = message.split("\n")[0];
+  return status !== undefined && !firstLine.includes(String(status))
+    ? `${status} ${firstLine}`
+    : firstLine;
+}
+
+/**
+ * Run one attempt with a timeout. The signal is handed to the call so it
+ * can cancel the underlying request; the race makes sure we stop waiting
+ * even if it ignores the signal.
+ */
+async function attemptWithTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  label: string,
+  timeout: number,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(label, timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Call `fn`, retrying transient failures with backoff.
+ *
+ * @param fn - The call; receives an AbortSignal that fires on timeout.
+ * @param options.label - Names the call in timeout errors and retry logs.
+ * @param options.idempotent - False for calls that mustn't be repeated if
+ *                             they might have succeeded (default: true).
+ * @param policy - Overrides the policy set with setRetryPolicy().
+ * @returns What `fn` returns.
+ * @throws The last error, once retries run out or it isn't retryable.
+ */
+export async function withRetry<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: { label: string; idempotent?: boolean },
+  policy: RetryPolicy = currentPolicy,
+): Promise<T> {
+  const idempotent = options.idempotent ?? true;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptWithTimeout(fn, options.label, policy.timeout);
+    } catch (error) {
+      if (attempt > policy.retries || !isRetryable(error, idempotent)) {
+        throw error;
+      }
+      const delay = computeRetryDelay(error, attempt, policy);
+      if (delay === null) {
+        throw error;
+      }
+
+      policy.log(
+        `${options.label} failed (${describeError(error)}); ` +
+          `retrying in ${(delay / 1000).toFixed(1)}s (retry ${attempt}/${policy.retries})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Wrap a provider so every generateComment() call goes through withRetry().
+ * The wrapper keeps the provider's name and model.
+ */
+export function retryProvider(provider: AIProvider): AIProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generateComment: (context, persona, options) =>
+      withRetry(
+        (signal) =>
+          provider.generateComment(context, persona, {
+            ...options,
+            signal: options?.signal ? AbortSignal.any([options.signal, signal]) : signal,
+          }),
+        { label: `${provider.name} generateComment` },
+      ),
+  };
+}
+
+/**
+ * Wrap a moderator so every moderate() call goes through withRetry().
+ * The wrapper keeps the moderator's name.
+ */
+export function retryModerator(moderator: Moderator): Moderator {
+  return {
+    name: moderator.name,
+    moderate: (text, options) =>
+      withRetry(
+        (signal) =>
+          moderator.moderate(text, {
+            signal: options?.signal ? AbortSignal.any([options.signal, signal]) : signal,
+          }),
+        { label: `${moderator.name} moderate` },
+      ),
+  };
+}
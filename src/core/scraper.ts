@@ -15,6 +15,10 @@ import { Readability } from "@mozilla/readability";
 import { parseHTML } from "linkedom";
 import TurndownService from "turndown";
 import type { PostContext } from "../providers/base.js";
+import { parseFrontMatter, toPostMetadata } from "./frontmatter.js";
+import type { PostMetadata } from "./frontmatter.js";
+import { buildPostUrl } from "./permalink.js";
+import type { SiteConfig } from "../config/types.js";
 
 // Reusable Turndown instance for HTML→markdown conversion.
 // Turndown produces cleaner markdown than raw HTML for LLM input,
@@ -58,6 +62,24 @@ export async function extractPost(url: string): Promise<PostContext> {
   // linkedom gives us a lightweight Document object that Readability can work with.
   const { document } = parseHTML(html);
 
+  // Read the page metadata before we start stripping elements — og:title
+  // for "og:title" mapping, and the rest as context for the LLM
+  const ogTitle = getMetaContent(document, "og:title");
+  const description =
+    getMetaContent(document, "og:description") ??
+    getMetaContent(document, "description");
+  const canonicalUrl =
+    document.querySelector('link[rel="canonical"]')?.getAttribute("href")?.trim() ||
+    undefined;
+  const publishedTime = new Date(
+    getMetaContent(document, "article:published_time") ?? "",
+  );
+  const tags = [...document.querySelectorAll('meta[property="article:tag"]')]
+    .map((el) => el.getAttribute("content")?.trim())
+    .filter((tag): tag is string => !!tag);
+  const language =
+    document.documentElement?.getAttribute("lang")?.trim() || undefined;
+
   // Step 3: Pre-clean elements that confuse Readability.
   // These elements add noise to the extracted content and aren't part of the article.
   const selectorsToRemove = [
@@ -105,30 +127,58 @@ export async function extractPost(url: string): Promise<PostContext> {
     title: article.title || "Untitled",
     content: markdown,
     excerpt,
+    ogTitle,
+    description,
+    date: Number.isNaN(publishedTime.getTime()) ? undefined : publishedTime,
+    tags: tags.length > 0 ? tags : undefined,
+    author: getMetaContent(document, "author"),
+    canonicalUrl,
+    language,
   };
 }
 
 /**
- * Parse YAML front matter from a markdown file's raw content.
- *
- * Front matter is the YAML block between --- delimiters at the top of
- * markdown files. We extract `title` from it. This is a lightweight
- * parser — we only need the title, so we avoid pulling in a full YAML lib.
+ * Read a <meta> tag's content by `property` (Open Graph) or `name`.
+ * Returns undefined when the tag is missing or empty.
  */
-function parseFrontMatter(raw: string): { title: string; body: string } {
-  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
-  if (!match) {
-    return { title: "Untitled", body: raw };
-  }
+function getMetaContent(document: Document, key: string): string | undefined {
+  const el = document.querySelector(
+    `meta[property="${key}"], meta[name="${key}"]`,
+  );
+  const content = el?.getAttribute("content")?.trim();
+  return content || undefined;
+}
 
-  const [, frontMatter, body] = match;
+/**
+ * Read and parse a local markdown file's front matter.
+ */
+function readPostFile(filePath: string): { metadata: PostMetadata; body: string } {
+  const { data, body } = parseFrontMatter(readFileSync(filePath, "utf-8"));
+  return { metadata: toPostMetadata(data), body };
+}
 
-  // Extract title from the YAML front matter.
-  // Handles both quoted ("My Title") and unquoted (My Title) values.
-  const titleMatch = frontMatter.match(/^title:\s*["']?(.+?)["']?\s*$/m);
-  const title = titleMatch?.[1] ?? "Untitled";
+/**
+ * Read the publication date from a markdown file's front matter.
+ * Used to order posts newest-first.
+ *
+ * @returns The parsed date, or null if there's no valid date field.
+ */
+export function readPostDate(filePath: string): Date | null {
+  return readPostFile(filePath).metadata.date ?? null;
+}
 
-  return { title, body };
+/**
+ * Check whether a markdown file's front matter marks it as publishable.
+ *
+ * Posts are skipped when marked `draft: true` or `published: false`, or
+ * when their `date` is in the future (scheduled posts that aren't live yet).
+ */
+export function isPublished(filePath: string, now: Date = new Date()): boolean {
+  const { metadata } = readPostFile(filePath);
+  if (metadata.draft === true || metadata.published === false) {
+    return false;
+  }
+  return !metadata.date || metadata.date <= now;
 }
 
 /**
@@ -136,14 +186,16 @@ function parseFrontMatter(raw: string): { title: string; body: string } {
  *
  * Used by the GitHub Action's push-trigger mode: when a new post is pushed,
  * we read the file from the checkout instead of scraping a live URL.
- * This avoids needing to know the blog's URL structure entirely.
+ * With `site.baseUrl` configured, the post's public URL is derived from the
+ * permalink template; otherwise the file path stands in for it.
  *
  * @param filePath - Path to the markdown file (relative or absolute).
- * @returns A PostContext built from the file's front matter and body.
+ * @param site - The `site` config section, if any.
+ * @returns A PostContext built from the file's front matter (YAML, TOML or
+ *          JSON) and body.
  */
-export function extractPostFromFile(filePath: string): PostContext {
-  const raw = readFileSync(filePath, "utf-8");
-  const { title, body } = parseFrontMatter(raw);
+export function extractPostFromFile(filePath: string, site?: SiteConfig): PostContext {
+  const { metadata, body } = readPostFile(filePath);
 
   // Truncate if content is too long (same as URL scraping path)
   let content = body.trim();
@@ -154,9 +206,18 @@ export function extractPostFromFile(filePath: string): PostContext {
   const excerpt = content.slice(0, EXCERPT_LENGTH);
 
   return {
-    url: filePath, // no live URL available; use the file path as identifier
-    title,
+    // Without a site config there's no live URL; use the file path as identifier
+    url: buildPostUrl(filePath, metadata, site) ?? filePath,
+    title: metadata.title ?? "Untitled",
     content,
     excerpt,
+    description: metadata.description,
+    date: metadata.date,
+    tags: metadata.tags,
+    categories: metadata.categories,
+    author: metadata.author,
+    canonicalUrl: metadata.canonicalUrl,
+    slug: metadata.slug,
+    language: metadata.language,
   };
 }
@@ -0,0 +1,223 @@
+/**
+ * Post selection strategies for the automatic Action trigger.
+ *
+ * Given every markdown post found in the checkout, picks which ones to
+ * comment on this run. The strategy comes from `limits.selection`:
+ *
+ *   - random: uniformly random
+ *   - newest-first: front-matter `date`, falling back to the last git commit time
+ *   - least-commented: fewest comments on the post's discussion first
+ *   - never-commented: posts the state has no comments for; none once every
+ *     post has been commented on
+ *   - changed-in-this-push: only posts touched by the triggering push event
+ */
+
+import { execFileSync } from "node:child_process";
+import { normalize } from "node:path";
+import type { GiscusBotConfig, SelectionStrategy } from "../config/types.js";
+import { extractPostFromFile, readPostDate } from "./scraper.js";
+import { readPushedFiles } from "./push.js";
+import {
+  getDiscussionCommentCounts,
+  getRepoInfo,
+  listCategoryDiscussions,
+} from "./publisher.js";
+import type { DiscussionSummary } from "./publisher.js";
+import { resolveDiscussionTarget } from "./mapping.js";
+import type { DiscussionTarget } from "./mapping.js";
+import { recordPost } from "./state.js";
+import type { BotState } from "./state.js";
+
+/** Inputs some strategies need besides the list of files */
+export interface SelectionContext {
+  /** Persistent state (used by never-commented and least-commented) */
+  state: BotState;
+  /** Path to the GitHub event payload (used by changed-in-this-push) */
+  eventPath?: string;
+  /**
+   * The config (used by least-commented to look up the discussions of posts
+   * the state doesn't know, which it records in the state); without it,
+   * those posts count as 0 comments
+   */
+  config?: GiscusBotConfig;
+}
+
+/**
+ * Fisher-Yates shuffle (in-place).
+ */
+export function shuffle<T>(arr: T[], random: () => number = Math.random): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+/**
+ * Get the time of the last git commit that touched a file.
+ * Returns null outside a git checkout or for untracked files.
+ */
+function gitCommitDate(file: string): Date | null {
+  try {
+    const output = execFileSync("git", ["log", "-1", "--format=%cI", "--", file], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+    return output ? new Date(output) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Order posts by date, newest first; undated posts go last */
+function newestFirst(files: string[]): string[] {
+  const dates = new Map(
+    files.map((file) => [file, (readPostDate(file) ?? gitCommitDate(file))?.getTime() ?? 0]),
+  );
+  return [...files].sort((a, b) => dates.get(b)! - dates.get(a)!);
+}
+
+/** Whether a discussion is the one a post maps to, by the lookup generate() uses */
+function isTargetDiscussion(discussion: DiscussionSummary, target: DiscussionTarget): boolean {
+  if (target.number !== undefined) return discussion.number === target.number;
+  if (target.strict) return discussion.body.includes(`sha1: ${target.hash}`);
+  return discussion.title === target.term;
+}
+
+/**
+ * Look up the discussions of posts the state doesn't know, and remember
+ * them in the state. The category's discussions are listed once and
+ * matched locally, so a large archive doesn't cost a search per post.
+ */
+async function findDiscussions(
+  files: string[],
+  state: BotState,
+  config: GiscusBotConfig,
+): Promise<void> {
+  const [owner, repo] = config.github.repo.split("/");
+  if (!owner || !repo) return;
+  const { categoryId } = await getRepoInfo(owner, repo, config.github.discussionCategory);
+  const discussions = await listCategoryDiscussions(owner, repo, categoryId);
+
+  for (const file of files) {
+    const post = extractPostFromFile(file, config.site);
+    const target = resolveDiscussionTarget(post, config.github);
+    const discussion = discussions.find((d) => isTargetDiscussion(d, target));
+    if (discussion) {
+      recordPost(state, file, {
+        title: post.title,
+        url: post.url,
+        discussionId: discussion.id,
+        discussionUrl: discussion.url,
+        comments: [],
+      });
+    }
+  }
+}
+
+/**
+ * Order posts by how many comments their discussion has, fewest first.
+ * Discussions come from the state; with the config, the ones it lacks are
+ * looked up first. Posts without a discussion count as 0 comments.
+ */
+async function leastCommented(
+  files: string[],
+  state: BotState,
+  config?: GiscusBotConfig,
+): Promise<string[]> {
+  const unknown = files.filter((file) => !state.posts[file]?.discussionId);
+  if (config && unknown.length > 0) {
+    await findDiscussions(unknown, state, config);
+  }
+
+  const discussionIds = files
+    .map((file) => state.posts[file]?.discussionId)
+    .filter((id): id is string => !!id);
+  const counts = await getDiscussionCommentCounts(discussionIds);
+
+  const commentCount = (file: string): number => {
+    const id = state.posts[file]?.discussionId;
+    return id ? counts.get(id) ?? 0 : 0;
+  };
+
+  // Shuffle first so the stable sort breaks ties randomly
+  return shuffle([...files]).sort((a, b) => commentCount(a) - commentCount(b));
+}
+
+/**
+ * Posts without recorded comments (in random order). Once every post has
+ * been commented on there are none; use least-commented or random to keep
+ * rotating through the archive.
+ */
+function neverCommented(files: string[], state: BotState): string[] {
+  return shuffle(files.filter((file) => !state.posts[file]?.comments.length));
+}
+
+/**
+ * Explain why a selection came back empty, so a run that has nothing to
+ * do can be told apart from one that's misconfigured.
+ *
+ * @param candidates - How many posts the strategy chose from.
+ */
+export function describeEmptySelection(
+  strategy: SelectionStrategy,
+  count: number,
+  candidates: number,
+): string {
+  if (count <= 0) {
+    return `limits.postsPerRun is ${count}, so no post is ever picked.`;
+  }
+  switch (strategy) {
+    case "never-commented":
+      return (
+        `Every one of the ${candidates} post(s) already has comments, so never-commented ` +
+        "picks none. Set limits.selection to least-commented or random to keep commenting on older posts."
+      );
+    case "changed-in-this-push":
+      return "The triggering event changed no blog posts (changed-in-this-push only runs on push).";
+    default:
+      return `The ${strategy} strategy picked no posts.`;
+  }
+}
+
+/**
+ * Pick the posts to comment on this run.
+ *
+ * @param files - All candidate markdown files (repo-relative paths).
+ * @param strategy - The selection strategy from `limits.selection`.
+ * @param count - How many posts to pick (`limits.postsPerRun`).
+ * @param context - State and event payload some strategies need.
+ * @returns Up to `count` files, in the order they should be processed.
+ */
+export async function selectPosts(
+  files: string[],
+  strategy: SelectionStrategy,
+  count: number,
+  context: SelectionContext,
+): Promise<string[]> {
+  let ordered: string[];
+
+  switch (strategy) {
+    case "random":
+      ordered = shuffle([...files]);
+      break;
+    case "newest-first":
+      ordered = newestFirst(files);
+      break;
+    case "least-commented":
+      ordered = await leastCommented(files, context.state, context.config);
+      break;
+    case "never-commented":
+      ordered = neverCommented(files, context.state);
+      break;
+    case "changed-in-this-push": {
+      const pushed = new Set(readPushedFiles(context.eventPath));
+      ordered = files.filter((file) => pushed.has(normalize(file)));
+      break;
+    }
+    default:
+      throw new Error(`Unknown post selection strategy: ${strategy}`);
+  }
+
+  return ordered.slice(0, count);
+}
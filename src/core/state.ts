@@ -0,0 +1,189 @@
+/**
+ * Persistent state store.
+ *
+ * Remembers which posts the bot has processed and what it posted, across
+ * runs. The state is a plain JSON file — commit it to the blog repo or
+ * cache it between Action runs — keyed by post (file path or URL):
+ *
+ *   {
+ *     "version": 1,
+ *     "posts": {
+ *       "_posts/2024-01-01-foo.md": {
+ *         "title": "Foo",
+ *         "discussionId": "D_kwDO...",
+ *         "comments": [{ "id": "DC_kwDO...", "personaName": "Curious Reader", ... }],
+ *         ...
+ *       }
+ *     }
+ *   }
+ *
+ * Post selection uses it to prefer posts that haven't been commented on,
+ * and the generator uses it to skip personas that already posted.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+/** Default state file location, relative to the project root */
+export const DEFAULT_STATE_PATH = "giscus-bot.state.json";
+
+/** Current state file format version */
+const STATE_VERSION = 1;
+
+/** A single comment the bot posted */
+export interface CommentRecord {
+  /** Discussion comment node ID */
+  id: string;
+  personaName: string;
+  /** Provider that generated the comment (e.g., "openai") */
+  provider: string;
+  /** Model that generated the comment (e.g., "gpt-4o") */
+  model: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** The comment this one replies to (conversation mode) */
+  replyToId?: string;
+}
+
+/** Everything the bot remembers about one post */
+export interface PostState {
+  title: string;
+  url: string;
+  discussionId: string | null;
+  discussionUrl: string | null;
+  comments: CommentRecord[];
+  /** ISO 8601 timestamp of the first run that processed this post */
+  firstProcessedAt: string;
+  /** ISO 8601 timestamp of the latest run that processed this post */
+  lastProcessedAt: string;
+}
+
+/** The full state file shape */
+export interface BotState {
+  version: number;
+  /** Keyed by post identifier (file path for local posts, URL otherwise) */
+  posts: Record<string, PostState>;
+}
+
+/** Create an empty state */
+export function emptyState(): BotState {
+  return { version: STATE_VERSION, posts: {} };
+}
+
+/**
+ * Load the state file, or return an empty state if it doesn't exist yet.
+ *
+ * @throws If the file exists but isn't valid state JSON.
+ */
+export function loadState(path: string = DEFAULT_STATE_PATH): BotState {
+  if (!existsSync(path)) {
+    return emptyState();
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<BotState>;
+  if (typeof parsed !== "object" || parsed === null || typeof parsed.posts !== "object") {
+    throw new Error(`Invalid state file ${path}: missing "posts" object.`);
+  }
+  if (parsed.version !== STATE_VERSION) {
+    throw new Error(
+      `Unsupported state file version ${parsed.version} in ${path} (expected ${STATE_VERSION}).`,
+    );
+  }
+
+  return parsed as BotState;
+}
+
+/**
+ * Write the state file (pretty-printed, so diffs stay readable when
+ * the file is committed to the repo).
+ */
+export function saveState(state: BotState, path: string = DEFAULT_STATE_PATH): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Get the names of personas the state says already commented on a post.
+ */
+export function getCommentedPersonas(state: BotState, postKey: string): Set<string> {
+  const post = state.posts[postKey];
+  return new Set(post?.comments.map((c) => c.personaName) ?? []);
+}
+
+/**
+ * Get the name of the persona whose top-level comment the state recorded
+ * last, across all posts (used by round-robin persona selection). Replies
+ * don't count, so answering a reader doesn't shift the rotation.
+ */
+export function getLastCommentedPersona(state: BotState): string | null {
+  let last: CommentRecord | null = null;
+  for (const post of Object.values(state.posts)) {
+    for (const comment of post.comments) {
+      if (comment.replyToId !== undefined) continue;
+      if (!last || comment.createdAt >= last.createdAt) last = comment;
+    }
+  }
+  return last?.personaName ?? null;
+}
+
+/**
+ * Record a processed post and the comments posted for it.
+ * Mutates `state` in place; call saveState() to persist it.
+ */
+export function recordPost(
+  state: BotState,
+  postKey: string,
+  entry: {
+    title: string;
+    url: string;
+    discussionId: string | null;
+    discussionUrl: string | null;
+    comments: CommentRecord[];
+  },
+  now: Date = new Date(),
+): void {
+  const timestamp = now.toISOString();
+  const existing = state.posts[postKey];
+
+  state.posts[postKey] = {
+    title: entry.title,
+    url: entry.url,
+    discussionId: entry.discussionId ?? existing?.discussionId ?? null,
+    discussionUrl: entry.discussionUrl ?? existing?.discussionUrl ?? null,
+    comments: [...(existing?.comments ?? []), ...entry.comments],
+    firstProcessedAt: existing?.firstProcessedAt ?? timestamp,
+    lastProcessedAt: timestamp,
+  };
+}
+
+/**
+ * Remove posts from the state.
+ *
+ * @param options.olderThan - Remove posts last processed before this date.
+ * @param options.keep - Remove posts for which this returns false
+ *                       (e.g., files that no longer exist).
+ * @returns The keys of the removed posts.
+ */
+export function pruneState(
+  state: BotState,
+  options: { olderThan?: Date; keep?: (postKey: string) => boolean },
+): string[] {
+  const removed: string[] = [];
+
+  for (const [key, post] of Object.entries(state.posts)) {
+    const tooOld =
+      options.olderThan !== undefined &&
+      new Date(post.lastProcessedAt) < options.olderThan;
+    const unwanted = options.keep !== undefined && !options.keep(key);
+
+    if (tooOld || unwanted) {
+      delete state.posts[key];
+      removed.push(key);
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,228 @@
+/**
+ * A small template language for user-defined prompts.
+ *
+ * Deliberately minimal — placeholders, conditionals and loops, no escaping
+ * (prompts aren't HTML):
+ *
+ *   {{post.title}}                          value (lists are joined with ", ")
+ *   {{#if persona.language}}...{{else}}...{{/if}}
+ *   {{#unless persona.examples}}...{{/unless}}
+ *   {{#each post.tags}}#{{this}}{{#unless @last}} {{/unless}}{{/each}}
+ *
+ * A value is falsy when it's unset, false, 0, "" or an empty list; a
+ * placeholder naming a key the data doesn't have is an error.
+ * Inside `each`, `this` is the current item and `@index`, `@first` and
+ * `@last` describe its position. A block tag alone on its line takes the
+ * whole line with it, so templates can put tags on their own lines
+ * without leaving blank lines behind.
+ */
+
+import { readFileSync } from "node:fs";
+import type { PromptsConfig } from "../config/types.js";
+
+/** A parsed template node */
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "value"; path: string }
+  | { kind: "if" | "unless"; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { kind: "each"; path: string; body: TemplateNode[] };
+
+/** A parsed template, ready to render */
+export interface Template {
+  /** Where the template came from, for error messages */
+  source: string;
+  nodes: TemplateNode[];
+}
+
+/** Matches a block tag that sits alone on its line, with the line break */
+const STANDALONE_TAG = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else\s*)\}\})[ \t]*(?:\r?\n|$)/gm;
+const TAG = /\{\{\s*([^}]*?)\s*\}\}/g;
+const PATH = /^(@index|@first|@last|this|[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+
+/**
+ * Parse a template, checking that blocks are balanced and tags well formed.
+ *
+ * @param text - The template text.
+ * @param source - Where it came from (e.g., a file path), for errors.
+ * @throws If the template has a syntax error.
+ */
+export function parseTemplate(text: string, source = "template"): Template {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid template ${source}: ${message}`);
+  };
+
+  // Each open block: its node, which branch we're filling, and its tag
+  const root: TemplateNode[] = [];
+  const stack: { node: TemplateNode | null; target: TemplateNode[]; tag: string }[] = [
+    { node: null, target: root, tag: "" },
+  ];
+  const current = (): TemplateNode[] => stack[stack.length - 1].target;
+  const checkPath = (path: string, tag: string): string =>
+    PATH.test(path) ? path : fail(`"{{${tag}}}" needs a value like "post.title"`);
+
+  const normalized = text.replace(STANDALONE_TAG, "$1");
+  let last = 0;
+  for (const match of normalized.matchAll(TAG)) {
+    if (match.index > last) {
+      current().push({ kind: "text", text: normalized.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const tag = match[1];
+    const block = /^#(if|unless|each)\s+(\S+)$/.exec(tag);
+    if (block) {
+      const path = checkPath(block[2], tag);
+      const node: TemplateNode =
+        block[1] === "each"
+          ? { kind: "each", path, body: [] }
+          : { kind: block[1] as "if" | "unless", path, then: [], else: [] };
+      current().push(node);
+      stack.push({ node, target: node.kind === "each" ? node.body : node.then, tag: block[1] });
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (open.node?.kind !== "if" && open.node?.kind !== "unless") {
+        fail(`"{{else}}" outside of an if or unless block`);
+      }
+      const node = open.node as Extract<TemplateNode, { kind: "if" | "unless" }>;
+      if (open.target === node.else) fail(`more than one "{{else}}" in a block`);
+      open.target = node.else;
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const open = stack[stack.length - 1];
+      if (stack.length === 1) fail(`"{{${tag}}}" closes a block that was never opened`);
+      if (name !== open.tag) fail(`"{{${tag}}}" closes a "{{#${open.tag}}}" block`);
+      stack.pop();
+    } else if (tag.startsWith("#")) {
+      fail(`unknown block "{{${tag}}}" (expected #if, #unless or #each)`);
+    } else {
+      current().push({ kind: "value", path: checkPath(tag, tag) });
+    }
+  }
+  if (last < normalized.length) {
+    current().push({ kind: "text", text: normalized.slice(last) });
+  }
+  if (stack.length > 1) {
+    fail(`"{{#${stack[stack.length - 1].tag}}}" is never closed`);
+  }
+
+  return { source, nodes: root };
+}
+
+/**
+ * Read and parse a template file.
+ *
+ * @throws If the file can't be read or the template has a syntax error.
+ */
+export function loadTemplate(path: string): Template {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (error) {
+    throw new Error(
+      `Could not read template ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return parseTemplate(text, path);
+}
+
+/**
+ * Load the prompt template files named in the config's `prompts` section.
+ * Pass the result to setPromptTemplates() in providers/base.ts.
+ *
+ * @throws If a file can't be read or has a syntax error.
+ */
+export function loadPromptTemplates(prompts: PromptsConfig | undefined): {
+  system?: Template;
+  user?: Template;
+} {
+  return {
+    system: prompts?.system ? loadTemplate(prompts.system) : undefined,
+    user: prompts?.user ? loadTemplate(prompts.user) : undefined,
+  };
+}
+
+/** Scopes for placeholder lookup, innermost last */
+type Scope = Record<string, unknown>;
+
+/** Whether a value counts as true in #if / #unless */
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Look up a dotted path, innermost scope first.
+ * Every key must exist (even if its value is undefined), so typos fail
+ * loudly instead of rendering as empty text.
+ *
+ * @throws If a key along the path doesn't exist.
+ */
+function lookup(path: string, scopes: Scope[], source: string): unknown {
+  const [head, ...rest] = path.split(".");
+  const scope = [...scopes].reverse().find((s) => Object.hasOwn(s, head));
+  if (!scope) {
+    throw new Error(`Template ${source}: unknown placeholder "{{${path}}}"`);
+  }
+  let value = scope[head];
+  for (const key of rest) {
+    if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) {
+      throw new Error(`Template ${source}: unknown placeholder "{{${path}}}"`);
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Turn a value into template output */
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], source: string): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "value":
+        out += stringify(lookup(node.path, scopes, source));
+        break;
+      case "if":
+      case "unless": {
+        const test = truthy(lookup(node.path, scopes, source));
+        const branch = test === (node.kind === "if") ? node.then : node.else;
+        out += renderNodes(branch, scopes, source);
+        break;
+      }
+      case "each": {
+        const value = lookup(node.path, scopes, source);
+        const items = Array.isArray(value) ? value : truthy(value) ? [value] : [];
+        items.forEach((item, index) => {
+          const scope: Scope = {
+            this: item,
+            "@index": index,
+            "@first": index === 0,
+            "@last": index === items.length - 1,
+          };
+          out += renderNodes(node.body, [...scopes, scope], source);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template with the given data.
+ *
+ * @param template - A parsed template.
+ * @param data - Top-level values the placeholders refer to.
+ * @returns The rendered text.
+ * @throws If the template uses a placeholder `data` doesn't have.
+ */
+export function renderTemplate(template: Template, data: Record<string, unknown>): string {
+  return renderNodes(template.nodes, [data], template.source);
+}
@@ -0,0 +1,49 @@
+/**
+ * Azure OpenAI provider implementation.
+ *
+ * Azure serves OpenAI models from per-resource endpoints, addresses them by
+ * deployment name rather than model ID, and requires an `api-version` query
+ * parameter. The SDK's AzureOpenAI client handles all three; request shape
+ * and response handling are inherited from OpenAIProvider.
+ */
+
+import { AzureOpenAI } from "openai";
+import type { ProviderOptions } from "./base.js";
+import { OpenAIProvider } from "./openai.js";
+
+/** Azure OpenAI API version used when the config doesn't set one */
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  readonly name = "azure-openai";
+
+  /**
+   * @param deployment - The Azure deployment name (configured as `provider.model`).
+   * @param options - Must include `baseUrl`, the resource endpoint
+   *                  (e.g., "https://my-resource.openai.azure.com").
+   *                  API key falls back to GISCUS_BOT_AZURE_OPENAI_API_KEY;
+   *                  `apiVersion` defaults to DEFAULT_AZURE_API_VERSION.
+   * @throws If no endpoint is given.
+   */
+  constructor(deployment: string, options: ProviderOptions = {}) {
+    if (!options.baseUrl) {
+      throw new Error(
+        'The "azure-openai" provider requires provider.baseUrl (e.g., "https://my-resource.openai.azure.com")',
+      );
+    }
+
+    super(
+      deployment,
+      options,
+      new AzureOpenAI({
+        apiKey: options.apiKey ?? process.env.GISCUS_BOT_AZURE_OPENAI_API_KEY,
+        endpoint: options.baseUrl,
+        apiVersion: options.apiVersion ?? DEFAULT_AZURE_API_VERSION,
+        deployment,
+        timeout: options.timeout,
+        // Retries are handled by the shared retry layer (core/retry.ts)
+        maxRetries: 0,
+      }),
+    );
+  }
+}
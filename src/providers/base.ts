@@ -1,12 +1,16 @@
 /**
  * Base types and interface for the AI provider plugin system.
  *
- * All AI providers (OpenAI, Claude, Ollama) implement the AIProvider interface.
+ * All AI providers (OpenAI, Claude, Ollama, Gemini, ...) implement the AIProvider interface.
  * This abstraction lets the rest of the codebase stay provider-agnostic —
  * the generator just calls provider.generateComment() without caring which
  * LLM is behind it.
  */
 
+import type { LengthConfig } from "../config/types.js";
+import { parseTemplate, renderTemplate } from "../core/template.js";
+import type { Template } from "../core/template.js";
+
 /**
  * Context about a blog post, extracted by the scraper.
  * This is what the AI reads before generating a comment.
@@ -20,6 +24,44 @@ export interface PostContext {
   content: string;
   /** Short excerpt / summary (first ~200 chars, used for previews) */
   excerpt: string;
+  /** The page's og:title meta tag, if any (used by "og:title" mapping) */
+  ogTitle?: string;
+  /** Post summary from front matter or the page's meta description */
+  description?: string;
+  /** Publication date */
+  date?: Date;
+  /** Post tags (fed to the LLM as topic hints) */
+  tags?: string[];
+  /** Post categories */
+  categories?: string[];
+  /** Author name(s) */
+  author?: string;
+  /** Canonical URL of the post (e.g., the original of a cross-post) */
+  canonicalUrl?: string;
+  /** URL slug from front matter */
+  slug?: string;
+  /** Language code of the post (e.g., "en", "ko") */
+  language?: string;
+  /** Earlier comments when replying (set by the generator or responder, not the scraper) */
+  thread?: ThreadContext;
+}
+
+/** An earlier comment in the thread being replied to */
+export interface ThreadComment {
+  /** The persona that wrote it, or "@login" for a human reader */
+  author: string;
+  /** The comment text, without the AI label */
+  body: string;
+  /** Whether it's a reply (rather than a top-level comment) */
+  isReply: boolean;
+}
+
+/** What a persona sees of the conversation so far */
+export interface ThreadContext {
+  /** Earlier comments, oldest first */
+  comments: ThreadComment[];
+  /** The author whose comment this one replies to; unset for a top-level comment */
+  replyTo?: string;
 }
 
 /**
@@ -30,8 +72,108 @@ export interface Persona {
   name: string;
   description: string;
   tone: string;
+  /** Topics the persona knows well */
+  expertise?: string[];
+  /** Sample comments in the persona's voice (few-shot style examples) */
+  examples?: string[];
+  /** Phrases the persona must never use */
+  forbiddenPhrases?: string[];
+  /** Target comment length (default: 2–4 paragraphs) */
+  length?: LengthConfig;
+  /** Language to write in, as a name or code (e.g., "Korean", "ko") */
+  language?: string;
+  /** Whether to end with a question or invitation to discuss (default: true) */
+  endWithQuestion?: boolean;
+}
+
+/**
+ * Connection and sampling options shared by all providers.
+ * Unset fields fall back to each provider's defaults.
+ */
+export interface ProviderOptions {
+  /** API key; each provider falls back to its GISCUS_BOT_* env var */
+  apiKey?: string;
+  /** API endpoint override */
+  baseUrl?: string;
+  temperature?: number;
+  topP?: number;
+  /** Max tokens in the generated comment */
+  maxTokens?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Azure OpenAI API version */
+  apiVersion?: string;
+}
+
+/**
+ * Combine a provider's own request timeout with the caller's abort signal,
+ * for fetch-based providers.
+ */
+export function requestSignal(
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+): AbortSignal | undefined {
+  const signals = [
+    ...(timeout !== undefined ? [AbortSignal.timeout(timeout)] : []),
+    ...(signal ? [signal] : []),
+  ];
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+/** The backend and model that actually wrote a comment */
+export interface CommentSource {
+  provider: string;
+  model: string;
+}
+
+/** Tokens a request used, as the provider's API reports them */
+export interface TokenUsage {
+  /** Prompt tokens */
+  inputTokens: number;
+  /** Generated tokens */
+  outputTokens: number;
+}
+
+/** Per-call options for AIProvider.generateComment() */
+export interface GenerateOptions {
+  /** Cancels the in-flight request */
+  signal?: AbortSignal;
+  /**
+   * Called by composite providers (e.g., a fallback chain) with the
+   * backend that wrote the comment. Single providers needn't call it.
+   */
+  onSource?: (source: CommentSource) => void;
+  /**
+   * Called with the tokens the request used, by providers whose API
+   * reports them. Plugins may leave it uncalled.
+   */
+  onUsage?: (usage: TokenUsage) => void;
+  /**
+   * Prompts to send instead of the persona's comment prompts — e.g., the
+   * judge's review request or a revision request (see core/judge.ts).
+   * Providers get the right pair from buildPrompts().
+   */
+  prompt?: Prompts;
+}
+
+/** A system and user prompt pair */
+export interface Prompts {
+  system: string;
+  user: string;
 }
 
+/**
+ * Builds a provider from the configured model and options.
+ *
+ * This is also the plugin contract: a provider plugin module (an npm
+ * package or local file named in `provider.name`) must default-export a
+ * function of this type. It may be async, e.g. to fetch gateway settings.
+ */
+export type ProviderFactory = (
+  model: string,
+  options: ProviderOptions,
+) => AIProvider | Promise<AIProvider>;
+
 /**
  * The contract every AI provider must fulfill.
  * Implementing this interface is all that's needed to add a new LLM backend.
@@ -39,36 +181,278 @@ export interface Persona {
 export interface AIProvider {
   /** Human-readable provider name (e.g., "openai", "claude") */
   name: string;
+  /** The model this provider calls, if it has a single one */
+  model?: string;
 
   /**
    * Generate a single discussion-starter comment for a blog post.
    *
    * @param context - The scraped blog post content and metadata.
    * @param persona - The persona to adopt when writing the comment.
+   * @param options.signal - Aborts the request (fired by the retry layer's timeout).
+   * @param options.onSource - Reports which backend wrote the comment.
+   * @param options.onUsage - Reports the tokens the request used.
+   * @param options.prompt - Prompts to send instead (see buildPrompts()).
    * @returns The generated comment text (plain markdown, no label prefix).
    */
-  generateComment(context: PostContext, persona: Persona): Promise<string>;
+  generateComment(
+    context: PostContext,
+    persona: Persona,
+    options?: GenerateOptions,
+  ): Promise<string>;
+}
+
+/**
+ * A moderation classifier (`moderation.provider`), consulted before a
+ * comment is posted: OpenAI's moderation endpoint, or a plugin.
+ */
+export interface Moderator {
+  /** Human-readable name (e.g., "openai") */
+  name: string;
+
+  /**
+   * Classify a comment.
+   *
+   * @param text - The comment text, without the AI label.
+   * @param options.signal - Aborts the request (fired by the retry layer's timeout).
+   * @returns The categories the text is flagged for (empty when it's fine).
+   */
+  moderate(text: string, options?: { signal?: AbortSignal }): Promise<string[]>;
+}
+
+/**
+ * Builds a moderator from the configured model (if any) and options.
+ * A moderation plugin module must default-export a function of this type.
+ */
+export type ModeratorFactory = (
+  model: string | undefined,
+  options: ProviderOptions,
+) => Moderator | Promise<Moderator>;
+
+/** Common language codes, so personas can say "ko" instead of "Korean" */
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  ko: "Korean (한국어)",
+  ja: "Japanese (日本語)",
+  zh: "Chinese (中文)",
+  es: "Spanish (Español)",
+  fr: "French (Français)",
+  de: "German (Deutsch)",
+};
+
+/** Resolve a language code (e.g., "ko", "ko-KR") to a name; names pass through */
+export function languageName(language: string): string {
+  const code = language.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_NAMES[code] ?? language;
+}
+
+/** Describe a length range, e.g. "2-4 paragraphs" or "at most 300 characters" */
+function describeLength(length: LengthConfig): string {
+  const unit = length.unit ?? "paragraphs";
+  const count = (n: number): string => `${n} ${n === 1 ? unit.slice(0, -1) : unit}`;
+  const { min, max } = length;
+  if (min !== undefined && max !== undefined) {
+    return min === max ? count(min) : `${min}-${max} ${unit}`;
+  }
+  return max !== undefined ? `at most ${count(max)}` : `at least ${count(min ?? 1)}`;
+}
+
+/**
+ * The built-in system prompt. Users can replace it with their own template
+ * file (`prompts.system`); see core/template.ts for the syntax.
+ */
+export const DEFAULT_SYSTEM_TEMPLATE = `You are a blog commenter with the following persona:
+- Name: {{persona.name}}
+- Role: {{persona.description}}
+- Tone: {{persona.tone}}
+{{#if persona.expertise}}
+- Expertise: {{persona.expertise}}
+{{/if}}
+
+Instructions:
+- Write a single, substantive comment on the blog post provided.
+- Reference specific parts of the blog post to show genuine engagement.
+{{#if persona.expertise}}
+- Bring in your expertise where it is relevant to the post.
+{{/if}}
+{{#if persona.endWithQuestion}}
+- End with a question or invitation for further discussion.
+{{else}}
+- Do NOT end with a question; close with your own perspective instead.
+{{/if}}
+- Do NOT use generic praise like "great article" or "nice post".
+{{#if persona.forbiddenPhrases}}
+- Never use these phrases: {{#each persona.forbiddenPhrases}}"{{this}}"{{#unless @last}}, {{/unless}}{{/each}}.
+{{/if}}
+{{#if persona.lengthText}}
+- Keep the comment to {{persona.lengthText}}.
+{{else}}
+- Keep the comment concise (2-4 paragraphs).
+{{/if}}
+- Write in first person as if you are the persona.
+{{#if persona.languageName}}
+- Write the comment in {{persona.languageName}}, whatever language the post is in.
+{{/if}}
+{{#if persona.examples}}
+
+Example comments in your voice (match their style, not their content):
+{{#each persona.examples}}
+
+<example>
+{{this}}
+</example>
+{{/each}}
+{{/if}}`;
+
+/**
+ * The built-in user prompt, holding the post itself. Users can replace it
+ * with their own template file (`prompts.user`).
+ */
+export const DEFAULT_USER_TEMPLATE = `Blog post: "{{post.title}}"
+URL: {{post.url}}
+{{#if post.tags}}
+Tags: {{post.tags}}
+{{/if}}
+{{#if post.description}}
+Summary: {{post.description}}
+{{/if}}
+
+---
+
+{{post.content}}
+{{#if thread.comments}}
+
+---
+
+Comments so far:
+{{#each thread.comments}}
+
+{{this.author}}{{#if this.isReply}} (reply){{/if}} wrote:
+{{this.body}}
+{{/each}}
+
+---
+
+{{#if thread.replyTo}}
+Write a reply to {{thread.replyTo}}'s latest comment above. Respond to what they said directly, and don't repeat points that were already made.
+{{else}}
+Write a new top-level comment that brings a different angle from the comments above.
+{{/if}}
+{{/if}}`;
+
+const defaultTemplates = {
+  system: parseTemplate(DEFAULT_SYSTEM_TEMPLATE, "(built-in system prompt)"),
+  user: parseTemplate(DEFAULT_USER_TEMPLATE, "(built-in user prompt)"),
+};
+let templates = { ...defaultTemplates };
+
+/** A sample persona and post, for checking templates when they're set */
+const SAMPLE_PERSONA: Persona = {
+  name: "Sample",
+  description: "Sample",
+  tone: "sample",
+  expertise: ["sample"],
+  examples: ["sample"],
+  forbiddenPhrases: ["sample"],
+  length: { min: 1, max: 2 },
+  language: "en",
+  endWithQuestion: true,
+};
+const SAMPLE_POST: PostContext = {
+  url: "https://example.com/sample",
+  title: "Sample",
+  content: "Sample",
+  excerpt: "Sample",
+  description: "Sample",
+  date: new Date(0),
+  tags: ["sample"],
+  categories: ["sample"],
+  author: "Sample",
+  language: "en",
+  thread: { comments: [{ author: "Sample", body: "Sample", isReply: false }], replyTo: "Sample" },
+};
+
+/**
+ * Replace the built-in prompt templates (either or both); omitted ones
+ * revert to the built-in template. Like the retry policy, this is set
+ * once at startup and applies to every provider that uses the builders
+ * below.
+ *
+ * @throws If a template uses a placeholder that doesn't exist.
+ */
+export function setPromptTemplates(custom: { system?: Template; user?: Template }): void {
+  // Render once with a full sample so typos fail at startup, not mid-run
+  if (custom.system) renderTemplate(custom.system, systemPromptData(SAMPLE_PERSONA));
+  if (custom.user) renderTemplate(custom.user, userPromptData(SAMPLE_POST));
+  templates = {
+    system: custom.system ?? defaultTemplates.system,
+    user: custom.user ?? defaultTemplates.user,
+  };
+}
+
+/**
+ * The values system prompt templates can use: the persona's config fields
+ * under `persona`, with defaults applied (every field is present, so
+ * typos are caught), plus `persona.lengthText` (e.g.,
+ * "2-4 paragraphs") and `persona.languageName` (e.g., "Korean (한국어)").
+ */
+function systemPromptData(persona: Persona): Record<string, unknown> {
+  const hasLength =
+    persona.length !== undefined &&
+    (persona.length.min !== undefined || persona.length.max !== undefined);
+  return {
+    persona: {
+      ...persona,
+      expertise: persona.expertise ?? [],
+      examples: (persona.examples ?? []).map((example) => example.trim()),
+      forbiddenPhrases: persona.forbiddenPhrases ?? [],
+      length: { min: persona.length?.min, max: persona.length?.max, unit: persona.length?.unit },
+      language: persona.language,
+      endWithQuestion: persona.endWithQuestion ?? true,
+      lengthText: hasLength ? describeLength(persona.length as LengthConfig) : "",
+      languageName: persona.language ? languageName(persona.language) : "",
+    },
+  };
+}
+
+/**
+ * The values user prompt templates can use, under `post`: title, url,
+ * canonicalUrl (empty when unknown), content, excerpt, description, tags,
+ * categories, author, language, and date as YYYY-MM-DD. In conversation
+ * mode (or when answering readers), `thread.comments` holds the earlier
+ * comments (author, body, isReply) and `thread.replyTo` who is being
+ * replied to.
+ */
+function userPromptData(context: PostContext): Record<string, unknown> {
+  return {
+    post: {
+      title: context.title,
+      url: context.url,
+      canonicalUrl: context.canonicalUrl ?? "",
+      content: context.content,
+      excerpt: context.excerpt,
+      description: context.description,
+      tags: context.tags ?? [],
+      categories: context.categories ?? [],
+      author: context.author,
+      language: context.language,
+      date: context.date ? context.date.toISOString().slice(0, 10) : "",
+    },
+    thread: {
+      comments: context.thread?.comments ?? [],
+      replyTo: context.thread?.replyTo,
+    },
+  };
 }
 
 /**
  * Build the system prompt that all providers share.
  * This ensures consistent comment quality regardless of which LLM is used.
+ * The persona's optional fields (expertise, length, language, examples,
+ * ...) each add an instruction; without them the defaults apply.
  */
 export function buildSystemPrompt(persona: Persona): string {
-  return [
-    `You are a blog commenter with the following persona:`,
-    `- Name: ${persona.name}`,
-    `- Role: ${persona.description}`,
-    `- Tone: ${persona.tone}`,
-    ``,
-    `Instructions:`,
-    `- Write a single, substantive comment on the blog post provided.`,
-    `- Reference specific parts of the blog post to show genuine engagement.`,
-    `- End with a question or invitation for further discussion.`,
-    `- Do NOT use generic praise like "great article" or "nice post".`,
-    `- Keep the comment concise (2-4 paragraphs).`,
-    `- Write in first person as if you are the persona.`,
-  ].join("\n");
+  return renderTemplate(templates.system, systemPromptData(persona)).trim();
 }
 
 /**
@@ -77,12 +461,23 @@ export function buildSystemPrompt(persona: Persona): string {
  * into the correct message role.
  */
 export function buildUserPrompt(context: PostContext): string {
-  return [
-    `Blog post: "${context.title}"`,
-    `URL: ${context.url}`,
-    ``,
-    `---`,
-    ``,
-    context.content,
-  ].join("\n");
+  return renderTemplate(templates.user, userPromptData(context)).trim();
+}
+
+/**
+ * The prompts a provider should send: `options.prompt` when the caller
+ * overrides them, else the persona's system prompt and the post's user
+ * prompt.
+ */
+export function buildPrompts(
+  context: PostContext,
+  persona: Persona,
+  options: GenerateOptions = {},
+): Prompts {
+  return (
+    options.prompt ?? {
+      system: buildSystemPrompt(persona),
+      user: buildUserPrompt(context),
+    }
+  );
 }
@@ -6,42 +6,70 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import type { AIProvider, PostContext, Persona } from "./base.js";
-import { buildSystemPrompt, buildUserPrompt } from "./base.js";
+import type {
+  AIProvider,
+  GenerateOptions,
+  PostContext,
+  Persona,
+  ProviderOptions,
+} from "./base.js";
+import { buildPrompts } from "./base.js";
 
 export class ClaudeProvider implements AIProvider {
   readonly name = "claude";
   private client: Anthropic;
-  private model: string;
+  readonly model: string;
+  private options: ProviderOptions;
 
   /**
    * @param model - The Anthropic model ID (e.g., "claude-sonnet-4-5-20250929").
-   * @param apiKey - Anthropic API key. Falls back to GISCUS_BOT_CLAUDE_API_KEY env var.
+   * @param options - API key (falls back to GISCUS_BOT_CLAUDE_API_KEY env var),
+   *                  base URL, sampling, max tokens and timeout.
    */
-  constructor(model: string, apiKey?: string) {
+  constructor(model: string, options: ProviderOptions = {}) {
     this.model = model;
+    this.options = options;
     this.client = new Anthropic({
-      apiKey: apiKey ?? process.env.GISCUS_BOT_CLAUDE_API_KEY,
+      apiKey: options.apiKey ?? process.env.GISCUS_BOT_CLAUDE_API_KEY,
+      baseURL: options.baseUrl,
+      timeout: options.timeout,
+      // Retries are handled by the shared retry layer (core/retry.ts)
+      maxRetries: 0,
     });
   }
 
-  async generateComment(context: PostContext, persona: Persona): Promise<string> {
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const prompt = buildPrompts(context, persona, options);
     // Anthropic's API has a dedicated `system` parameter (not a message role)
     // which is ideal for persona instructions
     const response = await this.client.messages.create({
       model: this.model,
-      max_tokens: 1024,
-      system: buildSystemPrompt(persona),
+      // The Messages API requires max_tokens; 1024 is plenty for a comment
+      max_tokens: this.options.maxTokens ?? 1024,
+      // Current models reject temperature and top_p together; temperature wins
+      temperature: this.options.temperature,
+      top_p: this.options.temperature === undefined ? this.options.topP : undefined,
+      system: prompt.system,
       messages: [
-        { role: "user", content: buildUserPrompt(context) },
+        { role: "user", content: prompt.user },
       ],
-    });
+    }, { signal: options.signal });
 
     // The response content is an array of content blocks; we expect a single text block
     const block = response.content[0];
     if (!block || block.type !== "text") {
       throw new Error("Claude returned an empty or non-text response");
     }
+    if (response.usage) {
+      options.onUsage?.({
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      });
+    }
 
     return block.text.trim();
   }
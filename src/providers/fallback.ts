@@ -0,0 +1,90 @@
+/**
+ * Fallback provider — an ordered chain of backends behind one AIProvider.
+ *
+ * Configured by making `provider` a list:
+ *
+ *   provider:
+ *     - name: claude
+ *       model: claude-sonnet-4-5-20250929
+ *     - name: openai
+ *       model: gpt-4o
+ *     - name: ollama
+ *       model: llama3
+ *
+ * Each comment is first requested from the first backend. If it fails with
+ * an error another backend could avoid — a rate limit, outage, timeout or
+ * exhausted quota, after its own retries — the next backend is tried.
+ * Other errors (bad API key, invalid request) are rethrown as-is, since
+ * they point at a config problem rather than an unavailable service.
+ *
+ * The backend that wrote the comment is reported through
+ * GenerateOptions.onSource so it can be recorded and shown in the label.
+ */
+
+import type {
+  AIProvider,
+  CommentSource,
+  GenerateOptions,
+  PostContext,
+  Persona,
+} from "./base.js";
+import { describeError, getRetryPolicy, isQuotaError, isRetryable } from "../core/retry.js";
+
+/** Label a backend for logs (e.g., "claude (claude-sonnet-4-5)") */
+function label(provider: AIProvider): string {
+  return provider.model ? `${provider.name} (${provider.model})` : provider.name;
+}
+
+export class FallbackProvider implements AIProvider {
+  readonly name: string;
+  private backends: AIProvider[];
+
+  /**
+   * @param backends - Providers in order of preference (at least one).
+   * @throws If the list is empty.
+   */
+  constructor(backends: AIProvider[]) {
+    if (backends.length === 0) {
+      throw new Error("A provider fallback chain needs at least one provider");
+    }
+    this.backends = backends;
+    this.name = backends.map((backend) => backend.name).join(" → ");
+  }
+
+  /** The first backend's model — the one used when nothing fails */
+  get model(): string | undefined {
+    return this.backends[0].model;
+  }
+
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    for (const [i, backend] of this.backends.entries()) {
+      try {
+        // The backend itself, unless it's a composite that reports deeper
+        let source: CommentSource = { provider: backend.name, model: backend.model ?? "" };
+        const comment = await backend.generateComment(context, persona, {
+          ...options,
+          onSource: (reported) => {
+            source = reported;
+          },
+        });
+        options.onSource?.(source);
+        return comment;
+      } catch (error) {
+        const next = this.backends[i + 1];
+        if (!next || !(isRetryable(error) || isQuotaError(error))) {
+          throw error;
+        }
+        getRetryPolicy().log(
+          `${label(backend)} failed (${describeError(error)}); falling back to ${label(next)}`,
+        );
+      }
+    }
+
+    // Unreachable: the loop either returns or throws on the last backend
+    throw new Error("No provider in the fallback chain produced a comment");
+  }
+}
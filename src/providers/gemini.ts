@@ -0,0 +1,110 @@
+/**
+ * Google Gemini provider implementation.
+ *
+ * Calls the Gemini API's generateContent endpoint with plain fetch — no SDK
+ * dependency. Gemini takes the system prompt as a separate
+ * `systemInstruction` and sampling settings under `generationConfig`.
+ */
+
+import type {
+  AIProvider,
+  GenerateOptions,
+  PostContext,
+  Persona,
+  ProviderOptions,
+} from "./base.js";
+import { buildPrompts, requestSignal } from "./base.js";
+import { responseError } from "../core/retry.js";
+
+/** Shape of Gemini's generateContent response (only the fields we need) */
+interface GeminiGenerateResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
+    };
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini";
+  private baseUrl: string;
+  private apiKey: string;
+  readonly model: string;
+  private options: ProviderOptions;
+
+  /**
+   * @param model - The Gemini model name (e.g., "gemini-2.0-flash").
+   * @param options - API key (falls back to GISCUS_BOT_GEMINI_API_KEY env var),
+   *                  base URL (defaults to the public Gemini API), sampling,
+   *                  max tokens and timeout.
+   * @throws If no API key is available.
+   */
+  constructor(model: string, options: ProviderOptions = {}) {
+    this.model = model;
+    this.options = options;
+    this.baseUrl = (
+      options.baseUrl ?? "https://generativelanguage.googleapis.com"
+    ).replace(/\/+$/, "");
+
+    const apiKey = options.apiKey ?? process.env.GISCUS_BOT_GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("Gemini API key is missing: set GISCUS_BOT_GEMINI_API_KEY");
+    }
+    this.apiKey = apiKey;
+  }
+
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const prompt = buildPrompts(context, persona, options);
+    const response = await fetch(
+      `${this.baseUrl}/v1beta/models/${encodeURIComponent(this.model)}:generateContent`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": this.apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: prompt.system }] },
+          contents: [
+            { role: "user", parts: [{ text: prompt.user }] },
+          ],
+          generationConfig: {
+            temperature: this.options.temperature,
+            topP: this.options.topP,
+            maxOutputTokens: this.options.maxTokens,
+          },
+        }),
+        signal: requestSignal(this.options.timeout, options.signal),
+      },
+    );
+
+    if (!response.ok) {
+      throw await responseError("Gemini request", response);
+    }
+
+    // A response can be split across several text parts
+    const data = (await response.json()) as GeminiGenerateResponse;
+    const content = data.candidates?.[0]?.content?.parts
+      ?.map((part) => part.text ?? "")
+      .join("");
+    if (!content?.trim()) {
+      throw new Error("Gemini returned an empty response");
+    }
+    if (data.usageMetadata) {
+      options.onUsage?.({
+        inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      });
+    }
+
+    return content.trim();
+  }
+}
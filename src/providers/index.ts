@@ -2,38 +2,265 @@
  * Provider factory — instantiates the correct AI provider based on config.
  *
  * This is the single entry point the rest of the app uses to get a provider.
- * Adding a new provider only requires:
+ * Adding a built-in provider only requires:
  *   1. Creating a new class that implements AIProvider
- *   2. Adding a case to the switch statement below
+ *   2. Adding it to the PROVIDERS table below (and its name to ProviderName)
+ *
+ * Providers that don't belong in this repo (e.g., an internal LLM gateway)
+ * can be loaded as plugins instead — see plugin.ts.
  */
 
-import type { ProviderConfig } from "../config/types.js";
-import type { AIProvider } from "./base.js";
+import type {
+  GiscusBotConfig,
+  ModerationProviderConfig,
+  PersonaConfig,
+  ProviderConfig,
+  ProviderName,
+} from "../config/types.js";
+import type {
+  AIProvider,
+  Moderator,
+  ModeratorFactory,
+  ProviderFactory,
+  ProviderOptions,
+} from "./base.js";
 import { OpenAIProvider } from "./openai.js";
 import { ClaudeProvider } from "./claude.js";
 import { OllamaProvider } from "./ollama.js";
+import { OpenAICompatibleProvider } from "./openai-compatible.js";
+import { AzureOpenAIProvider } from "./azure-openai.js";
+import { GeminiProvider } from "./gemini.js";
+import { MistralProvider } from "./mistral.js";
+import { OpenAIModerator } from "./openai-moderation.js";
+import {
+  assertModerator,
+  assertProvider,
+  loadModeratorPlugin,
+  loadProviderPlugin,
+} from "./plugin.js";
+import { FallbackProvider } from "./fallback.js";
+import { retryModerator, retryProvider } from "../core/retry.js";
+
+/** Built-in providers, keyed by the `provider.name` config value */
+const PROVIDERS: Record<ProviderName, ProviderFactory> = {
+  openai: (model, options) => new OpenAIProvider(model, options),
+  "openai-compatible": (model, options) => new OpenAICompatibleProvider(model, options),
+  "azure-openai": (model, options) => new AzureOpenAIProvider(model, options),
+  claude: (model, options) => new ClaudeProvider(model, options),
+  gemini: (model, options) => new GeminiProvider(model, options),
+  mistral: (model, options) => new MistralProvider(model, options),
+  ollama: (model, options) => new OllamaProvider(model, options),
+};
+
+/** Built-in moderators, keyed by the `moderation.provider.name` config value */
+const MODERATORS: Record<string, ModeratorFactory> = {
+  openai: (model, options) => new OpenAIModerator(model, options),
+};
+
+/**
+ * Translate the config's provider section into constructor options,
+ * reading the API key from `apiKeyEnv` when one is named.
+ *
+ * @param section - The config section, for errors.
+ * @throws If `apiKeyEnv` names an env var that isn't set.
+ */
+function providerOptions(
+  config: Partial<ProviderConfig>,
+  section = "provider",
+): ProviderOptions {
+  let apiKey: string | undefined;
+  if (config.apiKeyEnv) {
+    apiKey = process.env[config.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(
+        `Environment variable ${config.apiKeyEnv} (${section}.apiKeyEnv) is not set`,
+      );
+    }
+  }
+
+  return {
+    apiKey,
+    baseUrl: config.baseUrl,
+    temperature: config.temperature,
+    topP: config.topP,
+    maxTokens: config.maxTokens,
+    timeout: config.timeout,
+    apiVersion: config.apiVersion,
+  };
+}
+
+/** Whether a provider name refers to one of the built-in providers */
+export function isBuiltinProvider(name: string): name is ProviderName {
+  return Object.hasOwn(PROVIDERS, name);
+}
+
+/**
+ * The config's provider section as a list, first choice first.
+ * The entries are the config's own objects, so callers can override
+ * fields (e.g., from CLI flags) in place.
+ */
+export function providerChain(config: ProviderConfig | ProviderConfig[]): ProviderConfig[] {
+  return Array.isArray(config) ? config : [config];
+}
+
+/**
+ * Work out the provider config a persona uses, applying its overrides on
+ * top of the top-level provider section.
+ *
+ * A `provider` name replaces the primary provider (keeping its settings
+ * when it names the same provider); a full provider config or list
+ * replaces the whole section. `model` and sampling overrides then apply
+ * to the first entry. Personas without overrides get `global` back as is.
+ *
+ * @param global - The config's top-level provider section.
+ * @param persona - The persona (or the judge section) to resolve.
+ * @returns The provider section to create the persona's provider from.
+ */
+export function resolvePersonaProvider(
+  global: ProviderConfig | ProviderConfig[],
+  persona: Pick<PersonaConfig, "provider" | "model" | "temperature" | "topP" | "maxTokens">,
+): ProviderConfig | ProviderConfig[] {
+  const overrides: Partial<ProviderConfig> = {};
+  for (const key of ["model", "temperature", "topP", "maxTokens"] as const) {
+    if (persona[key] !== undefined) Object.assign(overrides, { [key]: persona[key] });
+  }
+  if (persona.provider === undefined && Object.keys(overrides).length === 0) {
+    return global;
+  }
+
+  const [primary, ...rest] = providerChain(global);
+  let base: ProviderConfig[];
+  if (typeof persona.provider === "string") {
+    base =
+      persona.provider === primary.name
+        ? [primary]
+        : [{ name: persona.provider, model: persona.model ?? primary.model }];
+  } else if (persona.provider !== undefined) {
+    base = providerChain(persona.provider);
+  } else {
+    base = [primary, ...rest];
+  }
+
+  const [first, ...others] = base;
+  const chain = [{ ...first, ...overrides }, ...others];
+  return chain.length === 1 ? chain[0] : chain;
+}
+
+/**
+ * Create a single provider, wrapped in the retry layer.
+ * Built-in names map to the classes above; any other name is loaded as a
+ * plugin module.
+ */
+async function createSingleProvider(config: ProviderConfig): Promise<AIProvider> {
+  const options = providerOptions(config);
+  if (isBuiltinProvider(config.name)) {
+    return retryProvider(await PROVIDERS[config.name](config.model, options));
+  }
+
+  const factory = await loadProviderPlugin(config.name);
+  return retryProvider(assertProvider(await factory(config.model, options), config.name));
+}
 
 /**
  * Create an AI provider instance from the config's provider section.
  *
- * @param config - The provider config from giscus-bot.config.yaml
- * @returns A ready-to-use AIProvider instance
- * @throws If the provider name is not recognized
+ * @param config - The provider config from giscus-bot.config.yaml: one
+ *                 provider, or an ordered list to fall back through
+ * @returns A ready-to-use AIProvider instance whose calls are retried and
+ *          timed out per the retry policy (see core/retry.ts); for a list,
+ *          a FallbackProvider over all of them
+ * @throws If a plugin can't be loaded or doesn't meet the plugin contract
+ */
+export async function createProvider(
+  config: ProviderConfig | ProviderConfig[],
+): Promise<AIProvider> {
+  const chain = providerChain(config);
+  if (chain.length === 1) {
+    return createSingleProvider(chain[0]);
+  }
+
+  const backends: AIProvider[] = [];
+  for (const entry of chain) {
+    backends.push(await createSingleProvider(entry));
+  }
+  return new FallbackProvider(backends);
+}
+
+/**
+ * Create providers for the personas that override the top-level one.
+ * Personas resolving to the same provider config share an instance.
+ *
+ * @param config - The full giscus-bot configuration.
+ * @returns Providers keyed by persona name; personas without overrides
+ *          aren't included and should use the top-level provider.
  */
-export function createProvider(config: ProviderConfig): AIProvider {
-  switch (config.name) {
-    case "openai":
-      return new OpenAIProvider(config.model);
-    case "claude":
-      return new ClaudeProvider(config.model);
-    case "ollama":
-      return new OllamaProvider(config.model);
-    default:
-      // TypeScript's exhaustive check won't catch this at runtime
-      // if someone passes an invalid string, so we throw explicitly
-      throw new Error(`Unknown provider: ${config.name}`);
+export async function createPersonaProviders(
+  config: GiscusBotConfig,
+): Promise<Map<string, AIProvider>> {
+  const byConfig = new Map<string, AIProvider>();
+  const byPersona = new Map<string, AIProvider>();
+  for (const persona of config.personas) {
+    const resolved = resolvePersonaProvider(config.provider, persona);
+    if (resolved === config.provider) continue;
+
+    const key = JSON.stringify(resolved);
+    let provider = byConfig.get(key);
+    if (!provider) {
+      provider = await createProvider(resolved);
+      byConfig.set(key, provider);
+    }
+    byPersona.set(persona.name, provider);
   }
+  return byPersona;
+}
+
+/**
+ * Create the provider for the LLM judge, if the config's judge section
+ * overrides the top-level one.
+ *
+ * @param config - The full giscus-bot configuration.
+ * @returns The judge's provider, or undefined when the judge is off or
+ *          should use the top-level provider.
+ */
+export async function createJudgeProvider(
+  config: GiscusBotConfig,
+): Promise<AIProvider | undefined> {
+  const judge = config.judge;
+  if (judge === undefined || judge.enabled === false) return undefined;
+  const resolved = resolvePersonaProvider(config.provider, judge);
+  return resolved === config.provider ? undefined : createProvider(resolved);
+}
+
+/**
+ * Create the moderation classifier named in `moderation.provider`,
+ * wrapped in the retry layer.
+ *
+ * @param config - The full giscus-bot configuration.
+ * @returns The classifier, or undefined when moderation is off or uses
+ *          only the local rules.
+ * @throws If a plugin can't be loaded or doesn't meet the plugin contract.
+ */
+export async function createModerator(config: GiscusBotConfig): Promise<Moderator | undefined> {
+  const moderation = config.moderation;
+  if (moderation?.provider === undefined || moderation.enabled === false) return undefined;
+
+  const section: ModerationProviderConfig = moderation.provider;
+  const options = providerOptions(section, "moderation.provider");
+  if (Object.hasOwn(MODERATORS, section.name)) {
+    return retryModerator(await MODERATORS[section.name](section.model, options));
+  }
+
+  const factory = await loadModeratorPlugin(section.name);
+  return retryModerator(assertModerator(await factory(section.model, options), section.name));
 }
 
 // Re-export base types so consumers can import everything from providers/
-export type { AIProvider, PostContext, Persona } from "./base.js";
+export type {
+  AIProvider,
+  Moderator,
+  ModeratorFactory,
+  PostContext,
+  Persona,
+  ProviderFactory,
+  ProviderOptions,
+} from "./base.js";
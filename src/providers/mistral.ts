@@ -0,0 +1,101 @@
+/**
+ * Mistral provider implementation.
+ *
+ * Calls Mistral's chat completions endpoint with plain fetch — no SDK
+ * dependency. The request and response follow the familiar
+ * system/user message layout.
+ */
+
+import type {
+  AIProvider,
+  GenerateOptions,
+  PostContext,
+  Persona,
+  ProviderOptions,
+} from "./base.js";
+import { buildPrompts, requestSignal } from "./base.js";
+import { responseError } from "../core/retry.js";
+
+/** Shape of Mistral's chat completions response (only the fields we need) */
+interface MistralChatResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+export class MistralProvider implements AIProvider {
+  readonly name = "mistral";
+  private baseUrl: string;
+  private apiKey: string;
+  readonly model: string;
+  private options: ProviderOptions;
+
+  /**
+   * @param model - The Mistral model name (e.g., "mistral-large-latest").
+   * @param options - API key (falls back to GISCUS_BOT_MISTRAL_API_KEY env var),
+   *                  base URL (defaults to api.mistral.ai), sampling,
+   *                  max tokens and timeout.
+   * @throws If no API key is available.
+   */
+  constructor(model: string, options: ProviderOptions = {}) {
+    this.model = model;
+    this.options = options;
+    this.baseUrl = (options.baseUrl ?? "https://api.mistral.ai").replace(/\/+$/, "");
+
+    const apiKey = options.apiKey ?? process.env.GISCUS_BOT_MISTRAL_API_KEY;
+    if (!apiKey) {
+      throw new Error("Mistral API key is missing: set GISCUS_BOT_MISTRAL_API_KEY");
+    }
+    this.apiKey = apiKey;
+  }
+
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const prompt = buildPrompts(context, persona, options);
+    const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
+        ],
+        temperature: this.options.temperature,
+        top_p: this.options.topP,
+        max_tokens: this.options.maxTokens,
+      }),
+      signal: requestSignal(this.options.timeout, options.signal),
+    });
+
+    if (!response.ok) {
+      throw await responseError("Mistral request", response);
+    }
+
+    const data = (await response.json()) as MistralChatResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("Mistral returned an empty response");
+    }
+    if (data.usage) {
+      options.onUsage?.({
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+      });
+    }
+
+    return content.trim();
+  }
+}
@@ -6,54 +6,85 @@
  * for users who want to run everything locally without API keys.
  */
 
-import type { AIProvider, PostContext, Persona } from "./base.js";
-import { buildSystemPrompt, buildUserPrompt } from "./base.js";
+import type {
+  AIProvider,
+  GenerateOptions,
+  PostContext,
+  Persona,
+  ProviderOptions,
+} from "./base.js";
+import { buildPrompts, requestSignal } from "./base.js";
+import { responseError } from "../core/retry.js";
 
 /** Shape of Ollama's /api/chat response (only the fields we need) */
 interface OllamaChatResponse {
   message: {
     content: string;
   };
+  /** Token counts (left out when the prompt was served from cache) */
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
 export class OllamaProvider implements AIProvider {
   readonly name = "ollama";
   private baseUrl: string;
-  private model: string;
+  readonly model: string;
+  private options: ProviderOptions;
 
   /**
    * @param model - The Ollama model name (e.g., "llama3", "mistral").
-   * @param baseUrl - Ollama server URL. Defaults to localhost:11434.
+   * @param options - Server URL (falls back to GISCUS_BOT_OLLAMA_URL, then
+   *                  localhost:11434), sampling, max tokens and timeout.
+   *                  Local Ollama needs no API key; one is sent as a bearer
+   *                  token for remote hosts behind an authenticating proxy.
    */
-  constructor(model: string, baseUrl?: string) {
+  constructor(model: string, options: ProviderOptions = {}) {
     this.model = model;
-    this.baseUrl =
-      baseUrl ??
+    this.options = options;
+    this.baseUrl = (
+      options.baseUrl ??
       process.env.GISCUS_BOT_OLLAMA_URL ??
-      "http://localhost:11434";
+      "http://localhost:11434"
+    ).replace(/\/+$/, "");
   }
 
-  async generateComment(context: PostContext, persona: Persona): Promise<string> {
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const prompt = buildPrompts(context, persona, options);
     // Ollama exposes an OpenAI-compatible /api/chat endpoint
     const response = await fetch(`${this.baseUrl}/api/chat`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {}),
+      },
       body: JSON.stringify({
         model: this.model,
         // stream: false makes Ollama return the full response in one JSON object
         // instead of streaming newline-delimited chunks
         stream: false,
         messages: [
-          { role: "system", content: buildSystemPrompt(persona) },
-          { role: "user", content: buildUserPrompt(context) },
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
         ],
+        // Ollama takes sampling parameters under `options`, with its own names
+        options: {
+          temperature: this.options.temperature,
+          top_p: this.options.topP,
+          num_predict: this.options.maxTokens,
+        },
       }),
+      signal: requestSignal(this.options.timeout, options.signal),
     });
 
     if (!response.ok) {
-      throw new Error(
-        `Ollama request failed: ${response.status} ${response.statusText}`,
-      );
+      throw await responseError("Ollama request", response);
     }
 
     const data = (await response.json()) as OllamaChatResponse;
@@ -61,6 +92,12 @@ export class OllamaProvider implements AIProvider {
     if (!content) {
       throw new Error("Ollama returned an empty response");
     }
+    if (data.eval_count !== undefined) {
+      options.onUsage?.({
+        inputTokens: data.prompt_eval_count ?? 0,
+        outputTokens: data.eval_count,
+      });
+    }
 
     return content.trim();
   }
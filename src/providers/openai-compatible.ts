@@ -0,0 +1,48 @@
+/**
+ * OpenAI-compatible provider implementation.
+ *
+ * Talks to any server that implements the OpenAI Chat Completions API —
+ * vLLM, LM Studio, llama.cpp server, OpenRouter and the like — by pointing
+ * the OpenAI SDK at `provider.baseUrl`. Request shape and response handling
+ * are inherited from OpenAIProvider.
+ */
+
+import OpenAI from "openai";
+import type { ProviderOptions } from "./base.js";
+import { OpenAIProvider } from "./openai.js";
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = "openai-compatible";
+
+  /**
+   * @param model - Model name as the server knows it (e.g., "meta-llama/Llama-3.1-8B-Instruct").
+   * @param options - Must include `baseUrl` (e.g., "http://localhost:8000/v1").
+   *                  API key falls back to GISCUS_BOT_OPENAI_COMPATIBLE_API_KEY;
+   *                  local servers usually don't need one.
+   * @throws If no base URL is given.
+   */
+  constructor(model: string, options: ProviderOptions = {}) {
+    if (!options.baseUrl) {
+      throw new Error(
+        'The "openai-compatible" provider requires provider.baseUrl (e.g., "http://localhost:8000/v1")',
+      );
+    }
+
+    super(
+      model,
+      options,
+      new OpenAI({
+        // The SDK refuses to start without a key, but many local servers
+        // ignore it — send a placeholder rather than making users invent one
+        apiKey:
+          options.apiKey ??
+          process.env.GISCUS_BOT_OPENAI_COMPATIBLE_API_KEY ??
+          "not-needed",
+        baseURL: options.baseUrl,
+        timeout: options.timeout,
+        // Retries are handled by the shared retry layer (core/retry.ts)
+        maxRetries: 0,
+      }),
+    );
+  }
+}
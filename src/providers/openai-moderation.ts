@@ -0,0 +1,52 @@
+/**
+ * OpenAI moderation endpoint, as a Moderator.
+ *
+ * Uses the official OpenAI SDK's moderations API. The endpoint is free
+ * for OpenAI API users and flags categories like hate, harassment and
+ * self-harm; the comment is blocked when any category is flagged.
+ */
+
+import OpenAI from "openai";
+import type { Moderator, ProviderOptions } from "./base.js";
+
+/** The moderation model used when the config doesn't name one */
+const DEFAULT_MODEL = "omni-moderation-latest";
+
+export class OpenAIModerator implements Moderator {
+  readonly name = "openai";
+  readonly model: string;
+  private client: OpenAI;
+
+  /**
+   * @param model - The moderation model (default: "omni-moderation-latest").
+   * @param options - API key (falls back to GISCUS_BOT_OPENAI_API_KEY env var),
+   *                  base URL and timeout.
+   */
+  constructor(model: string = DEFAULT_MODEL, options: ProviderOptions = {}) {
+    this.model = model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.GISCUS_BOT_OPENAI_API_KEY,
+      baseURL: options.baseUrl,
+      timeout: options.timeout,
+      // Retries are handled by the shared retry layer (core/retry.ts)
+      maxRetries: 0,
+    });
+  }
+
+  async moderate(text: string, options: { signal?: AbortSignal } = {}): Promise<string[]> {
+    const response = await this.client.moderations.create(
+      { model: this.model, input: text },
+      { signal: options.signal },
+    );
+
+    const result = response.results[0];
+    if (!result) {
+      throw new Error("OpenAI returned an empty moderation response");
+    }
+    if (!result.flagged) return [];
+
+    return Object.entries(result.categories)
+      .filter(([, flagged]) => flagged === true)
+      .map(([category]) => category);
+  }
+}
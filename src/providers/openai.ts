@@ -6,45 +6,75 @@
  */
 
 import OpenAI from "openai";
-import type { AIProvider, PostContext, Persona } from "./base.js";
-import { buildSystemPrompt, buildUserPrompt } from "./base.js";
+import type {
+  AIProvider,
+  GenerateOptions,
+  PostContext,
+  Persona,
+  ProviderOptions,
+} from "./base.js";
+import { buildPrompts } from "./base.js";
 
 export class OpenAIProvider implements AIProvider {
-  readonly name = "openai";
+  readonly name: string = "openai";
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
+  private options: ProviderOptions;
 
   /**
    * @param model - The OpenAI model ID (e.g., "gpt-4o").
-   * @param apiKey - OpenAI API key. Falls back to GISCUS_BOT_OPENAI_API_KEY env var.
+   * @param options - API key (falls back to GISCUS_BOT_OPENAI_API_KEY env var),
+   *                  base URL for OpenAI-compatible gateways, sampling and timeout.
+   * @param client - A preconfigured client, for subclasses that talk to
+   *                 other Chat Completions endpoints (Azure, self-hosted servers).
    */
-  constructor(model: string, apiKey?: string) {
+  constructor(model: string, options: ProviderOptions = {}, client?: OpenAI) {
     this.model = model;
+    this.options = options;
     // The OpenAI SDK auto-reads OPENAI_API_KEY from env, but we use
     // our own env var name for clarity, so we pass it explicitly.
-    this.client = new OpenAI({
-      apiKey: apiKey ?? process.env.GISCUS_BOT_OPENAI_API_KEY,
-    });
+    this.client =
+      client ??
+      new OpenAI({
+        apiKey: options.apiKey ?? process.env.GISCUS_BOT_OPENAI_API_KEY,
+        baseURL: options.baseUrl,
+        timeout: options.timeout,
+        // Retries are handled by the shared retry layer (core/retry.ts)
+        maxRetries: 0,
+      });
   }
 
-  async generateComment(context: PostContext, persona: Persona): Promise<string> {
+  async generateComment(
+    context: PostContext,
+    persona: Persona,
+    options: GenerateOptions = {},
+  ): Promise<string> {
+    const prompt = buildPrompts(context, persona, options);
     const response = await this.client.chat.completions.create({
       model: this.model,
       messages: [
         // System message sets up the persona and comment guidelines
-        { role: "system", content: buildSystemPrompt(persona) },
+        { role: "system", content: prompt.system },
         // User message contains the actual blog post content
-        { role: "user", content: buildUserPrompt(context) },
+        { role: "user", content: prompt.user },
       ],
-      // Moderate temperature for creative but focused comments
-      temperature: 0.7,
-    });
+      // Moderate temperature by default for creative but focused comments
+      temperature: this.options.temperature ?? 0.7,
+      top_p: this.options.topP,
+      max_tokens: this.options.maxTokens,
+    }, { signal: options.signal });
 
     // Extract the generated text from the first (and only) choice
     const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error("OpenAI returned an empty response");
     }
+    if (response.usage) {
+      options.onUsage?.({
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      });
+    }
 
     return content.trim();
   }
@@ -0,0 +1,185 @@
+/**
+ * Provider plugin loading.
+ *
+ * `provider.name` can name a plugin instead of a built-in provider:
+ *   - a local module path, relative to the working directory:
+ *       name: ./providers/gateway.mjs
+ *   - an npm package installed in the blog repo (or alongside giscus-bot):
+ *       name: "@acme/giscus-bot-gateway"
+ *
+ * The module must default-export a ProviderFactory (see base.ts):
+ *
+ *   export default function (model, options) {
+ *     return {
+ *       name: "acme-gateway",
+ *       async generateComment(context, persona, options) { ... },
+ *     };
+ *   }
+ *
+ * When `options.prompt` is set (e.g., by the LLM judge), the provider
+ * should send those prompts as-is instead of building its own. It may
+ * call `options.onUsage` with the tokens a request used (see report.ts).
+ *
+ * The module and the provider it returns are checked against that
+ * contract, so a broken plugin fails with a message naming what's wrong
+ * rather than a TypeError halfway through a run.
+ */
+
+import { createRequire } from "node:module";
+import { isAbsolute, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AIProvider, Moderator, ModeratorFactory, ProviderFactory } from "./base.js";
+
+/** Whether a provider name is a local module path rather than a package */
+function isLocalPath(name: string): boolean {
+  return name.startsWith("./") || name.startsWith("../") || isAbsolute(name);
+}
+
+/**
+ * Resolve a plugin name to something `import()` can load.
+ *
+ * Packages are looked up from the working directory first, so a plugin
+ * installed in the blog repo is found even though giscus-bot itself lives
+ * elsewhere (e.g., in the Action's checkout).
+ */
+function resolvePluginSpecifier(name: string, cwd: string): string {
+  if (isLocalPath(name)) {
+    return pathToFileURL(resolve(cwd, name)).href;
+  }
+  try {
+    return pathToFileURL(createRequire(join(cwd, "noop.js")).resolve(name)).href;
+  } catch {
+    // Not resolvable from cwd (or ESM-only without a "require" export) —
+    // let Node resolve it from giscus-bot's own node_modules
+    return name;
+  }
+}
+
+/**
+ * Load a plugin module and return its default-exported factory.
+ *
+ * @param kind - What the plugin provides, for errors ("provider", "moderation").
+ * @param signature - The factory's expected signature, for errors.
+ * @throws If the module can't be loaded or doesn't default-export a function.
+ */
+async function loadPluginFactory(
+  name: string,
+  cwd: string,
+  kind: string,
+  signature: string,
+): Promise<unknown> {
+  let mod: { default?: unknown };
+  try {
+    mod = (await import(resolvePluginSpecifier(name, cwd))) as { default?: unknown };
+  } catch (error) {
+    throw new Error(
+      `Could not load ${kind} plugin "${name}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  // A CommonJS module with `exports.default = ...` is seen from ESM as
+  // { default: { default: factory } }
+  const factory =
+    typeof mod.default === "function"
+      ? mod.default
+      : (mod.default as { default?: unknown } | undefined)?.default;
+
+  if (typeof factory !== "function") {
+    throw new Error(
+      `${kind[0].toUpperCase()}${kind.slice(1)} plugin "${name}" must default-export a factory function ` +
+        `${signature}, but its default export is ${describeValue(mod.default)}`,
+    );
+  }
+  return factory;
+}
+
+/**
+ * Load a provider plugin and return its factory.
+ *
+ * @param name - The `provider.name` value: a module path or package name.
+ * @param cwd - Directory that relative paths and packages resolve from.
+ * @returns The module's default-exported ProviderFactory.
+ * @throws If the module can't be loaded or doesn't default-export a function.
+ */
+export async function loadProviderPlugin(
+  name: string,
+  cwd: string = process.cwd(),
+): Promise<ProviderFactory> {
+  return (await loadPluginFactory(
+    name,
+    cwd,
+    "provider",
+    "(model, options) => AIProvider",
+  )) as ProviderFactory;
+}
+
+/**
+ * Load a moderation plugin (`moderation.provider.name`) and return its factory.
+ *
+ * @param name - A module path or package name.
+ * @param cwd - Directory that relative paths and packages resolve from.
+ * @returns The module's default-exported ModeratorFactory.
+ * @throws If the module can't be loaded or doesn't default-export a function.
+ */
+export async function loadModeratorPlugin(
+  name: string,
+  cwd: string = process.cwd(),
+): Promise<ModeratorFactory> {
+  return (await loadPluginFactory(
+    name,
+    cwd,
+    "moderation",
+    "(model, options) => Moderator",
+  )) as ModeratorFactory;
+}
+
+/**
+ * Check that a plugin factory returned a usable AIProvider.
+ *
+ * @throws Naming the missing or mistyped member.
+ */
+export function assertProvider(value: unknown, name: string): AIProvider {
+  if (typeof value !== "object" || value === null) {
+    throw new Error(
+      `Provider plugin "${name}" must return an AIProvider object, but returned ${describeValue(value)}`,
+    );
+  }
+  const provider = value as Partial<AIProvider>;
+  if (typeof provider.name !== "string" || provider.name === "") {
+    throw new Error(`Provider plugin "${name}" returned a provider without a string "name"`);
+  }
+  if (typeof provider.generateComment !== "function") {
+    throw new Error(
+      `Provider plugin "${name}" returned a provider without a generateComment(context, persona) method`,
+    );
+  }
+  return provider as AIProvider;
+}
+
+/**
+ * Check that a moderation plugin factory returned a usable Moderator.
+ *
+ * @throws Naming the missing or mistyped member.
+ */
+export function assertModerator(value: unknown, name: string): Moderator {
+  if (typeof value !== "object" || value === null) {
+    throw new Error(
+      `Moderation plugin "${name}" must return a Moderator object, but returned ${describeValue(value)}`,
+    );
+  }
+  const moderator = value as Partial<Moderator>;
+  if (typeof moderator.name !== "string" || moderator.name === "") {
+    throw new Error(`Moderation plugin "${name}" returned a moderator without a string "name"`);
+  }
+  if (typeof moderator.moderate !== "function") {
+    throw new Error(`Moderation plugin "${name}" returned a moderator without a moderate(text) method`);
+  }
+  return moderator as Moderator;
+}
+
+/** Describe a value for error messages */
+function describeValue(value: unknown): string {
+  if (value === undefined) return "missing";
+  if (value === null) return "null";
+  return `a ${Array.isArray(value) ? "array" : typeof value}`;
+}
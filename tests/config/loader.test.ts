@@ -4,13 +4,17 @@
  * Verifies:
  *   - YAML parsing produces the correct config structure
  *   - ${VAR_NAME} syntax is replaced with environment variable values
- *   - Missing env vars are replaced with empty strings (fail-open)
+ *   - Missing env vars are errors unless they have a ${VAR:-fallback}
+ *   - Env vars in comments are ignored; unquoted ones keep their YAML type
+ *   - Partial configs are merged over the built-in defaults
+ *   - Validation errors point at the offending path and line
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { writeFileSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
-import { loadConfig } from "../../src/config/loader.js";
+import { loadConfig, parseConfig } from "../../src/config/loader.js";
+import { ConfigValidationError } from "../../src/config/schema.js";
 
 // Use a temp file path for test configs
 const TEST_CONFIG_PATH = join(import.meta.dirname, "test-config.yaml");
@@ -101,39 +105,128 @@ labeling:
     delete process.env.TEST_GISCUS_MODEL;
   });
 
-  it("should replace missing env vars with empty strings", () => {
+  it("should reject missing env vars, reporting the line", () => {
     // Make sure this var doesn't exist
     delete process.env.NONEXISTENT_VAR;
 
     writeFileSync(
       TEST_CONFIG_PATH,
-      `
-provider:
+      `provider:
   name: openai
   model: \${NONEXISTENT_VAR}
+`,
+    );
 
-github:
-  repo: "user/blog"
-  discussionCategory: "Comments"
+    expect(() => loadConfig(TEST_CONFIG_PATH)).toThrow(
+      /\$\{NONEXISTENT_VAR\} \(line 3\): environment variable NONEXISTENT_VAR is not set/,
+    );
+  });
 
-personas:
-  - name: "Reader"
-    description: "Reads"
-    tone: "nice"
+  it("should use the fallback for unset ${VAR:-default} references", () => {
+    delete process.env.NONEXISTENT_VAR;
 
-limits:
-  maxPersonas: 1
+    const config = parseConfig(
+      "provider:\n  name: openai\n  model: ${NONEXISTENT_VAR:-gpt-4o-mini}\n",
+      "test.yaml",
+    );
 
-labeling:
-  prefix: "AI"
-`,
+    expect(config.provider.model).toBe("gpt-4o-mini");
+  });
+
+  it("should ignore env vars in comments", () => {
+    delete process.env.NONEXISTENT_VAR;
+
+    const config = parseConfig(
+      "provider:\n  name: openai\n  model: gpt-4o\n  # apiKey: ${NONEXISTENT_VAR}\n",
+      "test.yaml",
     );
 
-    const config = loadConfig(TEST_CONFIG_PATH);
+    expect(config.provider.apiKey).toBeUndefined();
+  });
+
+  it("should read an unquoted env var as a number, and a quoted one as a string", () => {
+    process.env.TEST_GISCUS_MAX = "2";
+
+    const config = parseConfig(
+      'limits:\n  maxPersonas: ${TEST_GISCUS_MAX}\nlabeling:\n  prefix: "${TEST_GISCUS_MAX}"\n',
+      "test.yaml",
+    );
 
-    // Missing env vars become empty strings in the raw text, but YAML
-    // parses an empty unquoted value as null
-    expect(config.provider.model).toBeNull();
+    expect(config.limits.maxPersonas).toBe(2);
+    expect(config.labeling.prefix).toBe("2");
+    delete process.env.TEST_GISCUS_MAX;
+  });
+
+  it("should fill in sections and keys the file leaves out", () => {
+    const config = parseConfig(
+      "github:\n  repo: user/blog\nlimits:\n  maxPersonas: 2\n",
+      "test.yaml",
+    );
+
+    expect(config.github.repo).toBe("user/blog");
+    expect(config.github.discussionCategory).toBe("General");
+    expect(config.limits).toEqual({ maxPersonas: 2, postsPerRun: 1 });
+    expect(config.provider).toEqual({ name: "openai", model: "gpt-4o" });
+    expect(config.personas).toHaveLength(1);
+  });
+
+  it("should not give another provider the default model", () => {
+    expect(() => parseConfig("provider:\n  name: claude\n", "test.yaml")).toThrow(
+      /provider\.model \(line 2\): is required/,
+    );
+    expect(parseConfig("provider:\n  name: openai\n", "test.yaml").provider).toEqual({
+      name: "openai",
+      model: "gpt-4o",
+    });
+    expect(
+      parseConfig("provider:\n  name: claude\n  model: claude-haiku-4-5\n", "test.yaml").provider,
+    ).toEqual({ name: "claude", model: "claude-haiku-4-5" });
+  });
+
+  it("should treat an empty file as all defaults", () => {
+    expect(parseConfig("", "test.yaml").labeling.prefix).toBe(
+      "🤖 **AI-Generated Comment**",
+    );
+  });
+
+  it("should report every validation issue with its line", () => {
+    const raw = [
+      "provider:",
+      "  name: Open AI",
+      "  model: gpt-4o",
+      "personas: []",
+      "limits:",
+      "  maxPersonas: 0",
+      "  postsPerRn: 2",
+    ].join("\n");
+
+    let error: unknown;
+    try {
+      parseConfig(raw, "test.yaml");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      {
+        path: "provider.name",
+        message: 'must be one of openai, openai-compatible, azure-openai, claude, gemini, mistral, ollama, or a plugin module path or package name (got "Open AI")',
+        line: 2,
+      },
+      { path: "personas", message: "must have at least 1 item", line: 4 },
+      { path: "limits.maxPersonas", message: "must be at least 1 (got 0)", line: 6 },
+      { path: "limits.postsPerRn", message: 'unknown option "postsPerRn"', line: 7 },
+    ]);
+    expect((error as Error).message).toContain(
+      "provider.name (line 2): must be one of openai, openai-compatible, azure-openai, claude, gemini, mistral, ollama",
+    );
+  });
+
+  it("should report YAML syntax errors with their line", () => {
+    expect(() => parseConfig("provider:\n  name: [openai\n", "test.yaml")).toThrow(
+      /YAML syntax error/,
+    );
   });
 
   it("should throw for a nonexistent config file", () => {
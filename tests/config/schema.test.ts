@@ -0,0 +1,186 @@
+/**
+ * Tests for config schema validation.
+ *
+ * Verifies:
+ *   - The default config is valid
+ *   - Type, enum, range and required-key problems are all collected
+ *   - Cross-field rules (mapping term, unique persona names) are enforced
+ *   - Persona provider overrides accept a name or a full provider config
+ *   - Persona length ranges need a bound and must be in order
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateConfig } from "../../src/config/schema.js";
+import { defaultConfig, mergeConfig } from "../../src/config/defaults.js";
+
+/** Merge a partial config over the defaults, as the loader does */
+function withDefaults(override: Record<string, unknown>): unknown {
+  return mergeConfig(
+    defaultConfig() as unknown as Record<string, unknown>,
+    override,
+  );
+}
+
+describe("validateConfig", () => {
+  it("should accept the default config", () => {
+    expect(validateConfig(defaultConfig())).toEqual([]);
+  });
+
+  it("should collect type and required-key problems", () => {
+    const issues = validateConfig(
+      withDefaults({
+        provider: { model: 42 },
+        personas: [{ name: "Reader", tone: "nice" }],
+      }),
+    );
+
+    expect(issues).toEqual([
+      { path: "provider.model", message: "must be a string (got number)" },
+      { path: "personas.0.description", message: "is required" },
+    ]);
+  });
+
+  it("should require a numeric term for number mapping", () => {
+    expect(
+      validateConfig(withDefaults({ github: { mapping: "number" } })),
+    ).toEqual([
+      { path: "github.term", message: 'is required for "number" mapping' },
+    ]);
+    expect(
+      validateConfig(withDefaults({ github: { mapping: "number", term: "abc" } })),
+    ).toEqual([
+      {
+        path: "github.term",
+        message: 'must be a discussion number for "number" mapping (got "abc")',
+      },
+    ]);
+  });
+
+  it("should reject duplicate persona names", () => {
+    const persona = { name: "Reader", description: "Reads", tone: "nice" };
+    expect(validateConfig(withDefaults({ personas: [persona, persona] }))).toEqual([
+      {
+        path: "personas",
+        message: 'persona names must be unique ("Reader" appears more than once)',
+      },
+    ]);
+  });
+
+  it("should validate persona provider overrides", () => {
+    const persona = { description: "Reads", tone: "nice" };
+    const issues = validateConfig(
+      withDefaults({
+        personas: [
+          { ...persona, name: "A", provider: "claude", model: "claude-sonnet-4-5", temperature: 1 },
+          { ...persona, name: "B", provider: [{ name: "ollama", model: "llama3" }] },
+          { ...persona, name: "C", provider: "claude" },
+          { ...persona, name: "D", provider: 3 },
+          { ...persona, name: "E", provider: { name: "gemini" }, topP: 2 },
+        ],
+      }),
+    );
+
+    expect(issues).toEqual([
+      { path: "personas.2.model", message: 'is required when "provider" is a provider name' },
+      { path: "personas.3.provider", message: "must be a string, a mapping or a list (got number)" },
+      { path: "personas.4.provider.model", message: "is required" },
+      { path: "personas.4.topP", message: "must be at most 1 (got 2)" },
+    ]);
+  });
+
+  it("should validate the judge section", () => {
+    expect(
+      validateConfig(withDefaults({ judge: { provider: "claude", model: "claude-haiku-4-5", threshold: 4 } })),
+    ).toEqual([]);
+    expect(validateConfig(withDefaults({ judge: { provider: "claude", threshold: 6, revisions: -1 } }))).toEqual([
+      { path: "judge.threshold", message: "must be at most 5 (got 6)" },
+      { path: "judge.revisions", message: "must be at least 0 (got -1)" },
+      { path: "judge.model", message: 'is required when "provider" is a provider name' },
+    ]);
+  });
+
+  it("should validate the moderation section", () => {
+    expect(
+      validateConfig(
+        withDefaults({
+          moderation: {
+            blockedWords: ["synergy"],
+            allowedUrls: ["https://docs.rs/"],
+            provider: { name: "openai", ignoreCategories: ["violence"] },
+          },
+        }),
+      ),
+    ).toEqual([]);
+    expect(
+      validateConfig(
+        withDefaults({
+          moderation: {
+            allowedUrls: ["docs.rs"],
+            provider: { name: "Perspective API", apiKeyEnv: "MY-KEY" },
+          },
+        }),
+      ),
+    ).toEqual([
+      { path: "moderation.allowedUrls.0", message: 'must be an absolute URL (got "docs.rs")' },
+      {
+        path: "moderation.provider.name",
+        message: 'must be "openai", or a plugin module path or package name (got "Perspective API")',
+      },
+      {
+        path: "moderation.provider.apiKeyEnv",
+        message: 'must be an environment variable name (got "MY-KEY")',
+      },
+    ]);
+  });
+
+  it("should validate the approval section", () => {
+    expect(validateConfig(withDefaults({ approval: { target: "issue", label: "drafts" } }))).toEqual([]);
+    expect(
+      validateConfig(withDefaults({ approval: { target: "pr", label: "Approved" } })),
+    ).toEqual([
+      { path: "approval.target", message: 'must be one of file, issue (got "pr")' },
+      { path: "approval.approvedLabel", message: 'must differ from "label" (both are "approved")' },
+    ]);
+  });
+
+  it("should validate persona length ranges", () => {
+    const persona = { description: "Reads", tone: "nice" };
+    const issues = validateConfig(
+      withDefaults({
+        personas: [
+          { ...persona, name: "A", length: { min: 50, max: 200, unit: "characters" }, language: "ko" },
+          { ...persona, name: "B", length: { unit: "words" } },
+          { ...persona, name: "C", length: { min: 4, max: 2 } },
+          { ...persona, name: "D", length: { max: 3, unit: "pages" } },
+        ],
+      }),
+    );
+
+    expect(issues).toEqual([
+      { path: "personas.1.length", message: 'needs "min", "max" or both' },
+      { path: "personas.2.length.max", message: "must be at least min (4)" },
+      {
+        path: "personas.3.length.unit",
+        message: 'must be one of paragraphs, sentences, words, characters (got "pages")',
+      },
+    ]);
+  });
+
+  it("should reject a site base URL that isn't http(s)", () => {
+    expect(
+      validateConfig(withDefaults({ site: { baseUrl: "example.com" } })),
+    ).toEqual([
+      { path: "site.baseUrl", message: 'must be an absolute URL (got "example.com")' },
+    ]);
+  });
+});
+
+describe("mergeConfig", () => {
+  it("should replace arrays instead of merging them", () => {
+    const merged = mergeConfig(
+      { personas: [1, 2], limits: { a: 1, b: 2 } },
+      { personas: [3], limits: { b: 5 } },
+    );
+    expect(merged).toEqual({ personas: [3], limits: { a: 1, b: 5 } });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Tests for publishing approved drafts.
+ *
+ * Uses a mocked publisher and a temp pending file to verify:
+ *   - Only approved drafts are posted, labeled, and recorded in the state
+ *   - Replies go under their thread's comment, or wait for it to be published
+ *   - Published drafts leave the pending file; the rest stay
+ *   - Draft issues are published once approved, then closed
+ *   - Dry runs post nothing and leave the drafts alone
+ *   - A failure partway keeps what was posted out of the next run
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GiscusBotConfig } from "../../src/config/types.js";
+
+vi.mock("../../src/core/publisher.js", () => ({
+  findOrCreateDiscussion: vi.fn(),
+  addComment: vi.fn(),
+  addReply: vi.fn(),
+  getLabeledIssues: vi.fn(),
+  closeIssue: vi.fn(),
+  updateIssue: vi.fn(),
+}));
+
+import { publish } from "../../src/core/approval.js";
+import { loadPending, parseDraftIssue, renderDraftIssue, savePending } from "../../src/core/drafts.js";
+import type { PendingPost } from "../../src/core/drafts.js";
+import * as publisher from "../../src/core/publisher.js";
+import { emptyState, recordPost } from "../../src/core/state.js";
+
+const mockFindOrCreate = vi.mocked(publisher.findOrCreateDiscussion);
+const mockAddComment = vi.mocked(publisher.addComment);
+const mockAddReply = vi.mocked(publisher.addReply);
+const mockGetIssues = vi.mocked(publisher.getLabeledIssues);
+const mockCloseIssue = vi.mocked(publisher.closeIssue);
+const mockUpdateIssue = vi.mocked(publisher.updateIssue);
+
+const PREFIX = "🤖 AI";
+
+const baseConfig: GiscusBotConfig = {
+  provider: { name: "openai", model: "gpt-4o" },
+  github: { repo: "user/blog", discussionCategory: "Blog Comments" },
+  personas: [],
+  limits: { maxPersonas: 3, postsPerRun: 1 },
+  labeling: { prefix: PREFIX },
+};
+
+/** Three drafts: a comment, a reply to it, and another top-level comment */
+function pendingPost(approved: boolean[]): PendingPost {
+  const draft = (persona: string, comment: string, i: number, replyTo?: string) => ({
+    persona,
+    provider: "openai",
+    model: "gpt-4o",
+    ...(replyTo ? { replyTo } : {}),
+    approved: approved[i],
+    comment,
+  });
+  return {
+    post: "_posts/rust.md",
+    title: "Moving to Rust",
+    url: "https://blog.example.com/rust/",
+    discussion: { term: "rust", hash: "abc", strict: false, body: "Body" },
+    createdAt: "2024-01-02T09:00:00.000Z",
+    drafts: [
+      draft("Curious Reader", "What did you benchmark?", 0),
+      draft("Skeptic", "The post never says.", 1, "Curious Reader"),
+      draft("Optimist", "Halved latency is great. What's next?", 2),
+    ],
+  };
+}
+
+let dir: string;
+let path: string;
+let config: GiscusBotConfig;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  dir = mkdtempSync(join(tmpdir(), "giscus-bot-approval-"));
+  path = join(dir, "pending.yaml");
+  config = { ...baseConfig, approval: { path } };
+  mockFindOrCreate.mockResolvedValue({ id: "D_1", url: "https://github.com/user/blog/discussions/1" });
+  let id = 0;
+  mockAddComment.mockImplementation(async () => ({ id: `C_${++id}` }));
+  mockAddReply.mockResolvedValue({ id: "R_1" });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("publish from the pending file", () => {
+  it("should post approved drafts, replies in their thread, and record them", async () => {
+    savePending([pendingPost([true, true, false])], path);
+    const state = emptyState();
+
+    const result = await publish(config, { state });
+
+    expect(mockFindOrCreate).toHaveBeenCalledWith("user", "blog", "Blog Comments", {
+      term: "rust",
+      hash: "abc",
+      strict: false,
+      body: "Body",
+    });
+    expect(mockAddComment).toHaveBeenCalledWith(
+      "D_1",
+      `${PREFIX} · Persona: Curious Reader\n\nWhat did you benchmark?`,
+    );
+    expect(mockAddReply).toHaveBeenCalledWith(
+      "D_1",
+      "C_1",
+      `${PREFIX} · Persona: Skeptic\n\nThe post never says.`,
+      PREFIX,
+    );
+    expect(result).toEqual({
+      posts: [
+        expect.objectContaining({
+          source: path,
+          discussionUrl: "https://github.com/user/blog/discussions/1",
+          published: [
+            expect.objectContaining({ personaName: "Curious Reader", commentId: "C_1" }),
+            expect.objectContaining({ personaName: "Skeptic", commentId: "R_1" }),
+          ],
+          skipped: [],
+        }),
+      ],
+      waiting: 1,
+    });
+    expect(state.posts["_posts/rust.md"].comments).toEqual([
+      expect.objectContaining({ id: "C_1", personaName: "Curious Reader" }),
+      expect.objectContaining({ id: "R_1", personaName: "Skeptic", replyToId: "C_1" }),
+    ]);
+    // The unapproved draft stays for a later review
+    expect(loadPending(path)[0].drafts.map((d) => d.persona)).toEqual(["Optimist"]);
+  });
+
+  it("should hold back a reply until its thread is published", async () => {
+    savePending([pendingPost([false, true, true])], path);
+
+    const result = await publish(config, { state: emptyState() });
+
+    expect(mockAddReply).not.toHaveBeenCalled();
+    expect(result.posts[0].skipped).toEqual([
+      { personaName: "Skeptic", reason: "it replies in Curious Reader's thread, which isn't published" },
+    ]);
+    expect(loadPending(path)[0].drafts.map((d) => d.persona)).toEqual(["Curious Reader", "Skeptic"]);
+  });
+
+  it("should reply under a comment published in an earlier run", async () => {
+    savePending([pendingPost([false, true, false])], path);
+    const state = emptyState();
+    recordPost(state, "_posts/rust.md", {
+      title: "Moving to Rust",
+      url: "https://blog.example.com/rust/",
+      discussionId: "D_1",
+      discussionUrl: "https://github.com/user/blog/discussions/1",
+      comments: [
+        { id: "C_9", personaName: "Curious Reader", provider: "openai", model: "gpt-4o", createdAt: "" },
+      ],
+    });
+
+    await publish(config, { state });
+
+    expect(mockAddReply).toHaveBeenCalledWith("D_1", "C_9", expect.any(String), PREFIX);
+  });
+
+  it("should drop the post from the file once every draft is published", async () => {
+    savePending([pendingPost([true, true, true])], path);
+
+    const result = await publish(config);
+
+    expect(result.waiting).toBe(0);
+    expect(loadPending(path)).toEqual([]);
+  });
+
+  it("should record and remove what was posted when a later draft fails", async () => {
+    savePending([pendingPost([true, false, true])], path);
+    mockAddComment
+      .mockResolvedValueOnce({ id: "C_1" })
+      .mockRejectedValueOnce(new Error("GitHub is down"));
+    const state = emptyState();
+
+    await expect(publish(config, { state })).rejects.toThrow("GitHub is down");
+
+    expect(state.posts["_posts/rust.md"].comments.map((c) => c.id)).toEqual(["C_1"]);
+    const [left] = loadPending(path);
+    expect(left.drafts.map((d) => [d.persona, d.approved])).toEqual([
+      ["Skeptic", false],
+      ["Optimist", true],
+    ]);
+  });
+
+  it("should post nothing and keep the drafts in a dry run", async () => {
+    savePending([pendingPost([true, false, false])], path);
+
+    const result = await publish(config, { dryRun: true });
+
+    expect(mockFindOrCreate).not.toHaveBeenCalled();
+    expect(mockAddComment).not.toHaveBeenCalled();
+    expect(result.posts[0].published).toEqual([
+      {
+        personaName: "Curious Reader",
+        formattedComment: `${PREFIX} · Persona: Curious Reader\n\nWhat did you benchmark?`,
+        commentId: undefined,
+      },
+    ]);
+    expect(loadPending(path)[0].drafts).toHaveLength(3);
+  });
+});
+
+describe("publish from draft issues", () => {
+  const issueConfig = (): GiscusBotConfig => ({ ...baseConfig, approval: { target: "issue" } });
+
+  it("should publish checked drafts of approved issues and close them", async () => {
+    const body = renderDraftIssue(pendingPost([true, false, true])).body;
+    mockGetIssues.mockResolvedValue([
+      { id: "I_1", number: 1, url: "https://github.com/user/blog/issues/1", body, labels: ["giscus-bot", "Approved"] },
+      { id: "I_2", number: 2, url: "https://github.com/user/blog/issues/2", body, labels: ["giscus-bot"] },
+      { id: "I_3", number: 3, url: "https://github.com/user/blog/issues/3", body: "A bug", labels: ["approved"] },
+    ]);
+
+    const result = await publish(issueConfig(), { state: emptyState() });
+
+    expect(mockGetIssues).toHaveBeenCalledWith("user", "blog", "giscus-bot");
+    expect(mockAddComment).toHaveBeenCalledTimes(2);
+    expect(result.posts.map((p) => p.source)).toEqual(["https://github.com/user/blog/issues/1"]);
+    expect(result.waiting).toBe(3);
+    expect(mockCloseIssue).toHaveBeenCalledWith(
+      "I_1",
+      "Published 2 comment(s) to https://github.com/user/blog/discussions/1: Curious Reader, Optimist",
+    );
+  });
+
+  it("should take posted drafts out of an issue that fails partway and leave it open", async () => {
+    mockGetIssues.mockResolvedValue([
+      {
+        id: "I_1",
+        number: 1,
+        url: "https://github.com/user/blog/issues/1",
+        body: renderDraftIssue(pendingPost([true, false, true])).body,
+        labels: ["approved"],
+      },
+    ]);
+    mockAddComment
+      .mockResolvedValueOnce({ id: "C_1" })
+      .mockRejectedValueOnce(new Error("GitHub is down"));
+
+    await expect(publish(issueConfig())).rejects.toThrow("GitHub is down");
+
+    expect(mockCloseIssue).not.toHaveBeenCalled();
+    const [id, body, comment] = mockUpdateIssue.mock.calls[0];
+    expect(id).toBe("I_1");
+    expect(parseDraftIssue(body, "issue #1")?.drafts.map((d) => [d.persona, d.approved])).toEqual([
+      ["Skeptic", false],
+      ["Optimist", true],
+    ]);
+    expect(comment).toContain("Published 1 comment(s) to https://github.com/user/blog/discussions/1: Curious Reader");
+    expect(comment).toContain("Publishing the rest failed (GitHub is down)");
+  });
+
+  it("should leave an approved issue with nothing checked open", async () => {
+    mockGetIssues.mockResolvedValue([
+      {
+        id: "I_1",
+        number: 1,
+        url: "https://github.com/user/blog/issues/1",
+        body: renderDraftIssue(pendingPost([false, false, false])).body,
+        labels: ["approved"],
+      },
+    ]);
+
+    await publish(issueConfig());
+
+    expect(mockFindOrCreate).not.toHaveBeenCalled();
+    expect(mockCloseIssue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for blog content discovery.
+ *
+ * Builds a small fake blog checkout in a temp directory to verify:
+ *   - Include / exclude globs and extensions pick the right files
+ *   - Drafts, unpublished and future-dated posts are skipped
+ *   - Posts with broken front matter are skipped with a warning
+ *   - Symlinks are only followed when enabled
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  scanBlogPosts,
+  createPostMatcher,
+  resolveContentConfig,
+} from "../../src/core/content.js";
+
+const ROOT = join(import.meta.dirname, "content-fixtures");
+
+/** Write a file (creating parent dirs) with optional front matter */
+function write(path: string, frontMatter = "title: Post"): void {
+  const full = join(ROOT, path);
+  mkdirSync(dirname(full), { recursive: true });
+  writeFileSync(full, `---\n${frontMatter}\n---\n\nContent.\n`);
+}
+
+describe("scanBlogPosts", () => {
+  beforeEach(() => {
+    mkdirSync(ROOT, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(ROOT, { recursive: true, force: true });
+  });
+
+  it("should find posts in the default directories and skip READMEs", () => {
+    write("_posts/2024-01-01-hello.md");
+    write("_posts/README.md");
+    write("content/about.mdx");
+    write("docs/guide.md");
+
+    expect(scanBlogPosts(undefined, ROOT)).toEqual([
+      join("_posts", "2024-01-01-hello.md"),
+      join("content", "about.mdx"),
+    ]);
+  });
+
+  it("should honor custom include and exclude globs", () => {
+    write("src/content/blog/first/index.md");
+    write("src/content/blog/second/index.md");
+    write("src/content/blog/second/notes.md");
+    write("src/content/blog/wip/index.md");
+
+    const posts = scanBlogPosts(
+      {
+        include: ["src/content/blog/**/index.md"],
+        exclude: ["**/wip/**"],
+      },
+      ROOT,
+    );
+
+    expect(posts).toEqual([
+      join("src", "content", "blog", "first", "index.md"),
+      join("src", "content", "blog", "second", "index.md"),
+    ]);
+  });
+
+  it("should only accept the configured extensions", () => {
+    write("posts/a.md");
+    write("posts/b.markdown");
+
+    expect(
+      scanBlogPosts({ include: ["posts/**"], extensions: ["markdown"] }, ROOT),
+    ).toEqual([join("posts", "b.markdown")]);
+  });
+
+  it("should skip drafts, unpublished and future-dated posts", () => {
+    write("_posts/live.md", "title: Live\ndate: 2024-01-01");
+    write("_posts/draft.md", "title: Draft\ndraft: true");
+    write("_posts/hidden.md", "title: Hidden\npublished: false");
+    write("_posts/scheduled.md", "title: Scheduled\ndate: 2999-01-01");
+
+    expect(scanBlogPosts(undefined, ROOT)).toEqual([join("_posts", "live.md")]);
+  });
+
+  it("should skip a post with broken front matter, naming it in a warning", () => {
+    write("_posts/good.md");
+    write("_posts/broken.md", "title: [unclosed");
+    const warn = vi.fn();
+
+    expect(scanBlogPosts(undefined, ROOT, warn)).toEqual([join("_posts", "good.md")]);
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][0]).toMatch(/^Skipping _posts[/\\]broken\.md: /);
+  });
+
+  it("should follow symlinks only when enabled", () => {
+    write("shared/linked.md");
+    mkdirSync(join(ROOT, "_posts"), { recursive: true });
+    symlinkSync(join(ROOT, "shared"), join(ROOT, "_posts", "shared"));
+
+    expect(scanBlogPosts(undefined, ROOT)).toEqual([]);
+    expect(scanBlogPosts({ followSymlinks: true }, ROOT)).toEqual([
+      join("_posts", "shared", "linked.md"),
+    ]);
+  });
+});
+
+describe("createPostMatcher", () => {
+  it("should match paths by glob and extension without reading files", () => {
+    const isPost = createPostMatcher(resolveContentConfig(undefined));
+
+    expect(isPost("_posts/new.md")).toBe(true);
+    expect(isPost("_posts/README.md")).toBe(false);
+    expect(isPost("_posts/image.png")).toBe(false);
+    expect(isPost("docs/new.md")).toBe(false);
+  });
+});
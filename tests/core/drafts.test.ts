@@ -0,0 +1,210 @@
+/**
+ * Tests for drafts awaiting approval.
+ *
+ * Verifies:
+ *   - The pending file round-trips, with comments as editable block text
+ *   - Hand-edited files with mistakes fail with the field's path
+ *   - Draft issues round-trip, picking up checked boxes and edited text
+ *   - submitDrafts() merges into the file or opens an issue
+ *   - getPendingPersonas() finds personas with drafts waiting on a post
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("../../src/core/publisher.js", () => ({
+  getLabeledIssues: vi.fn(),
+  createIssue: vi.fn(),
+}));
+
+import {
+  getPendingPersonas,
+  loadPending,
+  parseDraftIssue,
+  renderDraftIssue,
+  savePending,
+  submitDrafts,
+} from "../../src/core/drafts.js";
+import type { PendingPost } from "../../src/core/drafts.js";
+import * as publisher from "../../src/core/publisher.js";
+
+const repo = { owner: "user", repo: "blog" };
+
+function pendingPost(overrides: Partial<PendingPost> = {}): PendingPost {
+  return {
+    post: "_posts/2024-01-01-rust.md",
+    title: "Moving to Rust",
+    url: "https://blog.example.com/rust/",
+    discussion: { term: "rust", hash: "abc", strict: false, body: "# Moving to Rust\n\n<!-- sha1: abc -->" },
+    createdAt: "2024-01-02T09:00:00.000Z",
+    drafts: [
+      {
+        persona: "Curious Reader",
+        provider: "openai",
+        model: "gpt-4o",
+        approved: false,
+        comment: "What did you benchmark?\n\nAnd on which machine?",
+      },
+      {
+        persona: "Skeptic",
+        provider: "openai",
+        model: "gpt-4o",
+        replyTo: "Curious Reader",
+        approved: false,
+        comment: "Good question: the post never says.",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  dir = mkdtempSync(join(tmpdir(), "giscus-bot-drafts-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("pending file", () => {
+  it("should round-trip drafts, writing comments as block text", () => {
+    const path = join(dir, "pending.yaml");
+    savePending([pendingPost()], path);
+
+    const text = readFileSync(path, "utf-8");
+    expect(text).toMatch(/^# Comments drafted by giscus-bot/);
+    expect(text).toContain("comment: |-\n          What did you benchmark?\n\n          And on which machine?");
+    expect(loadPending(path)).toEqual([pendingPost()]);
+  });
+
+  it("should load nothing from a missing file", () => {
+    expect(loadPending(join(dir, "missing.yaml"))).toEqual([]);
+  });
+
+  it("should name the field a hand edit broke", () => {
+    const path = join(dir, "pending.yaml");
+    savePending([pendingPost()], path);
+    writeFileSync(path, readFileSync(path, "utf-8").replace("approved: false", "approved: yes"));
+
+    expect(() => loadPending(path)).toThrow(
+      `Invalid drafts in ${path} (posts[0]): drafts[0].approved must be true or false`,
+    );
+
+    writeFileSync(path, "drafts: []\n");
+    expect(() => loadPending(path)).toThrow(`Invalid pending drafts file ${path}: missing "posts" list.`);
+  });
+});
+
+describe("draft issues", () => {
+  it("should render each draft with a checkbox and read it back", () => {
+    const { title, body } = renderDraftIssue(pendingPost());
+
+    expect(title).toBe("AI comment drafts: Moving to Rust");
+    expect(body).toContain("then add the `approved` label");
+    expect(body).toContain("### Skeptic\n_gpt-4o via openai, replying to Curious Reader_\n\n- [ ] Publish this comment");
+    expect(parseDraftIssue(body, "issue #1")).toEqual(pendingPost());
+  });
+
+  it("should pick up checked boxes and edited text, with CRLF line endings", () => {
+    const { body } = renderDraftIssue(pendingPost());
+    const edited = body
+      .replace("- [ ] Publish this comment\n\nGood question", "- [x] Publish this comment\n\nFair question")
+      .replace(/\n/g, "\r\n");
+
+    const post = parseDraftIssue(edited, "issue #1");
+
+    expect(post?.drafts.map((d) => d.approved)).toEqual([false, true]);
+    expect(post?.drafts[1].comment).toBe("Fair question: the post never says.");
+    expect(post?.drafts[0].comment).toBe("What did you benchmark?\n\nAnd on which machine?");
+  });
+
+  it("should keep markers intact when titles contain -->", () => {
+    const post = pendingPost({ title: "Arrows --> everywhere" });
+    expect(parseDraftIssue(renderDraftIssue(post).body, "issue #1")).toEqual(post);
+  });
+
+  it("should ignore issues without drafts and reject damaged ones", () => {
+    expect(parseDraftIssue("Just a bug report", "issue #2")).toBeNull();
+
+    const { body } = renderDraftIssue(pendingPost());
+    expect(() =>
+      parseDraftIssue(body.replace("- [ ] Publish this comment\n\nGood", "Good"), "issue #1"),
+    ).toThrow('Invalid drafts in issue #1: the draft by Skeptic lost its "- [ ] Publish this comment" checkbox');
+    expect(() => parseDraftIssue(body.replace('{"persona":"Skeptic"', '{persona'), "issue #1")).toThrow(
+      "Invalid drafts in issue #1: a giscus-bot marker was edited and is no longer valid JSON",
+    );
+  });
+});
+
+describe("submitDrafts", () => {
+  it("should add drafts to the file, replacing older ones by the same persona", async () => {
+    const path = join(dir, "drafts", "pending.yaml");
+    const approval = { path };
+    const older = pendingPost();
+    older.drafts[1].approved = true;
+    savePending([older], path);
+
+    const newer = pendingPost();
+    newer.drafts = [{ ...newer.drafts[0], comment: "Which benchmark suite?" }];
+    expect(await submitDrafts(newer, approval, repo)).toBe(path);
+
+    const [saved] = loadPending(path);
+    expect(saved.drafts.map((d) => [d.persona, d.comment])).toEqual([
+      ["Skeptic", "Good question: the post never says."],
+      ["Curious Reader", "Which benchmark suite?"],
+    ]);
+  });
+
+  it("should open a labeled draft issue", async () => {
+    vi.mocked(publisher.createIssue).mockResolvedValue({
+      id: "I_1",
+      url: "https://github.com/user/blog/issues/1",
+    });
+
+    const url = await submitDrafts(
+      pendingPost(),
+      { target: "issue", label: "needs-review", approvedLabel: "ship-it" },
+      repo,
+    );
+
+    expect(url).toBe("https://github.com/user/blog/issues/1");
+    const [owner, name, title, body, label] = vi.mocked(publisher.createIssue).mock.calls[0];
+    expect([owner, name, title, label]).toEqual([
+      "user",
+      "blog",
+      "AI comment drafts: Moving to Rust",
+      "needs-review",
+    ]);
+    expect(body).toContain("add the `ship-it` label");
+  });
+});
+
+describe("getPendingPersonas", () => {
+  it("should read personas with drafts on the post from the file", async () => {
+    const path = join(dir, "pending.yaml");
+    savePending([pendingPost(), pendingPost({ post: "_posts/other.md" })], path);
+
+    const personas = await getPendingPersonas({ path }, "_posts/2024-01-01-rust.md", null);
+    expect([...personas]).toEqual(["Curious Reader", "Skeptic"]);
+    expect([...(await getPendingPersonas({ path }, "_posts/new.md", null))]).toEqual([]);
+  });
+
+  it("should read draft issues, except in dry-run mode", async () => {
+    vi.mocked(publisher.getLabeledIssues).mockResolvedValue([
+      { id: "I_1", number: 1, url: "u1", body: renderDraftIssue(pendingPost()).body, labels: [] },
+      { id: "I_2", number: 2, url: "u2", body: "Not drafts", labels: [] },
+    ]);
+
+    const personas = await getPendingPersonas({ target: "issue" }, "_posts/2024-01-01-rust.md", repo);
+    expect([...personas]).toEqual(["Curious Reader", "Skeptic"]);
+    expect(publisher.getLabeledIssues).toHaveBeenCalledWith("user", "blog", "giscus-bot");
+
+    await getPendingPersonas({ target: "issue" }, "_posts/2024-01-01-rust.md", null);
+    expect(publisher.getLabeledIssues).toHaveBeenCalledTimes(1);
+  });
+});
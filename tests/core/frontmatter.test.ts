@@ -0,0 +1,121 @@
+/**
+ * Tests for front matter parsing.
+ *
+ * Verifies:
+ *   - YAML (---), TOML (+++) and JSON front matter are detected and parsed
+ *   - Multi-line YAML values work
+ *   - Files without front matter are returned as-is
+ *   - Metadata is normalized across the key spellings of common generators
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseFrontMatter, toPostMetadata } from "../../src/core/frontmatter.js";
+
+describe("parseFrontMatter", () => {
+  it("should parse YAML front matter, including multi-line values", () => {
+    const { format, data, body } = parseFrontMatter(
+      [
+        "---",
+        "title: >-",
+        "  A Long Title That",
+        "  Spans Lines",
+        "tags:",
+        "  - rust",
+        "  - databases",
+        "---",
+        "",
+        "Body text.",
+      ].join("\n"),
+    );
+
+    expect(format).toBe("yaml");
+    expect(data.title).toBe("A Long Title That Spans Lines");
+    expect(data.tags).toEqual(["rust", "databases"]);
+    expect(body.trim()).toBe("Body text.");
+  });
+
+  it("should parse TOML front matter", () => {
+    const { format, data, body } = parseFrontMatter(
+      [
+        "+++",
+        'title = "Hugo Post"',
+        "date = 2024-03-01T10:00:00Z",
+        'tags = ["go", "hugo"]',
+        "+++",
+        "",
+        "Hugo body.",
+      ].join("\n"),
+    );
+
+    expect(format).toBe("toml");
+    expect(data.title).toBe("Hugo Post");
+    expect(toPostMetadata(data).date?.toISOString()).toBe("2024-03-01T10:00:00.000Z");
+    expect(body.trim()).toBe("Hugo body.");
+  });
+
+  it("should parse JSON front matter", () => {
+    const { format, data, body } = parseFrontMatter(
+      '{\n  "title": "JSON {Post}",\n  "draft": false\n}\n\nJSON body.',
+    );
+
+    expect(format).toBe("json");
+    expect(data.title).toBe("JSON {Post}");
+    expect(body.trim()).toBe("JSON body.");
+  });
+
+  it("should return the file unchanged when there's no front matter", () => {
+    const raw = "# Heading\n\n---\n\nText.";
+    const { format, data, body } = parseFrontMatter(raw);
+
+    expect(format).toBeNull();
+    expect(data).toEqual({});
+    expect(body).toBe(raw);
+  });
+
+  it("should throw on malformed front matter", () => {
+    expect(() => parseFrontMatter("+++\ntitle = \n+++\n")).toThrow();
+  });
+});
+
+describe("toPostMetadata", () => {
+  it("should normalize common key spellings", () => {
+    const metadata = toPostMetadata({
+      title: "Post",
+      pubDate: "2025-01-02",
+      tag: "rust, async",
+      category: "programming",
+      summary: "What this post is about.",
+      authors: [{ name: "Alice" }, "Bob"],
+      canonicalURL: "https://blog.example.com/post/",
+      slug: "post",
+      lang: "ko",
+      draft: "true",
+    });
+
+    expect(metadata).toEqual({
+      title: "Post",
+      date: new Date("2025-01-02"),
+      tags: ["rust", "async"],
+      categories: ["programming"],
+      description: "What this post is about.",
+      author: "Alice, Bob",
+      canonicalUrl: "https://blog.example.com/post/",
+      slug: "post",
+      permalink: undefined,
+      language: "ko",
+      draft: true,
+      published: undefined,
+    });
+  });
+
+  it("should split space-separated Jekyll tags", () => {
+    expect(toPostMetadata({ tags: "rust databases" }).tags).toEqual([
+      "rust",
+      "databases",
+    ]);
+  });
+
+  it("should ignore unparseable dates", () => {
+    expect(toPostMetadata({ date: "someday" }).date).toBeUndefined();
+  });
+});
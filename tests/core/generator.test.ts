@@ -9,9 +9,17 @@
  *   - Comments are formatted with the AI label prefix
  *   - Dry-run mode skips publishing
  *   - Normal mode calls publisher for each comment
+ *   - Personas that already commented are skipped and the budget refilled
+ *   - The state store feeds dedup and records posted comments
+ *   - The provider and model that wrote each comment are recorded and labeled
+ *   - Post metadata, timing and token usage are reported
+ *   - Personas with their own provider use it instead of the shared one
+ *   - The persona selection strategy and its reasons are reported
+ *   - Conversation mode threads replies, within the depth and reply limits
+ *   - Approval mode drafts comments for review instead of posting them
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { GiscusBotConfig } from "../../src/config/types.js";
 import type { AIProvider, PostContext } from "../../src/providers/base.js";
 
@@ -22,18 +30,35 @@ vi.mock("../../src/core/scraper.js", () => ({
 
 // Mock the publisher — we don't want real GitHub API calls
 vi.mock("../../src/core/publisher.js", () => ({
+  findMappedDiscussion: vi.fn(),
+  getDiscussionBotComments: vi.fn(),
+  getDiscussionComments: vi.fn(),
+  parseBotPersona: (body: string, prefix: string) =>
+    body.startsWith(`${prefix} · Persona: `) ? "bot" : null,
   findOrCreateDiscussion: vi.fn(),
   addComment: vi.fn(),
+  addReply: vi.fn(),
+  createIssue: vi.fn(),
+  getLabeledIssues: vi.fn(),
 }));
 
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { generate } from "../../src/core/generator.js";
 import { extractPost } from "../../src/core/scraper.js";
 import * as publisher from "../../src/core/publisher.js";
+import { emptyState, recordPost } from "../../src/core/state.js";
+import { loadPending } from "../../src/core/drafts.js";
 
 // Cast mocks for type-safe access to mock methods
 const mockExtractPost = vi.mocked(extractPost);
+const mockFindDiscussion = vi.mocked(publisher.findMappedDiscussion);
+const mockGetBotComments = vi.mocked(publisher.getDiscussionBotComments);
+const mockGetComments = vi.mocked(publisher.getDiscussionComments);
 const mockFindOrCreate = vi.mocked(publisher.findOrCreateDiscussion);
 const mockAddComment = vi.mocked(publisher.addComment);
+const mockAddReply = vi.mocked(publisher.addReply);
 
 // Fake post context returned by the mocked scraper
 const fakePostContext: PostContext = {
@@ -69,7 +94,10 @@ describe("generate", () => {
     vi.clearAllMocks();
     // Scraper always returns our fake post
     mockExtractPost.mockResolvedValue(fakePostContext);
-    // Publisher mocks
+    // Publisher mocks — no existing discussion by default
+    mockFindDiscussion.mockResolvedValue(null);
+    mockGetBotComments.mockResolvedValue(new Set());
+    mockGetComments.mockResolvedValue([]);
     mockFindOrCreate.mockResolvedValue({
       id: "D_1",
       url: "https://github.com/user/blog/discussions/1",
@@ -135,6 +163,30 @@ describe("generate", () => {
     expect(mockAddComment).toHaveBeenCalledTimes(2);
   });
 
+  it("should map the post to its discussion using the configured mapping", async () => {
+    await generate(
+      "https://blog.example.com/post",
+      {
+        ...testConfig,
+        github: { ...testConfig.github, mapping: "pathname" },
+      },
+      fakeProvider,
+    );
+
+    // giscus's pathname term drops the leading slash and becomes the title
+    expect(mockFindDiscussion).toHaveBeenCalledWith(
+      "user",
+      "blog",
+      expect.objectContaining({ term: "post", strict: false }),
+    );
+    expect(mockFindOrCreate).toHaveBeenCalledWith(
+      "user",
+      "blog",
+      "Blog Comments",
+      expect.objectContaining({ term: "post" }),
+    );
+  });
+
   it("should pass the scraped post context to the provider", async () => {
     await generate(
       "https://blog.example.com/post",
@@ -148,6 +200,710 @@ describe("generate", () => {
     expect(generateComment).toHaveBeenCalledWith(
       fakePostContext,
       expect.objectContaining({ name: "Curious Reader" }),
+      { onSource: expect.any(Function), onUsage: expect.any(Function) },
+    );
+  });
+
+  it("should skip personas that already commented and fill the budget from the rest", async () => {
+    mockFindDiscussion.mockResolvedValueOnce({
+      id: "D_1",
+      url: "https://github.com/user/blog/discussions/1",
+    });
+    mockGetBotComments.mockResolvedValueOnce(new Set(["Curious Reader"]));
+
+    const result = await generate(
+      "https://blog.example.com/post",
+      testConfig,
+      fakeProvider,
+    );
+
+    // Curious Reader already posted, so the next two personas fill the budget
+    expect(result.skippedPersonas).toEqual(["Curious Reader"]);
+    expect(result.comments.map((c) => c.personaName)).toEqual([
+      "Devil's Advocate",
+      "Third Persona",
+    ]);
+    expect(mockGetBotComments).toHaveBeenCalledWith("D_1", "🤖 **AI Comment**");
+    // The existing discussion is reused without another lookup
+    expect(mockFindOrCreate).not.toHaveBeenCalled();
+    expect(mockAddComment).toHaveBeenCalledTimes(2);
+  });
+
+  it("should post nothing when every persona has already commented", async () => {
+    mockFindDiscussion.mockResolvedValueOnce({
+      id: "D_1",
+      url: "https://github.com/user/blog/discussions/1",
+    });
+    mockGetBotComments.mockResolvedValueOnce(
+      new Set(["Curious Reader", "Devil's Advocate", "Third Persona"]),
+    );
+
+    const result = await generate(
+      "https://blog.example.com/post",
+      testConfig,
+      fakeProvider,
+    );
+
+    expect(result.comments).toHaveLength(0);
+    expect(result.skippedPersonas).toHaveLength(3);
+    expect(fakeProvider.generateComment).not.toHaveBeenCalled();
+    expect(mockAddComment).not.toHaveBeenCalled();
+  });
+
+  it("should skip personas recorded in the state, even in dry-run mode", async () => {
+    const state = emptyState();
+    recordPost(state, fakePostContext.url, {
+      title: fakePostContext.title,
+      url: fakePostContext.url,
+      discussionId: "D_1",
+      discussionUrl: "https://github.com/user/blog/discussions/1",
+      comments: [{
+        id: "C_0",
+        personaName: "Devil's Advocate",
+        provider: "fake",
+        model: "gpt-4o",
+        createdAt: "2026-01-01T00:00:00.000Z",
+      }],
+    });
+
+    const result = await generate(
+      "https://blog.example.com/post",
+      testConfig,
+      fakeProvider,
+      { dryRun: true, state },
     );
+
+    expect(result.skippedPersonas).toEqual(["Devil's Advocate"]);
+    expect(result.comments.map((c) => c.personaName)).toEqual([
+      "Curious Reader",
+      "Third Persona",
+    ]);
+  });
+
+  it("should record posted comments in the state under the post key", async () => {
+    const state = emptyState();
+    mockAddComment
+      .mockResolvedValueOnce({ id: "C_1" })
+      .mockResolvedValueOnce({ id: "C_2" });
+
+    const result = await generate(
+      fakePostContext,
+      testConfig,
+      fakeProvider,
+      { state, postKey: "_posts/test.md" },
+    );
+
+    expect(result.comments.map((c) => c.commentId)).toEqual(["C_1", "C_2"]);
+    const post = state.posts["_posts/test.md"];
+    expect(post.discussionId).toBe("D_1");
+    expect(post.comments).toEqual([
+      expect.objectContaining({ id: "C_1", personaName: "Curious Reader", provider: "fake", model: "gpt-4o" }),
+      expect.objectContaining({ id: "C_2", personaName: "Devil's Advocate" }),
+    ]);
+  });
+
+  it("should record the comments posted before a later one failed", async () => {
+    const state = emptyState();
+    mockAddComment
+      .mockResolvedValueOnce({ id: "C_1" })
+      .mockRejectedValueOnce(new Error("GitHub is down"));
+
+    await expect(
+      generate(fakePostContext, testConfig, fakeProvider, { state, postKey: "_posts/test.md" }),
+    ).rejects.toThrow("GitHub is down");
+
+    expect(state.posts["_posts/test.md"].comments).toEqual([
+      expect.objectContaining({ id: "C_1", personaName: "Curious Reader" }),
+    ]);
+  });
+
+  it("should report the post's metadata and timing, leaving usage unset when not reported", async () => {
+    mockExtractPost.mockResolvedValueOnce({
+      ...fakePostContext,
+      date: new Date("2024-01-01T00:00:00Z"),
+      tags: ["testing"],
+    });
+
+    const result = await generate(
+      "https://blog.example.com/post",
+      testConfig,
+      fakeProvider,
+      { dryRun: true },
+    );
+
+    expect(result.postMetadata).toMatchObject({
+      date: new Date("2024-01-01T00:00:00Z"),
+      tags: ["testing"],
+    });
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(result.comments[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(result.comments[0]).not.toHaveProperty("usage");
+  });
+
+  it("should record and label the backend a fallback chain reports", async () => {
+    const chainProvider: AIProvider = {
+      name: "claude → openai",
+      model: "claude-sonnet-4-5",
+      generateComment: vi.fn(async (_ctx, persona, options) => {
+        options?.onSource?.({ provider: "openai", model: "gpt-4o-mini" });
+        return `Comment from ${persona.name}`;
+      }),
+    };
+    const state = emptyState();
+
+    const result = await generate(
+      "https://blog.example.com/post",
+      {
+        ...testConfig,
+        limits: { maxPersonas: 1, postsPerRun: 1 },
+        labeling: { prefix: "🤖 **AI Comment**", showModel: true },
+      },
+      chainProvider,
+      { state },
+    );
+
+    expect(result.comments[0]).toMatchObject({ provider: "openai", model: "gpt-4o-mini" });
+    expect(result.comments[0].formattedComment).toBe(
+      "🤖 **AI Comment** · Persona: Curious Reader · Model: gpt-4o-mini (openai)\n\nComment from Curious Reader",
+    );
+    expect(state.posts["https://blog.example.com/post"].comments[0]).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o-mini",
+    });
+  });
+
+  it("should use a persona's own provider when one is given", async () => {
+    const claude: AIProvider = {
+      name: "claude",
+      generateComment: vi.fn(async () => "From Claude"),
+    };
+    const config: GiscusBotConfig = {
+      ...testConfig,
+      personas: [
+        testConfig.personas[0],
+        { ...testConfig.personas[1], provider: "claude", model: "claude-sonnet-4-5" },
+      ],
+    };
+
+    const result = await generate("https://blog.example.com/post", config, fakeProvider, {
+      dryRun: true,
+      personaProviders: new Map([["Devil's Advocate", claude]]),
+    });
+
+    expect(fakeProvider.generateComment).toHaveBeenCalledTimes(1);
+    expect(claude.generateComment).toHaveBeenCalledTimes(1);
+    expect(result.comments[0]).toMatchObject({ provider: "fake", model: "gpt-4o" });
+    expect(result.comments[1]).toMatchObject({
+      personaName: "Devil's Advocate",
+      provider: "claude",
+      model: "claude-sonnet-4-5",
+      comment: "From Claude",
+    });
+  });
+
+  it("should pick personas with the configured strategy and report why", async () => {
+    const config: GiscusBotConfig = {
+      ...testConfig,
+      personas: [
+        ...testConfig.personas,
+        { name: "Tester", description: "Testing nerd", tone: "precise", topics: ["testing"] },
+      ],
+      limits: { maxPersonas: 2, postsPerRun: 1, personaSelection: "tag-matched" },
+    };
+
+    const result = await generate("https://blog.example.com/post", config, fakeProvider, {
+      dryRun: true,
+    });
+
+    expect(result.comments.map((c) => c.personaName)).toEqual(["Tester"]);
+    expect(result.personaSelection).toEqual({
+      strategy: "tag-matched",
+      choices: [{ personaName: "Tester", reason: 'matched "testing" in text' }],
+    });
+  });
+
+  describe("conversation mode", () => {
+    const fourPersonas: GiscusBotConfig["personas"] = [
+      { name: "A", description: "a", tone: "a" },
+      { name: "B", description: "b", tone: "b" },
+      { name: "C", description: "c", tone: "c" },
+      { name: "D", description: "d", tone: "d" },
+    ];
+
+    it("should show earlier comments to later personas and reply to the opener", async () => {
+      mockAddComment.mockResolvedValueOnce({ id: "C_A" });
+      mockAddReply.mockResolvedValueOnce({ id: "C_B" }).mockResolvedValueOnce({ id: "C_C" });
+      const state = emptyState();
+
+      const result = await generate(
+        "https://blog.example.com/post",
+        {
+          ...testConfig,
+          personas: fourPersonas.slice(0, 3),
+          limits: { maxPersonas: 3, postsPerRun: 1 },
+          conversation: {},
+        },
+        fakeProvider,
+        { state },
+      );
+
+      const calls = vi.mocked(fakeProvider.generateComment).mock.calls;
+      expect(calls[0][0].thread).toBeUndefined();
+      expect(calls[1][0].thread).toEqual({
+        comments: [{ author: "A", body: "Comment from A", isReply: false }],
+        replyTo: "A",
+      });
+      // maxDepth 1: every reply answers the opening comment
+      expect(calls[2][0].thread?.replyTo).toBe("A");
+      expect(calls[2][0].thread?.comments[1]).toEqual({
+        author: "B",
+        body: "Comment from B",
+        isReply: true,
+      });
+
+      expect(mockAddComment).toHaveBeenCalledTimes(1);
+      expect(mockAddReply).toHaveBeenCalledTimes(2);
+      expect(mockAddReply).toHaveBeenCalledWith(
+        "D_1",
+        "C_A",
+        "🤖 **AI Comment** · Persona: B\n\nComment from B",
+        "🤖 **AI Comment**",
+      );
+      expect(result.comments.map((c) => c.inReplyTo)).toEqual([undefined, "A", "A"]);
+      expect(state.posts["https://blog.example.com/post"].comments[2]).toMatchObject({
+        id: "C_C",
+        replyToId: "C_A",
+      });
+    });
+
+    it("should let replies answer replies up to maxDepth", async () => {
+      const result = await generate(
+        "https://blog.example.com/post",
+        {
+          ...testConfig,
+          personas: fourPersonas,
+          limits: { maxPersonas: 4, postsPerRun: 1 },
+          conversation: { maxDepth: 2 },
+        },
+        fakeProvider,
+        { dryRun: true },
+      );
+
+      // B answers A, C answers B (depth 2), D goes back to B (depth 2 again)
+      expect(result.comments.map((c) => c.inReplyTo)).toEqual([undefined, "A", "B", "B"]);
+    });
+
+    it("should post top-level comments once maxReplies is used up", async () => {
+      const result = await generate(
+        "https://blog.example.com/post",
+        {
+          ...testConfig,
+          personas: fourPersonas,
+          limits: { maxPersonas: 4, postsPerRun: 1 },
+          conversation: { maxReplies: 1 },
+        },
+        fakeProvider,
+        { dryRun: true },
+      );
+
+      expect(result.comments.map((c) => c.inReplyTo)).toEqual([undefined, "A", undefined, undefined]);
+      // Top-level comments still see the conversation, but reply to nobody
+      const calls = vi.mocked(fakeProvider.generateComment).mock.calls;
+      expect(calls[2][0].thread?.replyTo).toBeUndefined();
+      expect(calls[2][0].thread?.comments).toHaveLength(2);
+    });
+
+    it("should stay off when disabled", async () => {
+      const result = await generate(
+        "https://blog.example.com/post",
+        { ...testConfig, conversation: { enabled: false } },
+        fakeProvider,
+        { dryRun: true },
+      );
+
+      expect(result.comments.map((c) => c.inReplyTo)).toEqual([undefined, undefined]);
+      expect(vi.mocked(fakeProvider.generateComment).mock.calls[1][0].thread).toBeUndefined();
+    });
+  });
+
+  describe("quality gate", () => {
+    const goodComment =
+      "The part about testing content stood out to me. How do you decide which content deserves a test first?";
+    const qualityConfig: GiscusBotConfig = {
+      ...testConfig,
+      limits: { maxPersonas: 1 },
+      quality: { regenerations: 1 },
+    };
+
+    it("should regenerate a comment that fails and report why", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi
+          .fn()
+          .mockResolvedValueOnce("Great article!")
+          .mockResolvedValueOnce(goodComment),
+      };
+
+      const result = await generate("https://blog.example.com/post", qualityConfig, provider, {
+        dryRun: true,
+      });
+
+      expect(provider.generateComment).toHaveBeenCalledTimes(2);
+      expect(result.comments.map((c) => c.comment)).toEqual([goodComment]);
+      expect(result.rejectedComments).toEqual([
+        {
+          personaName: "Curious Reader",
+          attempt: 1,
+          reasons: expect.arrayContaining(['contains banned phrase "great article"']),
+        },
+      ]);
+      expect(result.droppedPersonas).toEqual([]);
+    });
+
+    it("should add up the tokens every try used", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi
+          .fn()
+          .mockImplementationOnce(async (_ctx, _persona, options) => {
+            options?.onUsage?.({ inputTokens: 800, outputTokens: 10 });
+            return "Great article!";
+          })
+          .mockImplementationOnce(async (_ctx, _persona, options) => {
+            options?.onUsage?.({ inputTokens: 820, outputTokens: 40 });
+            return goodComment;
+          }),
+      };
+
+      const result = await generate("https://blog.example.com/post", qualityConfig, provider, {
+        dryRun: true,
+      });
+
+      expect(result.comments[0].usage).toEqual({ inputTokens: 1620, outputTokens: 50 });
+      expect(result.comments[0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should drop a persona whose tries all fail, and post nothing for it", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async () => "Nice post!"),
+      };
+
+      const result = await generate("https://blog.example.com/post", qualityConfig, provider);
+
+      expect(provider.generateComment).toHaveBeenCalledTimes(2);
+      expect(result.comments).toEqual([]);
+      expect(result.rejectedComments.map((r) => r.attempt)).toEqual([1, 2]);
+      expect(result.droppedPersonas).toEqual(["Curious Reader"]);
+      expect(mockFindOrCreate).not.toHaveBeenCalled();
+      expect(mockAddComment).not.toHaveBeenCalled();
+    });
+
+    it("should reject near-duplicates of comments already on the discussion", async () => {
+      mockFindDiscussion.mockResolvedValue({
+        id: "D_1",
+        url: "https://github.com/user/blog/discussions/1",
+      });
+      mockGetComments.mockResolvedValue([`🤖 **AI Comment** · Persona: Skeptic\n\n${goodComment}`]);
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async () => goodComment),
+      };
+
+      const result = await generate("https://blog.example.com/post", qualityConfig, provider);
+
+      expect(mockGetComments).toHaveBeenCalledWith("D_1");
+      expect(result.droppedPersonas).toEqual(["Curious Reader"]);
+      expect(result.rejectedComments[0].reasons).toEqual([
+        "near-duplicate of an existing comment (similarity 1.00)",
+      ]);
+    });
+
+    it("should not check comments without a quality section", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async () => "Great article!"),
+      };
+
+      const result = await generate("https://blog.example.com/post", testConfig, provider, {
+        dryRun: true,
+      });
+
+      expect(result.comments).toHaveLength(2);
+      expect(result.rejectedComments).toEqual([]);
+      expect(mockGetComments).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("LLM judge", () => {
+    const judgeConfig: GiscusBotConfig = {
+      ...testConfig,
+      limits: { maxPersonas: 1 },
+      judge: { threshold: 3 },
+    };
+    const verdict = (faithfulness: number, feedback = "") =>
+      JSON.stringify({ faithfulness, specificity: 4, tone: 4, feedback });
+
+    /** A provider that writes drafts, and a judge that returns the given verdicts */
+    function setup(...verdicts: string[]) {
+      const writer: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async (_ctx, _persona, options) =>
+          options?.prompt ? "Revised comment" : "Draft comment",
+        ),
+      };
+      const judge: AIProvider = { name: "judge", generateComment: vi.fn() };
+      for (const reply of verdicts) {
+        vi.mocked(judge.generateComment).mockResolvedValueOnce(reply);
+      }
+      return { writer, judge };
+    }
+
+    it("should keep drafts the judge passes, with their scores", async () => {
+      const { writer, judge } = setup(verdict(5));
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, writer, {
+        dryRun: true,
+        judgeProvider: judge,
+      });
+
+      expect(result.comments[0].comment).toBe("Draft comment");
+      expect(result.comments[0].judgeScores).toEqual({ faithfulness: 5, specificity: 4, tone: 4 });
+      expect(vi.mocked(judge.generateComment).mock.calls[0][2]?.prompt?.user).toContain(
+        "Draft comment",
+      );
+    });
+
+    it("should revise a low-scoring draft with the judge's feedback", async () => {
+      const { writer, judge } = setup(verdict(1, "Nothing about benchmarks in the post."), verdict(4));
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, writer, {
+        dryRun: true,
+        judgeProvider: judge,
+      });
+
+      expect(result.comments[0].comment).toBe("Revised comment");
+      const revision = vi.mocked(writer.generateComment).mock.calls[1][2]?.prompt;
+      expect(revision?.user).toContain("Your draft comment:\n\nDraft comment");
+      expect(revision?.user).toContain("Nothing about benchmarks in the post.");
+      expect(result.rejectedComments).toEqual([
+        {
+          personaName: "Curious Reader",
+          attempt: 1,
+          reasons: [
+            "judge: faithfulness 1/5, specificity 4/5, tone 4/5 — Nothing about benchmarks in the post.",
+          ],
+          judgeScores: { faithfulness: 1, specificity: 4, tone: 4 },
+        },
+      ]);
+    });
+
+    it("should drop a persona once its revisions run out", async () => {
+      const { writer, judge } = setup(verdict(1), verdict(2));
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, writer, {
+        dryRun: true,
+        judgeProvider: judge,
+      });
+
+      expect(writer.generateComment).toHaveBeenCalledTimes(2);
+      expect(result.comments).toEqual([]);
+      expect(result.droppedPersonas).toEqual(["Curious Reader"]);
+    });
+
+    it("should count a verdict that isn't JSON as failed instead of aborting the run", async () => {
+      const { writer, judge } = setup("Looks good to me!", verdict(4));
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, writer, {
+        dryRun: true,
+        judgeProvider: judge,
+      });
+
+      expect(writer.generateComment).toHaveBeenCalledTimes(2);
+      expect(result.comments[0].comment).toBe("Draft comment");
+      expect(result.rejectedComments).toEqual([
+        {
+          personaName: "Curious Reader",
+          attempt: 1,
+          reasons: ["The judge returned an invalid verdict (no JSON object): Looks good to me!"],
+        },
+      ]);
+
+      // Once the revisions run out, the persona is dropped like any other failure
+      const { writer: again, judge: rambling } = setup("Fine.", "Still fine.");
+      const dropped = await generate("https://blog.example.com/post", judgeConfig, again, {
+        dryRun: true,
+        judgeProvider: rambling,
+      });
+      expect(dropped.droppedPersonas).toEqual(["Curious Reader"]);
+    });
+
+    it("should report the judge's time and tokens apart from the writer's", async () => {
+      const { writer, judge } = setup();
+      vi.mocked(judge.generateComment).mockImplementationOnce(async (_ctx, _persona, options) => {
+        options?.onUsage?.({ inputTokens: 300, outputTokens: 20 });
+        return verdict(5);
+      });
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, writer, {
+        dryRun: true,
+        judgeProvider: judge,
+      });
+
+      expect(result.comments[0]).not.toHaveProperty("usage");
+      expect(result.comments[0].judgeUsage).toEqual({ inputTokens: 300, outputTokens: 20 });
+      expect(result.comments[0].judgeDurationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should run on the top-level provider without a judge provider", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async (_ctx, _persona, options) =>
+          options?.prompt ? verdict(5) : "Draft comment",
+        ),
+      };
+
+      const result = await generate("https://blog.example.com/post", judgeConfig, provider, {
+        dryRun: true,
+      });
+
+      expect(provider.generateComment).toHaveBeenCalledTimes(2);
+      expect(result.comments[0].judgeScores?.faithfulness).toBe(5);
+    });
+  });
+
+  describe("moderation", () => {
+    const moderationConfig: GiscusBotConfig = { ...testConfig, moderation: {} };
+
+    it("should block comments that fail moderation and not post them", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async (_ctx, persona) =>
+          persona.name === "Curious Reader"
+            ? "Ask @octocat about it?"
+            : `Comment from ${persona.name}`,
+        ),
+      };
+
+      const result = await generate("https://blog.example.com/post", moderationConfig, provider);
+
+      expect(result.comments.map((c) => c.personaName)).toEqual(["Devil's Advocate"]);
+      expect(result.blockedComments).toEqual([
+        {
+          personaName: "Curious Reader",
+          reasons: [{ code: "mention", detail: "mentions @octocat" }],
+        },
+      ]);
+      expect(mockAddComment).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass comments to the classifier", async () => {
+      const moderator = {
+        name: "openai",
+        moderate: vi.fn(async (text: string) =>
+          text.includes("Devil's Advocate") ? ["harassment"] : [],
+        ),
+      };
+
+      const result = await generate("https://blog.example.com/post", moderationConfig, fakeProvider, {
+        dryRun: true,
+        moderator,
+      });
+
+      expect(moderator.moderate).toHaveBeenCalledTimes(2);
+      expect(result.comments.map((c) => c.personaName)).toEqual(["Curious Reader"]);
+      expect(result.blockedComments[0].reasons).toEqual([
+        { code: "classifier", detail: "openai flagged harassment" },
+      ]);
+    });
+
+    it("should skip moderation when disabled", async () => {
+      const provider: AIProvider = {
+        name: "fake",
+        generateComment: vi.fn(async () => "Ask @octocat about it?"),
+      };
+
+      const result = await generate(
+        "https://blog.example.com/post",
+        { ...testConfig, moderation: { enabled: false } },
+        provider,
+        { dryRun: true },
+      );
+
+      expect(result.comments).toHaveLength(2);
+      expect(result.blockedComments).toEqual([]);
+    });
+  });
+
+  describe("approval mode", () => {
+    let dir: string;
+    let approvalConfig: GiscusBotConfig;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "giscus-bot-generate-"));
+      approvalConfig = {
+        ...testConfig,
+        conversation: {},
+        approval: { path: join(dir, "pending.yaml") },
+      };
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should write drafts for review instead of posting", async () => {
+      const state = emptyState();
+
+      const result = await generate("https://blog.example.com/post", approvalConfig, fakeProvider, {
+        state,
+      });
+
+      expect(mockFindOrCreate).not.toHaveBeenCalled();
+      expect(mockAddComment).not.toHaveBeenCalled();
+      expect(mockAddReply).not.toHaveBeenCalled();
+      expect(state.posts).toEqual({});
+      expect(result.draftsAt).toBe(join(dir, "pending.yaml"));
+
+      const [pending] = loadPending(join(dir, "pending.yaml"));
+      expect(pending.post).toBe("https://blog.example.com/post");
+      expect(pending.discussion.term).toBe("Test Post Title");
+      expect(pending.drafts).toEqual([
+        {
+          persona: "Curious Reader",
+          provider: "fake",
+          model: "gpt-4o",
+          approved: false,
+          comment: "Comment from Curious Reader",
+        },
+        {
+          persona: "Devil's Advocate",
+          provider: "fake",
+          model: "gpt-4o",
+          replyTo: "Curious Reader",
+          approved: false,
+          comment: "Comment from Devil's Advocate",
+        },
+      ]);
+    });
+
+    it("should skip personas whose drafts are waiting", async () => {
+      await generate("https://blog.example.com/post", approvalConfig, fakeProvider);
+      const result = await generate("https://blog.example.com/post", approvalConfig, fakeProvider);
+
+      expect(result.skippedPersonas).toEqual(["Curious Reader", "Devil's Advocate"]);
+      expect(result.comments.map((c) => c.personaName)).toEqual(["Third Persona"]);
+      expect(loadPending(join(dir, "pending.yaml"))[0].drafts).toHaveLength(3);
+    });
+
+    it("should write nothing in a dry run", async () => {
+      const result = await generate("https://blog.example.com/post", approvalConfig, fakeProvider, {
+        dryRun: true,
+      });
+
+      expect(result.comments).toHaveLength(2);
+      expect(result.draftsAt).toBeNull();
+      expect(loadPending(join(dir, "pending.yaml"))).toEqual([]);
+    });
   });
 });
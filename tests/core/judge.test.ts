@@ -0,0 +1,106 @@
+/**
+ * Tests for the LLM judge.
+ *
+ * Uses a fake provider to verify:
+ *   - The judge's own prompts go through GenerateOptions.prompt
+ *   - Verdicts are read from JSON, even with text or code fences around it
+ *   - The threshold decides whether a draft passes
+ *   - Malformed verdicts fail with a clear error
+ *   - Revision prompts carry the draft and the feedback
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { describeScores, judgeComment, revisionPrompt } from "../../src/core/judge.js";
+import type { AIProvider, Persona, PostContext } from "../../src/providers/base.js";
+
+const post: PostContext = {
+  url: "https://blog.example.com/rust",
+  title: "Why We Moved Our Parser to Rust",
+  content: "Rewriting the parser in Rust cut latency in half.",
+  excerpt: "Rewriting the parser in Rust cut latency in half.",
+};
+
+const persona: Persona = {
+  name: "Skeptic",
+  description: "Questions claims",
+  tone: "dry",
+};
+
+/** A provider that always answers with the given text */
+function judgeReplying(reply: string): AIProvider {
+  return { name: "fake", generateComment: vi.fn(async () => reply) };
+}
+
+describe("judgeComment", () => {
+  it("should send the post, persona and draft as the judge's prompt", async () => {
+    const provider = judgeReplying(
+      '{"faithfulness": 5, "specificity": 4, "tone": 4, "feedback": ""}',
+    );
+
+    const verdict = await judgeComment(provider, post, persona, "Half? Measured how?", {});
+
+    expect(verdict).toEqual({
+      scores: { faithfulness: 5, specificity: 4, tone: 4 },
+      feedback: "",
+      passed: true,
+    });
+    const [, , options] = vi.mocked(provider.generateComment).mock.calls[0];
+    expect(options?.prompt?.system).toContain("faithfulness");
+    expect(options?.prompt?.user).toContain('Blog post: "Why We Moved Our Parser to Rust"');
+    expect(options?.prompt?.user).toContain("Persona: Skeptic");
+    expect(options?.prompt?.user).toMatch(/Draft comment:\n\nHalf\? Measured how\?$/);
+  });
+
+  it("should fail drafts with any score below the threshold", async () => {
+    const provider = judgeReplying(
+      'Here is my review:\n```json\n{"faithfulness": 2, "specificity": 5, "tone": 5, "feedback": "The post never mentions Go."}\n```',
+    );
+
+    const verdict = await judgeComment(provider, post, persona, "Why not Go?", {});
+    expect(verdict.passed).toBe(false);
+    expect(verdict.feedback).toBe("The post never mentions Go.");
+
+    const lenient = await judgeComment(provider, post, persona, "Why not Go?", { threshold: 2 });
+    expect(lenient.passed).toBe(true);
+  });
+
+  it("should reject replies that aren't a verdict", async () => {
+    await expect(
+      judgeComment(judgeReplying("Looks fine to me."), post, persona, "Hi?", {}),
+    ).rejects.toThrow("The judge returned an invalid verdict (no JSON object)");
+    await expect(
+      judgeComment(
+        judgeReplying('{"faithfulness": 9, "specificity": 4, "tone": 4}'),
+        post,
+        persona,
+        "Hi?",
+        {},
+      ),
+    ).rejects.toThrow('"faithfulness" must be a score from 1 to 5');
+  });
+});
+
+describe("revisionPrompt", () => {
+  it("should follow the comment prompts with the draft and the feedback", () => {
+    const prompt = revisionPrompt(post, persona, "Why not Go?", {
+      scores: { faithfulness: 2, specificity: 5, tone: 5 },
+      feedback: "The post never mentions Go.",
+      passed: false,
+    });
+
+    expect(prompt.system).toContain("Skeptic");
+    expect(prompt.user).toContain("Rewriting the parser in Rust cut latency in half.");
+    expect(prompt.user).toContain("Your draft comment:\n\nWhy not Go?");
+    expect(prompt.user).toContain(
+      "A reviewer scored it faithfulness 2/5, specificity 5/5, tone 5/5 and said: The post never mentions Go.",
+    );
+  });
+});
+
+describe("describeScores", () => {
+  it("should list the scores out of 5", () => {
+    expect(describeScores({ faithfulness: 4, specificity: 3, tone: 5 })).toBe(
+      "faithfulness 4/5, specificity 3/5, tone 5/5",
+    );
+  });
+});
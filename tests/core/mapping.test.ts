@@ -0,0 +1,130 @@
+/**
+ * Tests for giscus-compatible discussion mapping.
+ *
+ * Verifies:
+ *   - Each mapping mode derives the same term giscus would
+ *   - Strict mode hashes the term with SHA-1
+ *   - The discussion body matches giscus's layout
+ *   - "specific" and "number" mapping require github.term
+ */
+
+import { describe, it, expect } from "vitest";
+import type { GithubConfig } from "../../src/config/types.js";
+import type { PostContext } from "../../src/providers/base.js";
+import {
+  hashTerm,
+  resolveTerm,
+  resolveDiscussionTarget,
+  buildDiscussionBody,
+} from "../../src/core/mapping.js";
+
+const post: PostContext = {
+  url: "https://blog.example.com/posts/hello-world.html?giscus=abc&ref=x#comments",
+  title: "Hello World",
+  content: "Some content.",
+  excerpt: "Some content.",
+  ogTitle: "Hello World | My Blog",
+  description: "A first post.",
+};
+
+const github: GithubConfig = {
+  repo: "user/blog",
+  discussionCategory: "General",
+};
+
+describe("resolveTerm", () => {
+  it("should default to the post title", () => {
+    expect(resolveTerm(post, github)).toBe("Hello World");
+  });
+
+  it("should strip the leading slash and extension for pathname mapping", () => {
+    expect(resolveTerm(post, { ...github, mapping: "pathname" })).toBe(
+      "posts/hello-world",
+    );
+  });
+
+  it("should use 'index' for the site root with pathname mapping", () => {
+    expect(
+      resolveTerm({ ...post, url: "https://blog.example.com/" }, { ...github, mapping: "pathname" }),
+    ).toBe("index");
+  });
+
+  it("should drop the hash and giscus param for url mapping", () => {
+    expect(resolveTerm(post, { ...github, mapping: "url" })).toBe(
+      "https://blog.example.com/posts/hello-world.html?ref=x",
+    );
+  });
+
+  it("should map by the post's own URL, not its canonical link", () => {
+    const crossPost = { ...post, canonicalUrl: "https://original.example.com/hello/" };
+    expect(resolveTerm(crossPost, { ...github, mapping: "pathname" })).toBe("posts/hello-world");
+    expect(resolveTerm(crossPost, { ...github, mapping: "url" })).toBe(
+      "https://blog.example.com/posts/hello-world.html?ref=x",
+    );
+  });
+
+  it("should prefer og:title for og:title mapping", () => {
+    expect(resolveTerm(post, { ...github, mapping: "og:title" })).toBe(
+      "Hello World | My Blog",
+    );
+    expect(
+      resolveTerm({ ...post, ogTitle: undefined }, { ...github, mapping: "og:title" }),
+    ).toBe("Hello World");
+  });
+
+  it("should use github.term for specific mapping", () => {
+    expect(
+      resolveTerm(post, { ...github, mapping: "specific", term: "my-term" }),
+    ).toBe("my-term");
+  });
+
+  it("should throw when specific mapping has no term", () => {
+    expect(() => resolveTerm(post, { ...github, mapping: "specific" })).toThrow(
+      'github.term is required for "specific" mapping',
+    );
+  });
+});
+
+describe("resolveDiscussionTarget", () => {
+  it("should hash the term with SHA-1", () => {
+    const target = resolveDiscussionTarget(post, { ...github, strict: true });
+
+    // sha1("Hello World")
+    expect(target.hash).toBe("0a4d55a8d778e5022fab701977c5d840bbc486d0");
+    expect(hashTerm("Hello World")).toBe(target.hash);
+    expect(target.strict).toBe(true);
+  });
+
+  it("should parse the discussion number for number mapping", () => {
+    const target = resolveDiscussionTarget(post, {
+      ...github,
+      mapping: "number",
+      term: "42",
+    });
+    expect(target.number).toBe(42);
+  });
+
+  it("should reject a non-numeric term for number mapping", () => {
+    expect(() =>
+      resolveDiscussionTarget(post, { ...github, mapping: "number", term: "abc" }),
+    ).toThrow("must be a discussion number");
+  });
+});
+
+describe("buildDiscussionBody", () => {
+  it("should include the title, description, link and hash marker", () => {
+    expect(buildDiscussionBody(post, "abc123")).toBe(
+      [
+        "# Hello World",
+        "A first post.",
+        post.url,
+        "<!-- sha1: abc123 -->",
+      ].join("\n\n"),
+    );
+  });
+
+  it("should omit the description when the post has none", () => {
+    const body = buildDiscussionBody({ ...post, description: undefined }, "abc123");
+    expect(body).not.toContain("A first post.");
+  });
+});
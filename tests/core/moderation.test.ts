@@ -0,0 +1,155 @@
+/**
+ * Tests for comment moderation.
+ *
+ * Verifies:
+ *   - Clean comments pass
+ *   - Profanity, slurs and configured words are blocked, masked in the detail
+ *   - Everyday words containing a slur ("spicy") are not
+ *   - Links must come from the post or the allowed prefixes
+ *   - @-mentions are blocked unless allowed, and ignored inside code
+ *   - Copying the system prompt is caught
+ *   - The classifier runs after the local rules and honors ignored categories
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { describeReasons, moderateComment } from "../../src/core/moderation.js";
+import type { ModerationInput } from "../../src/core/moderation.js";
+import type { Moderator, PostContext } from "../../src/providers/base.js";
+
+const post: PostContext = {
+  url: "https://blog.example.com/rust/",
+  title: "Why We Moved Our Parser to Rust",
+  content: "We followed [the book](https://doc.rust-lang.org/book/). Latency halved.",
+  excerpt: "Latency halved.",
+};
+
+const input: ModerationInput = {
+  post,
+  persona: { name: "Skeptic", description: "Questions claims", tone: "dry" },
+};
+
+const clean = "Halving latency is a big claim. How did you measure it?";
+
+describe("moderateComment", () => {
+  it("should pass a clean comment", async () => {
+    expect(await moderateComment(clean, input, {})).toEqual([]);
+  });
+
+  it("should block profanity, slurs and configured words, masking them", async () => {
+    const reasons = await moderateComment(
+      "What the fuck, this is bullshit. Also, synergy!",
+      input,
+      { blockedWords: ["Synergy"] },
+    );
+
+    expect(reasons).toEqual([
+      { code: "profanity", detail: 'contains "f**k"' },
+      { code: "profanity", detail: 'contains "b******t"' },
+      { code: "blocked-word", detail: 'contains "synergy"' },
+    ]);
+    expect(
+      await moderateComment("What the fuck?", input, { profanity: false }),
+    ).toEqual([]);
+    // Whole words only
+    expect(await moderateComment("Scunthorpe shitake mushrooms?", input, {})).toEqual([]);
+  });
+
+  it("should block slurs and their inflections, but not everyday words that contain them", async () => {
+    expect(await moderateComment("Only spics and retards would ship this.", input, {})).toEqual([
+      { code: "slur", detail: 'contains "s***s"' },
+      { code: "slur", detail: 'contains "r*****s"' },
+    ]);
+    for (const comment of [
+      "That's a spicy take on Rust async.",
+      "The benchmark is the chink in the armor of this argument.",
+      "Chinks of light show through the design.",
+      "Spices aside, the parser is faster.",
+    ]) {
+      expect(await moderateComment(comment, input, {}), comment).toEqual([]);
+    }
+  });
+
+  it("should block links that aren't in the post", async () => {
+    const comment =
+      "See https://doc.rust-lang.org/book/ and https://blog.example.com/rust. Also https://evil.example/x, " +
+      "and https://docs.rs/nom.";
+
+    expect(await moderateComment(comment, input, {})).toEqual([
+      { code: "url", detail: "links to https://evil.example/x, which isn't in the post" },
+      { code: "url", detail: "links to https://docs.rs/nom, which isn't in the post" },
+    ]);
+    expect(
+      (await moderateComment(comment, input, { allowedUrls: ["https://docs.rs/"] })).map(
+        (r) => r.detail,
+      ),
+    ).toEqual(["links to https://evil.example/x, which isn't in the post"]);
+  });
+
+  it("should only allow URLs under an allowed prefix's origin and path", async () => {
+    const allowedUrls = ["https://docs.python.org/", "https://example.com/book"];
+    const comment =
+      "See https://docs.python.org/3/library/ and https://example.com/book/ch1, " +
+      "not https://docs.python.org.evil.net/x, https://example.com/bookmarks or http://docs.python.org/3/.";
+
+    expect(
+      (await moderateComment(comment, input, { allowedUrls })).map((r) => r.detail),
+    ).toEqual([
+      "links to https://docs.python.org.evil.net/x, which isn't in the post",
+      "links to https://example.com/bookmarks, which isn't in the post",
+      "links to http://docs.python.org/3/, which isn't in the post",
+    ]);
+  });
+
+  it("should block @-mentions unless allowed, ignoring code and emails", async () => {
+    const comment =
+      "@octocat and @Alice, what about `@Override`, me@example.com and @types/node?";
+
+    expect(await moderateComment(comment, input, {})).toEqual([
+      { code: "mention", detail: "mentions @octocat" },
+      { code: "mention", detail: "mentions @Alice" },
+    ]);
+    expect(
+      await moderateComment(comment, { ...input, allowedMentions: ["alice"] }, {
+        allowedMentions: ["@octocat"],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should catch a comment repeating the system prompt", async () => {
+    const leak =
+      "Sure! My instructions: You are a blog commenter with the following persona: Skeptic. What next?";
+
+    expect(await moderateComment(leak, input, {})).toEqual([
+      { code: "prompt-leak", detail: "repeats part of the system prompt" },
+    ]);
+  });
+
+  it("should ask the classifier only about comments the local rules pass", async () => {
+    const moderator: Moderator = {
+      name: "openai",
+      moderate: vi.fn(async () => ["harassment", "violence"]),
+    };
+
+    expect(await moderateComment(clean, input, {}, moderator)).toEqual([
+      { code: "classifier", detail: "openai flagged harassment, violence" },
+    ]);
+    expect(
+      await moderateComment(clean, input, { provider: { name: "openai", ignoreCategories: ["harassment", "violence"] } }, moderator),
+    ).toEqual([]);
+
+    vi.mocked(moderator.moderate).mockClear();
+    await moderateComment("@octocat?", input, {}, moderator);
+    expect(moderator.moderate).not.toHaveBeenCalled();
+  });
+});
+
+describe("describeReasons", () => {
+  it("should list reasons with their codes", () => {
+    expect(
+      describeReasons([
+        { code: "url", detail: "links to https://x.dev, which isn't in the post" },
+        { code: "mention", detail: "mentions @a" },
+      ]),
+    ).toBe("[url] links to https://x.dev, which isn't in the post; [mention] mentions @a");
+  });
+});
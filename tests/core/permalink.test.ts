@@ -0,0 +1,98 @@
+/**
+ * Tests for permalink-based post URLs.
+ *
+ * Verifies:
+ *   - Jekyll- and Hugo-style templates expand from the file name and front matter
+ *   - Front-matter permalink and slug override the template
+ *   - The base URL is joined without losing its path
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildPostUrl,
+  expandPermalink,
+  slugify,
+} from "../../src/core/permalink.js";
+
+describe("expandPermalink", () => {
+  it("should expand a Jekyll template from the dated file name", () => {
+    expect(
+      expandPermalink("/:year/:month/:day/:title/", "_posts/2024-01-05-foo-bar.md", {}),
+    ).toBe("/2024/01/05/foo-bar/");
+  });
+
+  it("should prefer the front-matter date over the file name", () => {
+    expect(
+      expandPermalink("/:year/:month/:title/", "_posts/2024-01-05-foo.md", {
+        date: new Date("2025-11-20"),
+      }),
+    ).toBe("/2025/11/foo/");
+  });
+
+  it("should slugify the title for Hugo's :slug", () => {
+    expect(
+      expandPermalink("/posts/:slug/", "content/posts/whatever.md", {
+        title: "Hello, World: Part 2",
+      }),
+    ).toBe("/posts/hello-world-part-2/");
+  });
+
+  it("should use the front-matter slug for :slug and :title", () => {
+    const metadata = { title: "Ignored", slug: "custom" };
+    expect(expandPermalink("/:slug/", "posts/a.md", metadata)).toBe("/custom/");
+    expect(expandPermalink("/:title/", "posts/a.md", metadata)).toBe("/custom/");
+  });
+
+  it("should use the bundle directory name for index.md files", () => {
+    expect(
+      expandPermalink("/blog/:filename/", "src/content/blog/my-post/index.md", {}),
+    ).toBe("/blog/my-post/");
+  });
+
+  it("should collapse the slashes left by empty categories", () => {
+    expect(
+      expandPermalink("/:categories/:title/", "_posts/2024-01-05-foo.md", {}),
+    ).toBe("/foo/");
+    expect(
+      expandPermalink("/:categories/:title/", "_posts/2024-01-05-foo.md", {
+        categories: ["Dev Notes", "DB"],
+      }),
+    ).toBe("/dev-notes/db/foo/");
+  });
+
+  it("should throw when a date token has no date", () => {
+    expect(() => expandPermalink("/:year/:title/", "posts/undated.md", {})).toThrow(
+      'Permalink token ":year" needs a date',
+    );
+  });
+});
+
+describe("buildPostUrl", () => {
+  it("should return null without a base URL", () => {
+    expect(buildPostUrl("_posts/2024-01-05-foo.md", {}, undefined)).toBeNull();
+  });
+
+  it("should keep the base URL's path", () => {
+    expect(
+      buildPostUrl("_posts/2024-01-05-foo.md", {}, {
+        baseUrl: "https://example.com/blog/",
+        permalink: "/:year/:title/",
+      }),
+    ).toBe("https://example.com/blog/2024/foo/");
+  });
+
+  it("should let a front-matter permalink override the template", () => {
+    expect(
+      buildPostUrl("_posts/2024-01-05-foo.md", { permalink: "/about-foo/" }, {
+        baseUrl: "https://example.com",
+        permalink: "/:year/:title/",
+      }),
+    ).toBe("https://example.com/about-foo/");
+  });
+});
+
+describe("slugify", () => {
+  it("should keep non-Latin letters", () => {
+    expect(slugify("MySQL 격리 수준!")).toBe("mysql-격리-수준");
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for persona selection strategies.
+ *
+ * Verifies:
+ *   - first keeps config order and honors exclusions and the count
+ *   - random and weighted use the random source; weight 0 never goes
+ *   - round-robin continues after the persona that posted last
+ *   - tag-matched ranks tag matches over text matches, matches whole
+ *     words (and Korean substrings), and falls back to general personas
+ */
+
+import { describe, it, expect } from "vitest";
+import type { PersonaConfig } from "../../src/config/types.js";
+import type { PostContext } from "../../src/providers/base.js";
+import { selectPersonas } from "../../src/core/personas.js";
+import { emptyState, recordPost } from "../../src/core/state.js";
+
+const persona = (name: string, extra: Partial<PersonaConfig> = {}): PersonaConfig => ({
+  name,
+  description: `${name} description`,
+  tone: "neutral",
+  ...extra,
+});
+
+const post: PostContext = {
+  url: "https://blog.example.com/post",
+  title: "Tuning Postgres",
+  content: "Some notes on query planning. Good stuff.",
+  excerpt: "",
+  tags: ["Databases", "performance"],
+};
+
+const names = (choices: { persona: PersonaConfig }[]): string[] =>
+  choices.map((choice) => choice.persona.name);
+
+describe("selectPersonas", () => {
+  const personas = [persona("A"), persona("B"), persona("C"), persona("D")];
+
+  it("should pick the first personas in config order, skipping excluded ones", () => {
+    const choices = selectPersonas(personas, {
+      count: 2,
+      strategy: "first",
+      post,
+      exclude: new Set(["A"]),
+    });
+
+    expect(names(choices)).toEqual(["B", "C"]);
+    expect(choices[0].reason).toBe("in config order");
+  });
+
+  it("should shuffle with the random source", () => {
+    const choices = selectPersonas(personas, {
+      count: 4,
+      strategy: "random",
+      post,
+      random: () => 0,
+    });
+
+    expect(names(choices)).toEqual(["B", "C", "D", "A"]);
+  });
+
+  it("should favor heavier personas and never pick weight 0", () => {
+    const weightedPersonas = [
+      persona("Light", { weight: 1 }),
+      persona("Heavy", { weight: 9 }),
+      persona("Muted", { weight: 0 }),
+    ];
+
+    const choices = selectPersonas(weightedPersonas, {
+      count: 3,
+      strategy: "weighted",
+      post,
+      random: () => 0.5,
+    });
+
+    expect(names(choices)).toEqual(["Heavy", "Light"]);
+    expect(choices[0].reason).toBe("weight 9 of 10");
+  });
+
+  it("should continue round-robin after the persona that posted last", () => {
+    const state = emptyState();
+    const record = (personaName: string, createdAt: string) => ({
+      id: `C_${personaName}`,
+      personaName,
+      provider: "openai",
+      model: "gpt-4o",
+      createdAt,
+    });
+    recordPost(state, "a.md", {
+      title: "A",
+      url: "https://blog.example.com/a",
+      discussionId: "D_1",
+      discussionUrl: null,
+      comments: [record("A", "2024-01-01T00:00:00Z"), record("B", "2024-01-02T00:00:00Z")],
+    });
+
+    const first = selectPersonas(personas, { count: 3, strategy: "round-robin", post, state });
+    expect(names(first)).toEqual(["C", "D", "A"]);
+    expect(first[0].reason).toBe('next in rotation after "B"');
+
+    // A later reply doesn't count as the last comment
+    recordPost(state, "a.md", {
+      title: "A",
+      url: "https://blog.example.com/a",
+      discussionId: "D_1",
+      discussionUrl: null,
+      comments: [{ ...record("D", "2024-01-03T00:00:00Z"), replyToId: "DC_reader" }],
+    });
+    expect(names(selectPersonas(personas, { count: 1, strategy: "round-robin", post, state }))).toEqual([
+      "C",
+    ]);
+
+    // Excluded personas are skipped without shifting the turn
+    const skipping = selectPersonas(personas, {
+      count: 2,
+      strategy: "round-robin",
+      post,
+      state,
+      exclude: new Set(["C"]),
+    });
+    expect(names(skipping)).toEqual(["D", "A"]);
+
+    expect(
+      names(selectPersonas(personas, { count: 2, strategy: "round-robin", post, state: emptyState() })),
+    ).toEqual(["A", "B"]);
+  });
+
+  it("should rank tag matches over text matches", () => {
+    const topical = [
+      persona("Generalist"),
+      persona("Planner", { topics: ["query planning"] }),
+      persona("DBA", { topics: ["databases", "postgres"] }),
+      persona("Gopher", { topics: ["go"] }),
+    ];
+
+    const choices = selectPersonas(topical, { count: 3, strategy: "tag-matched", post });
+
+    expect(names(choices)).toEqual(["DBA", "Planner"]);
+    expect(choices[0].reason).toBe('matched "databases" in tags, "postgres" in text');
+    expect(choices[1].reason).toBe('matched "query planning" in text');
+  });
+
+  it("should match non-ASCII topics inside words", () => {
+    const korean: PostContext = { ...post, tags: [], content: "데이터베이스는 어렵다" };
+    const choices = selectPersonas(
+      [persona("Generalist"), persona("DBA", { topics: ["데이터베이스"] })],
+      { count: 2, strategy: "tag-matched", post: korean },
+    );
+
+    expect(names(choices)).toEqual(["DBA"]);
+  });
+
+  it("should fall back to personas without topics when nothing matches", () => {
+    const choices = selectPersonas(
+      [persona("Rustacean", { topics: ["rust"] }), persona("Generalist")],
+      { count: 2, strategy: "tag-matched", post },
+    );
+
+    expect(names(choices)).toEqual(["Generalist"]);
+    expect(choices[0].reason).toBe("no topics matched the post; general persona");
+  });
+});
@@ -5,10 +5,14 @@
  *   - GraphQL queries/mutations are structured correctly
  *   - findOrCreateDiscussion reuses existing discussions
  *   - findOrCreateDiscussion creates new ones when none exist
+ *   - Strict (hash) and number lookups used by giscus mapping modes
  *   - Error cases (missing category, missing token) are handled
+ *   - Requests are retried, and mutations only on rate limits
+ *   - Draft issues are listed, opened with their label, and closed
+ *   - A category's discussions are listed page by page
  */
 
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 // Mock the @octokit/graphql module.
 // We need to mock the `graphql.defaults()` chain that publisher.ts uses.
@@ -25,8 +29,28 @@ import {
   findDiscussion,
   createDiscussion,
   addComment,
+  addReply,
   findOrCreateDiscussion,
+  findDiscussionByHash,
+  getDiscussionByNumber,
+  getDiscussionCommentCounts,
+  getDiscussionBotComments,
+  getDiscussionComments,
+  getCategoryDiscussions,
+  listCategoryDiscussions,
+  parseBotPersona,
+  getLabeledIssues,
+  createIssue,
+  closeIssue,
+  updateIssue,
 } from "../../src/core/publisher.js";
+import type { DiscussionTarget } from "../../src/core/mapping.js";
+import { DEFAULT_RETRY_POLICY, setRetryPolicy } from "../../src/core/retry.js";
+
+/** Build a non-strict title-mapped discussion target for a term */
+function titleTarget(term: string): DiscussionTarget {
+  return { term, hash: "abc123", strict: false, body: "Body" };
+}
 
 describe("publisher", () => {
   beforeEach(() => {
@@ -129,6 +153,67 @@ describe("publisher", () => {
     });
   });
 
+  describe("findDiscussionByHash", () => {
+    it("should match the sha1 marker in the discussion body", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        search: {
+          nodes: [
+            { id: "D_other", body: "mentions abc123 in passing", url: "https://other" },
+            { id: "D_1", body: "# Post\n\n<!-- sha1: abc123 -->", url: "https://match" },
+          ],
+        },
+      });
+
+      const result = await findDiscussionByHash("user", "blog", "abc123");
+      expect(result).toEqual({ id: "D_1", url: "https://match" });
+    });
+
+    it("should return null when no body carries the hash", async () => {
+      mockGraphql.mockResolvedValueOnce({ search: { nodes: [] } });
+
+      const result = await findDiscussionByHash("user", "blog", "abc123");
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("getDiscussionByNumber", () => {
+    it("should return the discussion with the given number", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        repository: { discussion: { id: "D_42", url: "https://42" } },
+      });
+
+      const result = await getDiscussionByNumber("user", "blog", 42);
+      expect(result).toEqual({ id: "D_42", url: "https://42" });
+      expect(mockGraphql.mock.calls[0][1]).toEqual({
+        owner: "user",
+        repo: "blog",
+        number: 42,
+        // Every request carries the retry layer's timeout signal
+        request: { signal: expect.any(AbortSignal) },
+      });
+    });
+  });
+
+  describe("getDiscussionCommentCounts", () => {
+    it("should map discussion IDs to their comment counts", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        nodes: [
+          { id: "D_1", comments: { totalCount: 3 } },
+          null, // deleted discussion
+        ],
+      });
+
+      const counts = await getDiscussionCommentCounts(["D_1", "D_gone"]);
+      expect(counts).toEqual(new Map([["D_1", 3]]));
+    });
+
+    it("should skip the API call for an empty list", async () => {
+      const counts = await getDiscussionCommentCounts([]);
+      expect(counts.size).toBe(0);
+      expect(mockGraphql).not.toHaveBeenCalled();
+    });
+  });
+
   describe("createDiscussion", () => {
     it("should return the new discussion ID and URL", async () => {
       mockGraphql.mockResolvedValueOnce({
@@ -157,6 +242,293 @@ describe("publisher", () => {
     });
   });
 
+  describe("addReply", () => {
+    it("should reply to a bot comment", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({ node: { body: "🤖 AI · Persona: Curious Reader\n\nHi" } })
+        .mockResolvedValueOnce({ addDiscussionComment: { comment: { id: "C_2" } } });
+
+      const result = await addReply("D_1", "C_1", "🤖 AI · Persona: Skeptic\n\nReally?", "🤖 AI");
+
+      expect(result.id).toBe("C_2");
+      expect(mockGraphql.mock.calls[1][1]).toMatchObject({
+        input: { discussionId: "D_1", replyToId: "C_1", body: "🤖 AI · Persona: Skeptic\n\nReally?" },
+      });
+    });
+
+    it("should refuse to reply to a human comment", async () => {
+      mockGraphql.mockResolvedValueOnce({ node: { body: "A human comment" } });
+
+      await expect(addReply("D_1", "C_1", "Reply", "🤖 AI")).rejects.toThrow(
+        "Refusing to reply to comment C_1: it isn't a giscus-bot comment.",
+      );
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getDiscussionBotComments", () => {
+    it("should read persona names from labels, with or without the model", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        node: {
+          comments: {
+            nodes: [
+              {
+                body: "🤖 AI · Persona: Curious Reader\n\nHi",
+                replies: { nodes: [{ body: "🤖 AI · Persona: Skeptic\n\nReally?" }] },
+              },
+              { body: "🤖 AI · Persona: Devil's Advocate · Model: gpt-4o (openai)\n\nHmm" },
+              { body: "A human comment" },
+            ],
+          },
+        },
+      });
+
+      const personas = await getDiscussionBotComments("D_1", "🤖 AI");
+      expect([...personas]).toEqual(["Curious Reader", "Skeptic", "Devil's Advocate"]);
+    });
+  });
+
+  describe("getDiscussionComments", () => {
+    it("should list comment bodies with their replies in thread order", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        node: {
+          comments: {
+            nodes: [
+              { body: "First", replies: { nodes: [{ body: "Reply" }] } },
+              { body: "Second", replies: { nodes: [] } },
+            ],
+          },
+        },
+      });
+
+      expect(await getDiscussionComments("D_1")).toEqual(["First", "Reply", "Second"]);
+    });
+  });
+
+  describe("parseBotPersona", () => {
+    it("should read the persona from a bot label and ignore other comments", () => {
+      expect(parseBotPersona("🤖 AI · Persona: Skeptic\n\nReally?", "🤖 AI")).toBe("Skeptic");
+      expect(
+        parseBotPersona("🤖 AI · Persona: Skeptic · Model: gpt-4o (openai)\n\nHmm", "🤖 AI"),
+      ).toBe("Skeptic");
+      expect(parseBotPersona("A human comment", "🤖 AI")).toBeNull();
+    });
+  });
+
+  describe("listCategoryDiscussions", () => {
+    it("should follow the pages until the last one", async () => {
+      const discussion = (n: number) => ({
+        id: `D_${n}`,
+        number: n,
+        title: `Post ${n}`,
+        url: `https://github.com/user/blog/discussions/${n}`,
+        body: "",
+      });
+      mockGraphql
+        .mockResolvedValueOnce({
+          repository: {
+            discussions: {
+              nodes: [discussion(1)],
+              pageInfo: { hasNextPage: true, endCursor: "cursor-1" },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          repository: {
+            discussions: {
+              nodes: [discussion(2)],
+              pageInfo: { hasNextPage: false, endCursor: "cursor-2" },
+            },
+          },
+        });
+
+      const discussions = await listCategoryDiscussions("user", "blog", "DIC_1");
+
+      expect(discussions.map((d) => d.id)).toEqual(["D_1", "D_2"]);
+      expect(mockGraphql.mock.calls[0][1]).toMatchObject({ categoryId: "DIC_1", after: null });
+      expect(mockGraphql.mock.calls[1][1]).toMatchObject({ after: "cursor-1" });
+    });
+  });
+
+  describe("getCategoryDiscussions", () => {
+    it("should return discussions as threads with author logins", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        repository: {
+          discussions: {
+            nodes: [
+              {
+                id: "D_1",
+                title: "Post",
+                url: "https://github.com/user/blog/discussions/1",
+                body: "Body",
+                comments: {
+                  nodes: [
+                    {
+                      id: "C_1",
+                      body: "🤖 AI · Persona: Skeptic\n\nReally?",
+                      author: { login: "blog-owner" },
+                      replies: { nodes: [{ id: "R_1", body: "Yes.", author: null }] },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      });
+
+      const discussions = await getCategoryDiscussions("user", "blog", "DIC_1", 10);
+
+      expect(mockGraphql.mock.calls[0][1]).toMatchObject({
+        owner: "user",
+        repo: "blog",
+        categoryId: "DIC_1",
+        first: 10,
+      });
+      expect(discussions).toEqual([
+        {
+          id: "D_1",
+          title: "Post",
+          url: "https://github.com/user/blog/discussions/1",
+          body: "Body",
+          threads: [
+            {
+              comment: { id: "C_1", body: "🤖 AI · Persona: Skeptic\n\nReally?", author: "blog-owner" },
+              replies: [{ id: "R_1", body: "Yes.", author: null }],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("draft issues", () => {
+    it("should list open issues with a label and their label names", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        repository: {
+          issues: {
+            nodes: [
+              {
+                id: "I_1",
+                number: 7,
+                url: "https://github.com/user/blog/issues/7",
+                body: "Drafts",
+                labels: { nodes: [{ name: "giscus-bot" }, { name: "approved" }] },
+              },
+            ],
+          },
+        },
+      });
+
+      const issues = await getLabeledIssues("user", "blog", "giscus-bot");
+
+      expect(mockGraphql.mock.calls[0][1]).toMatchObject({ labels: ["giscus-bot"] });
+      expect(issues).toEqual([
+        {
+          id: "I_1",
+          number: 7,
+          url: "https://github.com/user/blog/issues/7",
+          body: "Drafts",
+          labels: ["giscus-bot", "approved"],
+        },
+      ]);
+    });
+
+    it("should open an issue with the label's ID", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({
+          repository: { id: "R_1", labels: { nodes: [{ id: "L_1", name: "Giscus-Bot" }] } },
+        })
+        .mockResolvedValueOnce({ createIssue: { issue: { id: "I_1", url: "https://github.com/user/blog/issues/1" } } });
+
+      const issue = await createIssue("user", "blog", "Drafts", "Body", "giscus-bot");
+
+      expect(issue.url).toBe("https://github.com/user/blog/issues/1");
+      expect(mockGraphql.mock.calls[1][1]).toMatchObject({
+        input: { repositoryId: "R_1", title: "Drafts", body: "Body", labelIds: ["L_1"] },
+      });
+    });
+
+    it("should refuse to open an issue with a missing label", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        repository: { id: "R_1", labels: { nodes: [{ id: "L_1", name: "bug" }] } },
+      });
+
+      await expect(createIssue("user", "blog", "Drafts", "Body", "giscus-bot")).rejects.toThrow(
+        'Label "giscus-bot" not found in user/blog. Available: bug',
+      );
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+    });
+
+    it("should comment on an issue, then close it", async () => {
+      mockGraphql.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      await closeIssue("I_1", "Published.");
+
+      expect(mockGraphql.mock.calls[0][1]).toMatchObject({
+        input: { subjectId: "I_1", body: "Published." },
+      });
+      expect(mockGraphql.mock.calls[1][1]).toMatchObject({ input: { issueId: "I_1" } });
+    });
+
+    it("should replace an issue's body, then comment on it", async () => {
+      mockGraphql.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      await updateIssue("I_1", "New body", "Why.");
+
+      expect(mockGraphql.mock.calls[0][1]).toMatchObject({ input: { id: "I_1", body: "New body" } });
+      expect(mockGraphql.mock.calls[1][1]).toMatchObject({
+        input: { subjectId: "I_1", body: "Why." },
+      });
+    });
+  });
+
+  describe("retries", () => {
+    beforeEach(() => {
+      setRetryPolicy({ retryDelay: 0, log: () => {} });
+    });
+
+    afterEach(() => {
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
+    });
+
+    it("should retry a query after a server error", async () => {
+      mockGraphql
+        .mockRejectedValueOnce(Object.assign(new Error("Bad Gateway"), { status: 502 }))
+        .mockResolvedValueOnce({
+          repository: { discussion: { id: "D_42", url: "https://42" } },
+        });
+
+      const result = await getDiscussionByNumber("user", "blog", 42);
+      expect(result?.id).toBe("D_42");
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry a rate-limited mutation", async () => {
+      mockGraphql
+        .mockRejectedValueOnce(
+          Object.assign(new Error("You have exceeded a secondary rate limit"), {
+            status: 403,
+            response: { headers: { "retry-after": "0" } },
+          }),
+        )
+        .mockResolvedValueOnce({ addDiscussionComment: { comment: { id: "C_1" } } });
+
+      const result = await addComment("D_1", "Hello world!");
+      expect(result.id).toBe("C_1");
+      expect(mockGraphql).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry a mutation that may have gone through", async () => {
+      mockGraphql.mockRejectedValueOnce(
+        Object.assign(new Error("Bad Gateway"), { status: 502 }),
+      );
+
+      await expect(addComment("D_1", "Hello world!")).rejects.toThrow("Bad Gateway");
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("findOrCreateDiscussion", () => {
     it("should reuse an existing discussion", async () => {
       // findDiscussion succeeds → should NOT call createDiscussion
@@ -169,7 +541,7 @@ describe("publisher", () => {
       });
 
       const result = await findOrCreateDiscussion(
-        "user", "blog", "Blog Comments", "My Post", "Body",
+        "user", "blog", "Blog Comments", titleTarget("My Post"),
       );
 
       expect(result.id).toBe("D_existing");
@@ -199,7 +571,7 @@ describe("publisher", () => {
         });
 
       const result = await findOrCreateDiscussion(
-        "user", "blog", "Blog Comments", "New Post", "Body",
+        "user", "blog", "Blog Comments", titleTarget("New Post"),
       );
 
       expect(result.id).toBe("D_new");
@@ -207,5 +579,60 @@ describe("publisher", () => {
       // Three GraphQL calls: search + getRepoInfo + create
       expect(mockGraphql).toHaveBeenCalledTimes(3);
     });
+
+    it("should create the discussion with the term as title and the giscus body", async () => {
+      mockGraphql
+        .mockResolvedValueOnce({ search: { nodes: [] } })
+        .mockResolvedValueOnce({
+          repository: {
+            id: "R_123",
+            discussionCategories: {
+              nodes: [{ id: "DC_1", name: "Blog Comments" }],
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          createDiscussion: {
+            discussion: { id: "D_new", url: "https://new" },
+          },
+        });
+
+      await findOrCreateDiscussion(
+        "user", "blog", "Blog Comments",
+        { term: "posts/hello", hash: "abc123", strict: false, body: "# Hello" },
+      );
+
+      const input = mockGraphql.mock.calls[2][1].input;
+      expect(input.title).toBe("posts/hello");
+      expect(input.body).toBe("# Hello");
+    });
+
+    it("should search by hash in strict mode", async () => {
+      mockGraphql.mockResolvedValueOnce({
+        search: {
+          nodes: [{ id: "D_1", body: "<!-- sha1: abc123 -->", url: "https://1" }],
+        },
+      });
+
+      const result = await findOrCreateDiscussion(
+        "user", "blog", "Blog Comments",
+        { ...titleTarget("My Post"), strict: true },
+      );
+
+      expect(result.id).toBe("D_1");
+      expect(mockGraphql.mock.calls[0][1].searchQuery).toContain('"abc123" in:body');
+    });
+
+    it("should never create a discussion for number mapping", async () => {
+      mockGraphql.mockResolvedValueOnce({ repository: { discussion: null } });
+
+      await expect(
+        findOrCreateDiscussion(
+          "user", "blog", "Blog Comments",
+          { ...titleTarget("7"), number: 7 },
+        ),
+      ).rejects.toThrow("Discussion #7 not found");
+      expect(mockGraphql).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -0,0 +1,126 @@
+/**
+ * Tests for push event inspection.
+ *
+ * Mocks `git` (via node:child_process) to verify:
+ *   - Added/renamed posts come from `git diff` between before and after
+ *   - The payload's `added` lists are used when git can't diff the range
+ *   - Only paths the post matcher accepts are returned
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { writeFileSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+
+vi.mock("node:child_process", () => ({
+  execFileSync: vi.fn(),
+}));
+
+import { execFileSync } from "node:child_process";
+import {
+  findAddedPosts,
+  readPushEvent,
+  readPushedFiles,
+} from "../../src/core/push.js";
+import type { PushEvent } from "../../src/core/push.js";
+
+const mockExecFileSync = vi.mocked(execFileSync);
+
+/** Accept markdown files under _posts/ and src/posts/ */
+const isPost = (path: string) =>
+  /^(_posts|src[\\/]posts)[\\/].*\.mdx?$/.test(path);
+
+const TEST_EVENT_PATH = join(import.meta.dirname, "test-event.json");
+
+describe("findAddedPosts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should use git diff between before and after", () => {
+    mockExecFileSync.mockReturnValueOnce(
+      "_posts/new.md\nsrc/posts/renamed.mdx\nREADME.md\n_posts/image.png\n",
+    );
+
+    const event: PushEvent = { before: "abc", after: "def", commits: [] };
+    const posts = findAddedPosts(event, isPost);
+
+    expect(posts).toEqual([join("_posts", "new.md"), join("src", "posts", "renamed.mdx")]);
+    expect(mockExecFileSync).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--name-only", "--diff-filter=AR", "-M", "abc", "def"],
+      expect.anything(),
+    );
+  });
+
+  it("should fall back to the payload when git can't diff the range", () => {
+    mockExecFileSync.mockImplementationOnce(() => {
+      throw new Error("fatal: bad object abc");
+    });
+
+    const event: PushEvent = {
+      before: "abc",
+      after: "def",
+      commits: [
+        { added: ["_posts/new.md", "_posts/tmp.md"], modified: ["_posts/old.md"] },
+        { added: [], removed: ["_posts/tmp.md"] },
+      ],
+    };
+
+    expect(findAddedPosts(event, isPost)).toEqual([
+      join("_posts", "new.md"),
+    ]);
+  });
+
+  it("should not run git for a push that created the branch", () => {
+    const event: PushEvent = {
+      before: "0000000000000000000000000000000000000000",
+      after: "def",
+      commits: [{ added: ["_posts/first.md"] }],
+    };
+
+    expect(findAddedPosts(event, isPost)).toEqual([
+      join("_posts", "first.md"),
+    ]);
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should return nothing when the push adds no posts", () => {
+    mockExecFileSync.mockReturnValueOnce("docs/guide.md\n");
+
+    const event: PushEvent = { before: "abc", after: "def" };
+    expect(findAddedPosts(event, isPost)).toEqual([]);
+  });
+});
+
+describe("readPushEvent", () => {
+  afterEach(() => {
+    try {
+      unlinkSync(TEST_EVENT_PATH);
+    } catch {
+      // Ignore if file doesn't exist
+    }
+  });
+
+  it("should return null without an event payload", () => {
+    expect(readPushEvent(undefined)).toBeNull();
+    expect(readPushEvent("/nonexistent/event.json")).toBeNull();
+    expect(readPushedFiles(undefined)).toEqual([]);
+  });
+
+  it("should list added and modified files from the payload", () => {
+    writeFileSync(
+      TEST_EVENT_PATH,
+      JSON.stringify({
+        before: "abc",
+        after: "def",
+        commits: [{ added: ["_posts/a.md"], modified: ["_posts/b.md"] }],
+      }),
+    );
+
+    expect(readPushEvent(TEST_EVENT_PATH)?.after).toBe("def");
+    expect(readPushedFiles(TEST_EVENT_PATH)).toEqual([
+      join("_posts", "a.md"),
+      join("_posts", "b.md"),
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for the comment quality gate.
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkComment, similarity } from "../../src/core/quality.js";
+import type { QualityCheckInput } from "../../src/core/quality.js";
+import type { PersonaConfig } from "../../src/config/types.js";
+import type { PostContext } from "../../src/providers/base.js";
+
+const post: PostContext = {
+  url: "https://blog.example.com/rust",
+  title: "Why We Moved Our Parser to Rust",
+  content: "The parser was our slowest component. Rewriting it in Rust cut latency in half.",
+  excerpt: "The parser was our slowest component.",
+  tags: ["performance"],
+};
+
+const persona: PersonaConfig = {
+  name: "Curious Reader",
+  description: "Asks questions",
+  tone: "friendly",
+};
+
+const input = (overrides: Partial<QualityCheckInput> = {}): QualityCheckInput => ({
+  post,
+  persona,
+  existing: [],
+  ...overrides,
+});
+
+const good =
+  "Halving the latency is impressive. Did the Rust parser need a different error-recovery strategy than the old one?";
+
+describe("checkComment", () => {
+  it("should pass a specific comment that ends with a question", () => {
+    expect(checkComment(good, input(), {})).toEqual([]);
+  });
+
+  it("should reject generic, persona-forbidden and configured phrases", () => {
+    const withPersona = input({ persona: { ...persona, forbiddenPhrases: ["In Conclusion"] } });
+    expect(
+      checkComment(`Great post! In conclusion, honestly: ${good}`, withPersona, {
+        bannedPhrases: ["honestly"],
+      }),
+    ).toEqual([
+      'contains banned phrase "great post"',
+      'contains banned phrase "in conclusion"',
+      'contains banned phrase "honestly"',
+    ]);
+  });
+
+  it("should check the length in characters", () => {
+    expect(checkComment(good, input(), { minLength: 200 })).toEqual([
+      `too short (${good.length} characters, minimum 200)`,
+    ]);
+    expect(checkComment(good, input(), { maxLength: 50 })).toEqual([
+      `too long (${good.length} characters, maximum 50)`,
+    ]);
+  });
+
+  it("should reject comments that don't reference the post", () => {
+    const offTopic =
+      "This is one of those topics that everyone has an opinion on. What would you do differently next time?";
+    expect(checkComment(offTopic, input(), {})).toEqual([
+      "doesn't reference the post (shares 0 words with it, minimum 2)",
+    ]);
+    expect(checkComment(offTopic, input(), { minPostOverlap: 0 })).toEqual([]);
+  });
+
+  it("should match non-ASCII words inside the post's text", () => {
+    const korean: PostContext = {
+      ...post,
+      title: "러스트로 파서를 옮긴 이유",
+      content: "파서가 가장 느린 부분이었고, 러스트로 다시 작성해 지연 시간을 절반으로 줄였습니다.",
+    };
+    const comment = "지연 시간이 절반이 된 건 인상적이네요. 러스트 전환에서 가장 어려웠던 점은 무엇이었나요?";
+    expect(checkComment(comment, input({ post: korean }), { minLength: 30 })).toEqual([]);
+  });
+
+  it("should require a closing question unless the persona or config turns it off", () => {
+    const statement = good.replace(/\?$/, ".");
+    expect(checkComment(statement, input(), {})).toEqual(["doesn't end with a question"]);
+    expect(checkComment(`${good}"`, input(), {})).toEqual([]);
+    expect(
+      checkComment(statement, input({ persona: { ...persona, endWithQuestion: false } }), {}),
+    ).toEqual([]);
+    expect(checkComment(statement, input(), { requireQuestion: false })).toEqual([]);
+  });
+
+  it("should reject near-duplicates of existing comments", () => {
+    const reworded = good.replace("impressive", "remarkable");
+    expect(checkComment(reworded, input({ existing: ["Unrelated.", good] }), {})).toEqual([
+      expect.stringMatching(/^near-duplicate of an existing comment \(similarity 0\.\d\d\)$/),
+    ]);
+    expect(checkComment(reworded, input({ existing: [good] }), { maxSimilarity: 0.9 })).toEqual(
+      [],
+    );
+  });
+});
+
+describe("similarity", () => {
+  it("should be 1 for the same words and 0 for nothing in common", () => {
+    expect(similarity("The Parser is fast", "the parser, is fast!")).toBe(1);
+    expect(similarity("the parser is fast", "a different sentence")).toBe(0);
+    expect(similarity("", "anything")).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for run reports.
+ *
+ * Verifies:
+ *   - The JSON report carries the results as-is, with run totals
+ *   - Totals add the judge's tokens; its time and tokens show apart
+ *   - The markdown report has a summary table and quoted comments
+ *   - The text report lists comments with their timing and usage
+ *   - Formats are parsed from --format or implied by the file extension
+ *   - writeReport() creates the report's directory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GenerateResult } from "../../src/core/generator.js";
+import {
+  inferReportFormat,
+  parseReportFormat,
+  renderReport,
+  reportTotals,
+  writeReport,
+} from "../../src/core/report.js";
+
+function result(overrides: Partial<GenerateResult> = {}): GenerateResult {
+  return {
+    postTitle: "Moving to Rust | Part 1",
+    postUrl: "https://blog.example.com/rust/",
+    postMetadata: { date: new Date("2024-01-01T00:00:00Z"), tags: ["rust", "perf"] },
+    discussionUrl: null,
+    comments: [
+      {
+        personaName: "Curious Reader",
+        provider: "openai",
+        model: "gpt-4o",
+        comment: "What did you benchmark?\n\n## Setup\nAnd on which machine?",
+        formattedComment: "🤖 AI · Persona: Curious Reader\n\nWhat did you benchmark?",
+        durationMs: 4200,
+        usage: { inputTokens: 812, outputTokens: 95 },
+      },
+      {
+        personaName: "Skeptic",
+        provider: "ollama",
+        model: "llama3",
+        comment: "The post never says.",
+        formattedComment: "🤖 AI · Persona: Skeptic\n\nThe post never says.",
+        inReplyTo: "Curious Reader",
+        durationMs: 1800,
+      },
+    ],
+    skippedPersonas: [],
+    personaSelection: {
+      strategy: "first",
+      choices: [
+        { personaName: "Curious Reader", reason: "first in config order" },
+        { personaName: "Skeptic", reason: "first in config order" },
+      ],
+    },
+    rejectedComments: [{ personaName: "Skeptic", attempt: 1, reasons: ["too short"] }],
+    droppedPersonas: [],
+    blockedComments: [],
+    draftsAt: null,
+    durationMs: 6500,
+    ...overrides,
+  };
+}
+
+describe("reportTotals", () => {
+  it("should add up comments, time and the usage that was reported", () => {
+    expect(reportTotals([result(), result({ comments: [], durationMs: 500 })])).toEqual({
+      posts: 2,
+      comments: 2,
+      durationMs: 7000,
+      usage: { inputTokens: 812, outputTokens: 95 },
+    });
+    expect(reportTotals([]).usage).toBeNull();
+  });
+
+  it("should add the judge's tokens to the totals and show them apart per comment", () => {
+    const judged = result();
+    judged.comments[0] = {
+      ...judged.comments[0],
+      judgeDurationMs: 1100,
+      judgeUsage: { inputTokens: 300, outputTokens: 20 },
+    };
+
+    expect(reportTotals([judged]).usage).toEqual({ inputTokens: 1112, outputTokens: 115 });
+    expect(renderReport([judged], "text")).toContain(
+      "Took 4.2s, 812 in / 95 out tokens; judge 1.1s, 300 in / 20 out tokens\n",
+    );
+    expect(renderReport([judged], "markdown")).toContain(
+      "| 6.5s | 1112 / 115 |",
+    );
+  });
+});
+
+describe("renderReport", () => {
+  it("should write the results as JSON with totals", () => {
+    const report = JSON.parse(renderReport([result()], "json", { dryRun: true }));
+
+    expect(report.dryRun).toBe(true);
+    expect(report.totals).toMatchObject({ posts: 1, comments: 2 });
+    expect(report.results[0].postMetadata.date).toBe("2024-01-01T00:00:00.000Z");
+    expect(report.results[0].comments[0]).toMatchObject({
+      personaName: "Curious Reader",
+      provider: "openai",
+      model: "gpt-4o",
+      comment: "What did you benchmark?\n\n## Setup\nAnd on which machine?",
+      durationMs: 4200,
+      usage: { inputTokens: 812, outputTokens: 95 },
+    });
+  });
+
+  it("should write a markdown summary table and quote each comment", () => {
+    const markdown = renderReport([result()], "markdown", { dryRun: true });
+
+    expect(markdown).toMatch(/^# giscus-bot dry run\n/);
+    expect(markdown).toContain(
+      "| [Moving to Rust \\| Part 1](https://blog.example.com/rust/) | — | 2 | 6.5s | 812 / 95 |",
+    );
+    expect(markdown).toContain("Date: 2024-01-01 · Tags: rust, perf");
+    expect(markdown).toContain(
+      "### Curious Reader\n\n_gpt-4o via openai · 4.2s · 812 in / 95 out tokens_\n\n" +
+        "> What did you benchmark?\n>\n> ## Setup\n> And on which machine?",
+    );
+    expect(markdown).toContain(
+      "_llama3 via ollama · 1.8s · tokens not reported · replying to Curious Reader_",
+    );
+    expect(markdown).toContain("- Rejected Skeptic (try 1): too short");
+  });
+
+  it("should write the text the CLI prints", () => {
+    const text = renderReport([result({ discussionUrl: "https://github.com/user/blog/discussions/1" })], "text");
+
+    expect(text).toMatch(/^Post: "Moving to Rust \| Part 1"\n/);
+    expect(text).toContain("Discussion: https://github.com/user/blog/discussions/1");
+    expect(text).toContain(
+      "Persona: Curious Reader (gpt-4o via openai)\nTook 4.2s, 812 in / 95 out tokens\n",
+    );
+    expect(text).toContain("Done! Generated 2 comment(s) in 6.5s.");
+    expect(text).not.toContain("dry run");
+  });
+});
+
+describe("report formats", () => {
+  it("should parse --format values", () => {
+    expect(parseReportFormat("Markdown")).toBe("markdown");
+    expect(() => parseReportFormat("html")).toThrow(
+      'Unknown report format "html". Use one of: json, markdown, text.',
+    );
+  });
+
+  it("should imply the format from the extension", () => {
+    expect(inferReportFormat("out/report.json")).toBe("json");
+    expect(inferReportFormat("report.MD")).toBe("markdown");
+    expect(inferReportFormat("report.log")).toBe("text");
+  });
+});
+
+describe("writeReport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "giscus-bot-report-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create the directory and write the implied format", () => {
+    const path = join(dir, "reports", "dry-run.json");
+
+    writeReport([result()], path);
+
+    expect(JSON.parse(readFileSync(path, "utf-8")).totals.comments).toBe(2);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Tests for the responder (answering readers' replies).
+ *
+ * Uses a mocked publisher and scraper to verify:
+ *   - Only human replies after the bot's last word in bot-started threads count
+ *   - Allow/deny lists and the per-thread cap are honored
+ *   - The asked persona replies with the post and thread in its prompt
+ *   - Replies go under the bot's comment, are labeled, and land in the state
+ *   - The per-run cap and dry-run mode are honored
+ *   - A failing thread is skipped with its error, and the rest still answered
+ *   - With approval on, nothing is posted (only dry runs are allowed)
+ *   - Moderation blocks replies but lets them mention the readers answered
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { GiscusBotConfig } from "../../src/config/types.js";
+import type { AIProvider } from "../../src/providers/base.js";
+import type { CategoryDiscussion } from "../../src/core/publisher.js";
+
+vi.mock("../../src/core/scraper.js", () => ({
+  extractPost: vi.fn(),
+  extractPostFromFile: vi.fn(),
+}));
+
+// Keep the label parsing real; mock the GitHub calls
+vi.mock("../../src/core/publisher.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/core/publisher.js")>()),
+  getRepoInfo: vi.fn(),
+  getCategoryDiscussions: vi.fn(),
+  addReply: vi.fn(),
+}));
+
+import { findPendingReplies, respond } from "../../src/core/responder.js";
+import { extractPost } from "../../src/core/scraper.js";
+import * as publisher from "../../src/core/publisher.js";
+import { emptyState, recordPost } from "../../src/core/state.js";
+
+const mockExtractPost = vi.mocked(extractPost);
+const mockGetRepoInfo = vi.mocked(publisher.getRepoInfo);
+const mockGetDiscussions = vi.mocked(publisher.getCategoryDiscussions);
+const mockAddReply = vi.mocked(publisher.addReply);
+
+const PREFIX = "🤖 AI";
+
+const config: GiscusBotConfig = {
+  provider: { name: "openai", model: "gpt-4o" },
+  github: { repo: "user/blog", discussionCategory: "Blog Comments" },
+  personas: [
+    { name: "Curious Reader", description: "Asks questions", tone: "friendly" },
+    { name: "Skeptic", description: "Doubts", tone: "dry" },
+  ],
+  limits: { maxPersonas: 2, postsPerRun: 1 },
+  labeling: { prefix: PREFIX },
+};
+
+const bot = (id: string, persona: string, text: string) => ({
+  id,
+  body: `${PREFIX} · Persona: ${persona}\n\n${text}`,
+  author: "blog-owner",
+});
+const human = (id: string, login: string, text: string) => ({ id, body: text, author: login });
+
+/** A discussion with a bot thread (answered once, then a new question) and a human thread */
+function discussion(): CategoryDiscussion {
+  return {
+    id: "D_1",
+    title: "Post",
+    url: "https://github.com/user/blog/discussions/1",
+    body: "# Post\n\nhttps://blog.example.com/post\n\n<!-- sha1: abc -->",
+    threads: [
+      {
+        comment: bot("C_1", "Curious Reader", "What do you think?"),
+        replies: [
+          human("R_1", "alice", "I think yes."),
+          bot("R_2", "Curious Reader", "Why yes?"),
+          human("R_3", "alice", "Because."),
+          human("R_4", "bob", "Agreed."),
+        ],
+      },
+      {
+        comment: human("C_2", "carol", "A human comment"),
+        replies: [human("R_5", "dave", "A human reply")],
+      },
+    ],
+  };
+}
+
+const fakeProvider: AIProvider = {
+  name: "fake",
+  generateComment: vi.fn(async (_ctx, persona) => `Reply from ${persona.name}`),
+};
+
+describe("findPendingReplies", () => {
+  it("should find human replies after the bot's last reply in bot threads only", () => {
+    const pending = findPendingReplies([discussion()], config);
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0].personaName).toBe("Curious Reader");
+    expect(pending[0].unanswered.map((r) => r.id)).toEqual(["R_3", "R_4"]);
+  });
+
+  it("should honor the allow and deny lists", () => {
+    expect(
+      findPendingReplies([discussion()], { ...config, respond: { denyUsers: ["ALICE"] } })[0]
+        .unanswered.map((r) => r.author),
+    ).toEqual(["bob"]);
+    expect(
+      findPendingReplies([discussion()], {
+        ...config,
+        respond: { allowUsers: ["carol"] },
+      }),
+    ).toEqual([]);
+  });
+
+  it("should leave threads at the per-thread cap alone", () => {
+    expect(
+      findPendingReplies([discussion()], { ...config, respond: { maxRepliesPerThread: 1 } }),
+    ).toEqual([]);
+  });
+
+  it("should answer as the persona that spoke last in the thread", () => {
+    const d = discussion();
+    d.threads[0].replies.push(bot("R_6", "Skeptic", "Hmm."), human("R_7", "erin", "Hmm?"));
+
+    const [pending] = findPendingReplies([d], config);
+    expect(pending.personaName).toBe("Skeptic");
+    expect(pending.unanswered.map((r) => r.id)).toEqual(["R_7"]);
+  });
+});
+
+describe("respond", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetRepoInfo.mockResolvedValue({ repoId: "R", categoryId: "DIC_1" });
+    mockGetDiscussions.mockResolvedValue([discussion()]);
+    mockExtractPost.mockResolvedValue({
+      url: "https://blog.example.com/post",
+      title: "Post",
+      content: "Post body",
+      excerpt: "Post body",
+    });
+    mockAddReply.mockResolvedValue({ id: "R_new" });
+  });
+
+  it("should reply as the asked persona with the post and thread in the prompt", async () => {
+    const state = emptyState();
+    recordPost(state, "https://blog.example.com/post", {
+      title: "Post",
+      url: "https://blog.example.com/post",
+      discussionId: "D_1",
+      discussionUrl: "https://github.com/user/blog/discussions/1",
+      comments: [],
+    });
+
+    const result = await respond(config, fakeProvider, { state });
+
+    expect(mockGetDiscussions).toHaveBeenCalledWith("user", "blog", "DIC_1", 20);
+    expect(mockExtractPost).toHaveBeenCalledWith("https://blog.example.com/post");
+    const [context, persona] = vi.mocked(fakeProvider.generateComment).mock.calls[0];
+    expect(persona.name).toBe("Curious Reader");
+    expect(context.content).toBe("Post body");
+    expect(context.thread).toEqual({
+      comments: [
+        { author: "Curious Reader", body: "What do you think?", isReply: false },
+        { author: "@alice", body: "I think yes.", isReply: true },
+        { author: "Curious Reader", body: "Why yes?", isReply: true },
+        { author: "@alice", body: "Because.", isReply: true },
+        { author: "@bob", body: "Agreed.", isReply: true },
+      ],
+      replyTo: "@bob",
+    });
+
+    expect(mockAddReply).toHaveBeenCalledWith(
+      "D_1",
+      "C_1",
+      `${PREFIX} · Persona: Curious Reader\n\nReply from Curious Reader`,
+      PREFIX,
+    );
+    expect(result.replies).toEqual([
+      expect.objectContaining({
+        personaName: "Curious Reader",
+        replyingTo: ["alice", "bob"],
+        commentId: "R_new",
+      }),
+    ]);
+    expect(state.posts["https://blog.example.com/post"].comments).toEqual([
+      expect.objectContaining({ id: "R_new", personaName: "Curious Reader", replyToId: "C_1" }),
+    ]);
+  });
+
+  it("should find the post URL in the discussion body without state", async () => {
+    await respond(config, fakeProvider, { dryRun: true });
+
+    expect(mockExtractPost).toHaveBeenCalledWith("https://blog.example.com/post");
+    expect(mockAddReply).not.toHaveBeenCalled();
+  });
+
+  it("should stop at maxRepliesPerRun and skip personas no longer configured", async () => {
+    const second = { ...discussion(), id: "D_2", url: "https://github.com/user/blog/discussions/2" };
+    const third = discussion();
+    third.id = "D_3";
+    third.url = "https://github.com/user/blog/discussions/3";
+    third.threads[0] = {
+      comment: bot("C_9", "Retired Persona", "Old question"),
+      replies: [human("R_9", "alice", "An answer")],
+    };
+    mockGetDiscussions.mockResolvedValue([third, discussion(), second]);
+
+    const result = await respond(
+      { ...config, respond: { maxRepliesPerRun: 1 } },
+      fakeProvider,
+      { dryRun: true },
+    );
+
+    expect(result.replies.map((r) => r.discussionUrl)).toEqual([
+      "https://github.com/user/blog/discussions/1",
+    ]);
+    expect(result.skipped).toEqual([
+      {
+        discussionUrl: "https://github.com/user/blog/discussions/3",
+        reason: 'persona "Retired Persona" is no longer configured',
+      },
+      {
+        discussionUrl: "https://github.com/user/blog/discussions/2",
+        reason: "reached maxRepliesPerRun (1)",
+      },
+    ]);
+  });
+
+  it("should skip a thread that fails and still answer the others", async () => {
+    const second = { ...discussion(), id: "D_2", url: "https://github.com/user/blog/discussions/2" };
+    mockGetDiscussions.mockResolvedValue([discussion(), second]);
+    mockExtractPost.mockRejectedValueOnce(new Error("Failed to fetch https://blog.example.com/post: 404"));
+
+    const result = await respond(config, fakeProvider);
+
+    expect(result.skipped).toEqual([
+      {
+        discussionUrl: "https://github.com/user/blog/discussions/1",
+        reason: "failed: Failed to fetch https://blog.example.com/post: 404",
+      },
+    ]);
+    expect(result.replies.map((r) => r.discussionUrl)).toEqual([
+      "https://github.com/user/blog/discussions/2",
+    ]);
+    expect(mockAddReply).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refuse to post replies when approval is on", async () => {
+    const approving: GiscusBotConfig = { ...config, approval: {} };
+
+    await expect(respond(approving, fakeProvider)).rejects.toThrow(
+      "respond can't run with approval mode on",
+    );
+    expect(mockGetDiscussions).not.toHaveBeenCalled();
+    expect(mockAddReply).not.toHaveBeenCalled();
+
+    // A dry run posts nothing anyway, so it still previews the replies
+    const preview = await respond(approving, fakeProvider, { dryRun: true });
+    expect(preview.replies).toHaveLength(1);
+    expect(mockAddReply).not.toHaveBeenCalled();
+  });
+
+  it("should let replies mention the readers they answer, and block others", async () => {
+    const provider: AIProvider = {
+      name: "fake",
+      generateComment: vi.fn(async () => "@alice and @bob, fair. Does @carol agree?"),
+    };
+
+    const result = await respond({ ...config, moderation: {} }, provider);
+
+    expect(result.replies).toEqual([]);
+    expect(result.blocked).toEqual([
+      {
+        discussionUrl: "https://github.com/user/blog/discussions/1",
+        personaName: "Curious Reader",
+        reasons: [{ code: "mention", detail: "mentions @carol" }],
+      },
+    ]);
+    expect(mockAddReply).not.toHaveBeenCalled();
+
+    vi.mocked(provider.generateComment).mockResolvedValue("@alice and @bob, fair. Why?");
+    const allowed = await respond({ ...config, moderation: {} }, provider);
+    expect(allowed.replies).toHaveLength(1);
+    expect(allowed.blocked).toEqual([]);
+  });
+});
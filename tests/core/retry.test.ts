@@ -0,0 +1,197 @@
+/**
+ * Tests for the retry / backoff / timeout layer.
+ *
+ * Verifies:
+ *   - Transient errors are retried and each retry is logged
+ *   - Non-retryable errors and exhausted retries rethrow the last error
+ *   - Retry-After and GitHub rate-limit headers set the wait
+ *   - Backoff grows exponentially with jitter, capped at maxRetryDelay
+ *   - Slow attempts time out and their signal is aborted
+ *   - Providers are wrapped without changing their name
+ *   - Failed fetch responses become HttpErrors with their (truncated) body
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  HttpError,
+  TimeoutError,
+  computeRetryDelay,
+  isRetryable,
+  responseError,
+  retryProvider,
+  withRetry,
+} from "../../src/core/retry.js";
+import type { RetryPolicy } from "../../src/core/retry.js";
+
+/** A fast policy that records its log lines */
+function testPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy & { logs: string[] } {
+  const logs: string[] = [];
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    retryDelay: 0,
+    log: (message) => logs.push(message),
+    ...overrides,
+    logs,
+  };
+}
+
+describe("withRetry", () => {
+  it("should retry transient failures and log each retry", async () => {
+    const policy = testPolicy();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new HttpError("Ollama request failed: 503", 503))
+      .mockRejectedValueOnce(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } }))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withRetry(fn, { label: "ollama generateComment" }, policy)).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(policy.logs).toHaveLength(2);
+    expect(policy.logs[0]).toMatch(
+      /^ollama generateComment failed \(Ollama request failed: 503\); retrying in 0\.0s \(retry 1\/3\)$/,
+    );
+  });
+
+  it("should rethrow non-retryable errors immediately", async () => {
+    const policy = testPolicy();
+    const fn = vi.fn().mockRejectedValue(new HttpError("Unauthorized", 401));
+
+    await expect(withRetry(fn, { label: "call" }, policy)).rejects.toThrow("Unauthorized");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    const policy = testPolicy({ retries: 2 });
+    const fn = vi.fn().mockRejectedValue(new HttpError("Overloaded", 529));
+
+    await expect(withRetry(fn, { label: "call" }, policy)).rejects.toThrow("Overloaded");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should time out a slow attempt and abort its signal", async () => {
+    const policy = testPolicy({ retries: 0, timeout: 20 });
+    let signal: AbortSignal | undefined;
+
+    await expect(
+      withRetry(
+        (s) => {
+          signal = s;
+          return new Promise(() => {});
+        },
+        { label: "slow call" },
+        policy,
+      ),
+    ).rejects.toThrow(new TimeoutError("slow call", 20));
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("should fail instead of waiting longer than maxRetryDelay", async () => {
+    const policy = testPolicy({ maxRetryDelay: 1000 });
+    const fn = vi.fn().mockRejectedValue(new HttpError("Quota", 429, { "retry-after": "3600" }));
+
+    await expect(withRetry(fn, { label: "call" }, policy)).rejects.toThrow("Quota");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("isRetryable", () => {
+  it("should only retry mutations on rate limits and refused connections", () => {
+    expect(isRetryable(new HttpError("Bad Gateway", 502), false)).toBe(false);
+    expect(isRetryable(new TimeoutError("call", 10), false)).toBe(false);
+    expect(isRetryable(new HttpError("Too Many Requests", 429), false)).toBe(true);
+    expect(isRetryable(Object.assign(new Error("refused"), { code: "ECONNREFUSED" }), false)).toBe(true);
+  });
+
+  it("should recognize GraphQL RATE_LIMITED errors", () => {
+    const error = Object.assign(new Error("API rate limit exceeded"), {
+      errors: [{ type: "RATE_LIMITED", message: "API rate limit exceeded" }],
+    });
+    expect(isRetryable(error, false)).toBe(true);
+  });
+
+  it("should not retry a plain 403", () => {
+    expect(isRetryable(new HttpError("Resource not accessible by integration", 403))).toBe(false);
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const policy = { retryDelay: 1000, maxRetryDelay: 120_000 };
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("should honor Retry-After in seconds and as a date", () => {
+    expect(computeRetryDelay(new HttpError("x", 429, { "Retry-After": "7" }), 1, policy, now)).toBe(7000);
+    expect(
+      computeRetryDelay(
+        new HttpError("x", 503, { "retry-after": "Wed, 01 Jan 2025 00:00:30 GMT" }),
+        1,
+        policy,
+        now,
+      ),
+    ).toBe(30_000);
+  });
+
+  it("should wait for GitHub's rate limit reset", () => {
+    const error = Object.assign(new Error("API rate limit exceeded"), {
+      status: 403,
+      response: {
+        headers: {
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": String(now / 1000 + 45),
+        },
+      },
+    });
+    expect(computeRetryDelay(error, 1, policy, now)).toBe(45_000);
+  });
+
+  it("should wait at least a minute after a secondary rate limit", () => {
+    const error = Object.assign(new Error("You have exceeded a secondary rate limit"), {
+      status: 403,
+    });
+    expect(computeRetryDelay(error, 1, policy, now)).toBe(60_000);
+  });
+
+  it("should back off exponentially with jitter, capped at maxRetryDelay", () => {
+    const error = new HttpError("x", 500);
+    for (const [attempt, step] of [[1, 1000], [2, 2000], [3, 4000]]) {
+      const delay = computeRetryDelay(error, attempt, policy, now)!;
+      expect(delay).toBeGreaterThanOrEqual(step / 2);
+      expect(delay).toBeLessThanOrEqual(step);
+    }
+    expect(computeRetryDelay(error, 20, { retryDelay: 1000, maxRetryDelay: 5000 }, now)).toBeLessThanOrEqual(5000);
+  });
+});
+
+describe("responseError", () => {
+  it("should carry the status, headers and start of the body", async () => {
+    const response = new Response(`{\n  "error": "${"x".repeat(600)}"\n}`, {
+      status: 429,
+      statusText: "Too Many Requests",
+      headers: { "retry-after": "5" },
+    });
+
+    const error = await responseError("Mistral request", response);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(429);
+    expect(error.headers["retry-after"]).toBe("5");
+    expect(error.message).toMatch(/^Mistral request failed: 429 Too Many Requests — \{ "error": "x+…$/);
+    expect(error.message.length).toBeLessThan(600);
+  });
+});
+
+describe("retryProvider", () => {
+  it("should keep the provider name and pass a signal through", async () => {
+    const generateComment = vi.fn(async () => "comment");
+    const provider = retryProvider({ name: "fake", generateComment });
+
+    expect(provider.name).toBe("fake");
+    await expect(
+      provider.generateComment(
+        { url: "u", title: "t", content: "", excerpt: "" },
+        { name: "p", description: "d", tone: "t" },
+      ),
+    ).resolves.toBe("comment");
+    expect(generateComment.mock.calls[0][2]).toEqual({ signal: expect.any(AbortSignal) });
+  });
+});
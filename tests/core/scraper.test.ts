@@ -59,6 +59,34 @@ describe("extractPost", () => {
     expect(result.excerpt.length).toBeLessThanOrEqual(200);
   });
 
+  it("should read og:title and description meta tags", async () => {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Meta Post</title>
+        <meta property="og:title" content="Meta Post | My Blog">
+        <meta name="description" content="A post with meta tags.">
+      </head>
+      <body>
+        <article>
+          <h1>Meta Post</h1>
+          <p>This paragraph gives Readability enough article content to extract from the page.</p>
+        </article>
+      </body>
+      </html>
+    `;
+
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      new Response(html, { status: 200 }),
+    );
+
+    const result = await extractPost("https://example.com/meta");
+
+    expect(result.ogTitle).toBe("Meta Post | My Blog");
+    expect(result.description).toBe("A post with meta tags.");
+  });
+
   it("should throw on non-200 HTTP responses", async () => {
     vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
       new Response("Not Found", { status: 404, statusText: "Not Found" }),
@@ -170,6 +198,59 @@ Some content here.
     expect(result.title).toBe("My Unquoted Title");
   });
 
+  it("should fill metadata fields from multi-line YAML front matter", () => {
+    writeFileSync(
+      TEST_FILE_PATH,
+      `---
+title: "Metadata Post"
+date: 2026-01-18
+tags:
+  - mysql
+  - databases
+categories: [ programming ]
+description: >-
+  How InnoDB keeps
+  old row versions.
+author: Jane
+canonical_url: https://blog.example.com/metadata-post/
+slug: metadata-post
+lang: en
+---
+
+Body.
+`,
+    );
+
+    const result = extractPostFromFile(TEST_FILE_PATH);
+    expect(result.title).toBe("Metadata Post");
+    expect(result.date).toEqual(new Date("2026-01-18"));
+    expect(result.tags).toEqual(["mysql", "databases"]);
+    expect(result.categories).toEqual(["programming"]);
+    expect(result.description).toBe("How InnoDB keeps old row versions.");
+    expect(result.author).toBe("Jane");
+    expect(result.canonicalUrl).toBe("https://blog.example.com/metadata-post/");
+    expect(result.slug).toBe("metadata-post");
+    expect(result.language).toBe("en");
+  });
+
+  it("should read TOML front matter", () => {
+    writeFileSync(
+      TEST_FILE_PATH,
+      `+++
+title = "TOML Post"
+tags = ["hugo"]
++++
+
+TOML content.
+`,
+    );
+
+    const result = extractPostFromFile(TEST_FILE_PATH);
+    expect(result.title).toBe("TOML Post");
+    expect(result.tags).toEqual(["hugo"]);
+    expect(result.content).toBe("TOML content.");
+  });
+
   it("should default to 'Untitled' when no front matter exists", () => {
     writeFileSync(TEST_FILE_PATH, "# Just a heading\n\nSome content.");
 
@@ -192,4 +273,23 @@ Content.
     const result = extractPostFromFile(TEST_FILE_PATH);
     expect(result.url).toBe(TEST_FILE_PATH);
   });
+
+  it("should derive the public URL from the site permalink template", () => {
+    writeFileSync(
+      TEST_FILE_PATH,
+      `---
+title: Test
+date: 2026-01-18
+---
+
+Content.
+`,
+    );
+
+    const result = extractPostFromFile(TEST_FILE_PATH, {
+      baseUrl: "https://blog.example.com",
+      permalink: "/:year/:month/:day/:title/",
+    });
+    expect(result.url).toBe("https://blog.example.com/2026/01/18/test-post/");
+  });
 });
@@ -0,0 +1,211 @@
+/**
+ * Tests for post selection strategies.
+ *
+ * Mocks the publisher (for discussion comment counts) and uses temp
+ * markdown files and event payloads to verify each strategy's ordering.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+vi.mock("../../src/core/publisher.js", () => ({
+  getDiscussionCommentCounts: vi.fn(),
+  getRepoInfo: vi.fn(),
+  listCategoryDiscussions: vi.fn(),
+}));
+
+import { describeEmptySelection, selectPosts } from "../../src/core/selection.js";
+import {
+  getDiscussionCommentCounts,
+  getRepoInfo,
+  listCategoryDiscussions,
+} from "../../src/core/publisher.js";
+import { emptyState, recordPost } from "../../src/core/state.js";
+import type { BotState } from "../../src/core/state.js";
+import type { GiscusBotConfig } from "../../src/config/types.js";
+
+const mockGetRepoInfo = vi.mocked(getRepoInfo);
+const mockListDiscussions = vi.mocked(listCategoryDiscussions);
+const mockCommentCounts = vi.mocked(getDiscussionCommentCounts);
+
+const TEST_DIR = join(import.meta.dirname, "selection-fixtures");
+
+/** Write a post with a front-matter date and return its path */
+function writePost(name: string, date?: string): string {
+  const path = join(TEST_DIR, name);
+  const frontMatter = date ? `title: ${name}\ndate: ${date}` : `title: ${name}`;
+  writeFileSync(path, `---\n${frontMatter}\n---\n\nContent.\n`);
+  return path;
+}
+
+/** Record a processed post in the state */
+function record(state: BotState, key: string, commentCount: number, discussionId: string | null = null, at = "2026-01-01") {
+  recordPost(
+    state,
+    key,
+    {
+      title: key,
+      url: key,
+      discussionId,
+      discussionUrl: null,
+      comments: Array.from({ length: commentCount }, (_, i) => ({
+        id: `C_${key}_${i}`,
+        personaName: `P${i}`,
+        provider: "openai",
+        model: "gpt-4o",
+        createdAt: at,
+      })),
+    },
+    new Date(at),
+  );
+}
+
+describe("selectPosts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should pick up to `count` posts at random", async () => {
+    const files = ["a.md", "b.md", "c.md"];
+    const selected = await selectPosts(files, "random", 2, { state: emptyState() });
+
+    expect(selected).toHaveLength(2);
+    expect(files).toEqual(expect.arrayContaining(selected));
+  });
+
+  it("should order posts by front-matter date for newest-first", async () => {
+    const older = writePost("older.md", "2024-01-01");
+    const newer = writePost("newer.md", "2025-06-15");
+    const undated = writePost("undated.md");
+
+    const selected = await selectPosts(
+      [undated, older, newer],
+      "newest-first",
+      3,
+      { state: emptyState() },
+    );
+
+    expect(selected[0]).toBe(newer);
+    expect(selected[1]).toBe(older);
+  });
+
+  it("should prefer posts with the fewest discussion comments for least-commented", async () => {
+    const state = emptyState();
+    record(state, "busy.md", 1, "D_busy");
+    record(state, "quiet.md", 1, "D_quiet");
+    mockCommentCounts.mockResolvedValueOnce(
+      new Map([["D_busy", 12], ["D_quiet", 2]]),
+    );
+
+    const selected = await selectPosts(
+      ["busy.md", "quiet.md"],
+      "least-commented",
+      2,
+      { state },
+    );
+
+    expect(mockCommentCounts).toHaveBeenCalledWith(["D_busy", "D_quiet"]);
+    expect(selected).toEqual(["quiet.md", "busy.md"]);
+  });
+
+  it("should match posts the state doesn't know to the category's discussions for least-commented", async () => {
+    const state = emptyState();
+    record(state, "quiet.md", 1, "D_quiet");
+    const unknown = writePost("unknown.md");
+    const orphan = writePost("orphan.md");
+    mockGetRepoInfo.mockResolvedValueOnce({ repoId: "R_1", categoryId: "DIC_1" });
+    mockListDiscussions.mockResolvedValueOnce([
+      { id: "D_other", number: 3, title: "other.md", url: "https://github.com/user/blog/discussions/3", body: "" },
+      { id: "D_unknown", number: 7, title: "unknown.md", url: "https://github.com/user/blog/discussions/7", body: "" },
+    ]);
+    mockCommentCounts.mockResolvedValueOnce(
+      new Map([["D_quiet", 2], ["D_unknown", 30]]),
+    );
+    const config = {
+      github: { repo: "user/blog", discussionCategory: "Blog Comments", mapping: "title" },
+    } as GiscusBotConfig;
+
+    const selected = await selectPosts(
+      [unknown, orphan, "quiet.md"],
+      "least-commented",
+      3,
+      { state, config },
+    );
+
+    // One listing for the whole category, not a search per post
+    expect(mockListDiscussions).toHaveBeenCalledTimes(1);
+    expect(mockListDiscussions).toHaveBeenCalledWith("user", "blog", "DIC_1");
+    expect(mockCommentCounts).toHaveBeenCalledWith(["D_unknown", "D_quiet"]);
+    expect(selected).toEqual([orphan, "quiet.md", unknown]);
+    // The discussion found is remembered, so the next run needn't look
+    expect(state.posts[unknown]).toMatchObject({ discussionId: "D_unknown", comments: [] });
+    expect(state.posts[orphan]).toBeUndefined();
+  });
+
+  it("should only pick posts without recorded comments for never-commented", async () => {
+    const state = emptyState();
+    record(state, "done.md", 2);
+
+    const selected = await selectPosts(
+      ["done.md", "new.md"],
+      "never-commented",
+      2,
+      { state },
+    );
+
+    expect(selected).toEqual(["new.md"]);
+  });
+
+  it("should pick nothing for never-commented once every post has comments", async () => {
+    const state = emptyState();
+    record(state, "recent.md", 1, null, "2026-03-01");
+    record(state, "stale.md", 1, null, "2025-01-01");
+
+    const selected = await selectPosts(
+      ["recent.md", "stale.md"],
+      "never-commented",
+      1,
+      { state },
+    );
+
+    expect(selected).toEqual([]);
+  });
+
+  it("should explain an empty selection", () => {
+    expect(describeEmptySelection("never-commented", 1, 12)).toBe(
+      "Every one of the 12 post(s) already has comments, so never-commented picks none. " +
+        "Set limits.selection to least-commented or random to keep commenting on older posts.",
+    );
+    expect(describeEmptySelection("random", 0, 12)).toBe(
+      "limits.postsPerRun is 0, so no post is ever picked.",
+    );
+  });
+
+  it("should only pick files from the push event for changed-in-this-push", async () => {
+    const eventPath = join(TEST_DIR, "event.json");
+    writeFileSync(
+      eventPath,
+      JSON.stringify({
+        commits: [
+          { added: ["_posts/new.md"], modified: ["README.md"] },
+          { added: [], modified: ["_posts/edited.md"] },
+        ],
+      }),
+    );
+
+    const selected = await selectPosts(
+      ["_posts/old.md", "_posts/new.md", "_posts/edited.md"],
+      "changed-in-this-push",
+      5,
+      { state: emptyState(), eventPath },
+    );
+
+    expect(selected).toEqual(["_posts/new.md", "_posts/edited.md"]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for the persistent state store.
+ *
+ * Verifies:
+ *   - A missing state file loads as empty state
+ *   - State round-trips through the JSON file
+ *   - recordPost appends comments and keeps the first-processed timestamp
+ *   - pruneState removes old or unwanted posts
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { writeFileSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import {
+  emptyState,
+  loadState,
+  saveState,
+  recordPost,
+  getCommentedPersonas,
+  pruneState,
+} from "../../src/core/state.js";
+import type { CommentRecord } from "../../src/core/state.js";
+
+const TEST_STATE_PATH = join(import.meta.dirname, "test-state.json");
+
+function comment(personaName: string, id: string): CommentRecord {
+  return {
+    id,
+    personaName,
+    provider: "openai",
+    model: "gpt-4o",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("state", () => {
+  afterEach(() => {
+    try {
+      unlinkSync(TEST_STATE_PATH);
+    } catch {
+      // Ignore if file doesn't exist
+    }
+  });
+
+  it("should return empty state when the file doesn't exist", () => {
+    expect(loadState("/nonexistent/state.json")).toEqual(emptyState());
+  });
+
+  it("should round-trip state through the file", () => {
+    const state = emptyState();
+    recordPost(state, "_posts/foo.md", {
+      title: "Foo",
+      url: "_posts/foo.md",
+      discussionId: "D_1",
+      discussionUrl: "https://github.com/user/blog/discussions/1",
+      comments: [comment("Curious Reader", "C_1")],
+    });
+
+    saveState(state, TEST_STATE_PATH);
+    expect(loadState(TEST_STATE_PATH)).toEqual(state);
+  });
+
+  it("should reject a state file with an unknown version", () => {
+    writeFileSync(TEST_STATE_PATH, JSON.stringify({ version: 99, posts: {} }));
+    expect(() => loadState(TEST_STATE_PATH)).toThrow("Unsupported state file version");
+  });
+
+  it("should append comments and keep the first-processed timestamp", () => {
+    const state = emptyState();
+    const entry = {
+      title: "Foo",
+      url: "_posts/foo.md",
+      discussionId: "D_1",
+      discussionUrl: "https://github.com/user/blog/discussions/1",
+    };
+
+    recordPost(state, "foo", { ...entry, comments: [comment("A", "C_1")] }, new Date("2026-01-01"));
+    recordPost(state, "foo", { ...entry, comments: [comment("B", "C_2")] }, new Date("2026-02-01"));
+
+    const post = state.posts.foo;
+    expect(post.comments.map((c) => c.id)).toEqual(["C_1", "C_2"]);
+    expect(post.firstProcessedAt).toBe("2026-01-01T00:00:00.000Z");
+    expect(post.lastProcessedAt).toBe("2026-02-01T00:00:00.000Z");
+    expect(getCommentedPersonas(state, "foo")).toEqual(new Set(["A", "B"]));
+    expect(getCommentedPersonas(state, "unknown").size).toBe(0);
+  });
+
+  it("should prune posts older than a date or rejected by keep()", () => {
+    const state = emptyState();
+    const entry = {
+      title: "Post",
+      url: "",
+      discussionId: null,
+      discussionUrl: null,
+      comments: [],
+    };
+    recordPost(state, "old", entry, new Date("2025-01-01"));
+    recordPost(state, "new", entry, new Date("2026-06-01"));
+    recordPost(state, "gone", entry, new Date("2026-06-01"));
+
+    const removed = pruneState(state, {
+      olderThan: new Date("2026-01-01"),
+      keep: (key) => key !== "gone",
+    });
+
+    expect(removed.sort()).toEqual(["gone", "old"]);
+    expect(Object.keys(state.posts)).toEqual(["new"]);
+  });
+});
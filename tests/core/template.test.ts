@@ -0,0 +1,108 @@
+/**
+ * Tests for the prompt template language.
+ *
+ * Verifies:
+ *   - Placeholders, lists, conditionals and loops render
+ *   - Block tags alone on a line don't leave blank lines behind
+ *   - Syntax errors and unknown placeholders fail with the template's name
+ *   - Template files load from disk
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadPromptTemplates, parseTemplate, renderTemplate } from "../../src/core/template.js";
+
+const render = (text: string, data: Record<string, unknown>): string =>
+  renderTemplate(parseTemplate(text), data);
+
+describe("renderTemplate", () => {
+  it("should fill in placeholders and join lists", () => {
+    expect(
+      render("{{ post.title }} [{{post.tags}}] {{post.unset}}", {
+        post: { title: "Hello", tags: ["a", "b"], unset: undefined },
+      }),
+    ).toBe("Hello [a, b] ");
+  });
+
+  it("should render if, else and unless blocks", () => {
+    const text = "{{#if x}}yes{{else}}no{{/if}}/{{#unless x}}none{{/unless}}";
+    expect(render(text, { x: ["item"] })).toBe("yes/");
+    expect(render(text, { x: [] })).toBe("no/none");
+    expect(render(text, { x: "" })).toBe("no/none");
+  });
+
+  it("should loop with this and position variables", () => {
+    expect(
+      render("{{#each tags}}{{@index}}:{{this}}{{#unless @last}}, {{/unless}}{{/each}}", {
+        tags: ["a", "b", "c"],
+      }),
+    ).toBe("0:a, 1:b, 2:c");
+    expect(
+      render("{{#each people}}{{#if @first}}>{{/if}}{{this.name}}@{{site}} {{/each}}", {
+        people: [{ name: "x" }, { name: "y" }],
+        site: "blog",
+      }),
+    ).toBe(">x@blog y@blog ");
+  });
+
+  it("should drop the lines of standalone block tags", () => {
+    const text = "start\n  {{#if a}}\nA\n{{else}}\nnot A\n  {{/if}}\nend";
+    expect(render(text, { a: true })).toBe("start\nA\nend");
+    expect(render(text, { a: false })).toBe("start\nnot A\nend");
+  });
+
+  it("should reject unknown placeholders", () => {
+    expect(() => render("{{psot.title}}", { post: {} })).toThrow(
+      'Template template: unknown placeholder "{{psot.title}}"',
+    );
+    expect(() => render("{{#if post.titel}}x{{/if}}", { post: { title: "Hi" } })).toThrow(
+      'Template template: unknown placeholder "{{post.titel}}"',
+    );
+  });
+});
+
+describe("parseTemplate", () => {
+  it.each([
+    ["{{#if a}}x", '"{{#if}}" is never closed'],
+    ["{{#if a}}x{{/each}}", '"{{/each}}" closes a "{{#if}}" block'],
+    ["x{{/if}}", '"{{/if}}" closes a block that was never opened'],
+    ["{{else}}", '"{{else}}" outside of an if or unless block'],
+    ["{{#if a}}{{else}}{{else}}{{/if}}", 'more than one "{{else}}" in a block'],
+    ["{{#with a}}{{/with}}", 'unknown block "{{#with a}}"'],
+    ["{{post title}}", '"{{post title}}" needs a value like "post.title"'],
+  ])("should reject %s", (text, message) => {
+    expect(() => parseTemplate(text, "prompt.md")).toThrow(
+      `Invalid template prompt.md: ${message}`,
+    );
+  });
+});
+
+describe("loadPromptTemplates", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "giscus-bot-template-"));
+    writeFileSync(join(dir, "system.md"), "You are {{persona.name}}.\n");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load the configured files and skip the rest", () => {
+    const templates = loadPromptTemplates({ system: join(dir, "system.md") });
+
+    expect(templates.user).toBeUndefined();
+    expect(renderTemplate(templates.system!, { persona: { name: "Reader" } })).toBe(
+      "You are Reader.\n",
+    );
+  });
+
+  it("should name the missing file", () => {
+    expect(() => loadPromptTemplates({ user: join(dir, "nope.md") })).toThrow(
+      `Could not read template ${join(dir, "nope.md")}`,
+    );
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the shared prompt builders.
+ *
+ * Verifies:
+ *   - A plain persona gets the default instructions
+ *   - Each optional persona field adds its instruction
+ *   - Language codes resolve to names
+ *   - Custom templates replace the built-in prompts, and typos fail early
+ *   - The user prompt carries earlier comments in conversation mode
+ *   - buildPrompts() prefers a caller's prompt override
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  buildPrompts,
+  buildSystemPrompt,
+  buildUserPrompt,
+  languageName,
+  setPromptTemplates,
+} from "../../src/providers/base.js";
+import type { Persona, PostContext } from "../../src/providers/base.js";
+import { parseTemplate } from "../../src/core/template.js";
+
+const persona: Persona = {
+  name: "Curious Reader",
+  description: "Asks thoughtful questions",
+  tone: "friendly",
+};
+
+describe("buildSystemPrompt", () => {
+  it("should use the default instructions for a plain persona", () => {
+    const prompt = buildSystemPrompt(persona);
+
+    expect(prompt).toContain("- Name: Curious Reader");
+    expect(prompt).toContain("- End with a question or invitation for further discussion.");
+    expect(prompt).toContain("- Keep the comment concise (2-4 paragraphs).");
+    expect(prompt).not.toContain("Expertise");
+    expect(prompt).not.toContain("<example>");
+    expect(prompt).not.toContain("Write the comment in");
+  });
+
+  it("should turn the optional persona fields into instructions", () => {
+    const prompt = buildSystemPrompt({
+      ...persona,
+      expertise: ["databases", "Rust"],
+      forbiddenPhrases: ["as an AI", "delve"],
+      length: { min: 100, max: 300, unit: "characters" },
+      language: "ko",
+      endWithQuestion: false,
+      examples: ["  인덱스 설계 부분이 흥미로웠어요.  ", "Nice take on WAL."],
+    });
+
+    expect(prompt).toContain("- Expertise: databases, Rust");
+    expect(prompt).toContain("- Bring in your expertise where it is relevant to the post.");
+    expect(prompt).toContain('- Never use these phrases: "as an AI", "delve".');
+    expect(prompt).toContain("- Keep the comment to 100-300 characters.");
+    expect(prompt).toContain("- Write the comment in Korean (한국어), whatever language the post is in.");
+    expect(prompt).toContain("- Do NOT end with a question; close with your own perspective instead.");
+    expect(prompt).not.toContain("End with a question");
+    expect(prompt).toMatch(
+      /Example comments in your voice.*\n\n<example>\n인덱스 설계 부분이 흥미로웠어요.\n<\/example>\n\n<example>\nNice take on WAL.\n<\/example>$/,
+    );
+  });
+
+  it("should describe open-ended and single-unit lengths", () => {
+    expect(buildSystemPrompt({ ...persona, length: { max: 1 } })).toContain(
+      "- Keep the comment to at most 1 paragraph.",
+    );
+    expect(buildSystemPrompt({ ...persona, length: { min: 3, unit: "sentences" } })).toContain(
+      "- Keep the comment to at least 3 sentences.",
+    );
+  });
+});
+
+describe("buildUserPrompt", () => {
+  const post: PostContext = {
+    url: "https://blog.example.com/post",
+    title: "Hello",
+    content: "Body",
+    excerpt: "Body",
+  };
+
+  it("should end with the post when there's no conversation", () => {
+    expect(buildUserPrompt(post)).toBe(
+      'Blog post: "Hello"\nURL: https://blog.example.com/post\n\n---\n\nBody',
+    );
+  });
+
+  it("should include earlier comments and who to reply to", () => {
+    const prompt = buildUserPrompt({
+      ...post,
+      thread: {
+        comments: [
+          { author: "A", body: "First!", isReply: false },
+          { author: "B", body: "Not so fast.", isReply: true },
+        ],
+        replyTo: "B",
+      },
+    });
+
+    expect(prompt).toContain("Body\n\n---\n\nComments so far:\n\nA wrote:\nFirst!\n\nB (reply) wrote:\nNot so fast.");
+    expect(prompt).toMatch(/Write a reply to B's latest comment above\..*$/);
+  });
+
+  it("should ask for a new angle when not replying", () => {
+    const prompt = buildUserPrompt({
+      ...post,
+      thread: { comments: [{ author: "A", body: "First!", isReply: false }] },
+    });
+
+    expect(prompt).toMatch(/Write a new top-level comment that brings a different angle.*$/);
+  });
+});
+
+describe("buildPrompts", () => {
+  it("should build the comment prompts unless the caller overrides them", () => {
+    const post: PostContext = { url: "https://x.dev/p", title: "P", content: "Body", excerpt: "Body" };
+
+    expect(buildPrompts(post, persona)).toEqual({
+      system: buildSystemPrompt(persona),
+      user: buildUserPrompt(post),
+    });
+    const prompt = { system: "Judge this.", user: "The draft" };
+    expect(buildPrompts(post, persona, { prompt })).toBe(prompt);
+  });
+});
+
+describe("languageName", () => {
+  it("should resolve codes and pass names through", () => {
+    expect(languageName("ko")).toBe("Korean (한국어)");
+    expect(languageName("en-US")).toBe("English");
+    expect(languageName("Brazilian Portuguese")).toBe("Brazilian Portuguese");
+  });
+});
+
+describe("setPromptTemplates", () => {
+  const post: PostContext = {
+    url: "https://blog.example.com/post",
+    canonicalUrl: "https://example.com/post",
+    title: "Hello",
+    content: "Body",
+    excerpt: "Body",
+    date: new Date("2024-03-05T12:00:00Z"),
+    tags: ["a", "b"],
+  };
+
+  afterEach(() => {
+    setPromptTemplates({});
+  });
+
+  it("should render custom templates, keeping the built-in one for the other", () => {
+    setPromptTemplates({
+      user: parseTemplate(
+        "{{post.title}} ({{post.date}}) {{post.url}}\n{{#each post.tags}}#{{this}} {{/each}}\n\n{{post.content}}\n",
+      ),
+    });
+
+    expect(buildUserPrompt(post)).toBe(
+      "Hello (2024-03-05) https://blog.example.com/post\n#a #b \n\nBody",
+    );
+    expect(buildSystemPrompt(persona)).toContain("- Name: Curious Reader");
+  });
+
+  it("should give templates the persona's derived fields", () => {
+    setPromptTemplates({
+      system: parseTemplate(
+        "{{persona.name}}|{{persona.languageName}}|{{persona.lengthText}}|{{persona.endWithQuestion}}",
+      ),
+    });
+
+    expect(
+      buildSystemPrompt({ ...persona, language: "ko", length: { min: 2, max: 3 } }),
+    ).toBe("Curious Reader|Korean (한국어)|2-3 paragraphs|true");
+  });
+
+  it("should reject a template with an unknown placeholder up front", () => {
+    expect(() =>
+      setPromptTemplates({ system: parseTemplate("{{persona.name}} {{post.title}}", "system.md") }),
+    ).toThrow('Template system.md: unknown placeholder "{{post.title}}"');
+    // The previous templates stay in place
+    expect(buildSystemPrompt(persona)).toContain("- Name: Curious Reader");
+  });
+});
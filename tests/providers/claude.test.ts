@@ -5,7 +5,10 @@
  *   - The system prompt is passed via the dedicated `system` parameter
  *   - User message contains the blog post content
  *   - Response text blocks are extracted correctly
+ *   - Token usage is reported
  *   - Non-text or empty responses throw errors
+ *   - max_tokens defaults to 1024 and sampling options pass through
+ *   - top_p is dropped when a temperature is set
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -46,7 +49,7 @@ describe("ClaudeProvider", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    provider = new ClaudeProvider("claude-sonnet-4-5-20250929", "test-api-key");
+    provider = new ClaudeProvider("claude-sonnet-4-5-20250929", { apiKey: "test-api-key" });
   });
 
   it("should have the correct provider name", () => {
@@ -83,6 +86,18 @@ describe("ClaudeProvider", () => {
     expect(result).toBe("A counterpoint.");
   });
 
+  it("should report the tokens the request used", async () => {
+    createMock.mockResolvedValueOnce({
+      content: [{ type: "text", text: "A counterpoint." }],
+      usage: { input_tokens: 640, output_tokens: 120 },
+    });
+    const onUsage = vi.fn();
+
+    await provider.generateComment(testContext, testPersona, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 640, outputTokens: 120 });
+  });
+
   it("should throw if the response contains no text block", async () => {
     // Simulate an empty content array
     createMock.mockResolvedValueOnce({
@@ -93,4 +108,45 @@ describe("ClaudeProvider", () => {
       provider.generateComment(testContext, testPersona),
     ).rejects.toThrow("Claude returned an empty or non-text response");
   });
+
+  it("should default max_tokens to 1024 and pass sampling options", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A counterpoint." }],
+    });
+
+    await provider.generateComment(testContext, testPersona);
+    expect(createMock.mock.calls[0][0].max_tokens).toBe(1024);
+    expect(createMock.mock.calls[0][0].temperature).toBeUndefined();
+
+    const configured = new ClaudeProvider("claude-sonnet-4-5-20250929", {
+      apiKey: "test-api-key",
+      maxTokens: 400,
+      temperature: 0.3,
+    });
+    await configured.generateComment(testContext, testPersona);
+    expect(createMock.mock.calls[1][0].max_tokens).toBe(400);
+    expect(createMock.mock.calls[1][0].temperature).toBe(0.3);
+  });
+
+  it("should send top_p only when no temperature is set", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A counterpoint." }],
+    });
+
+    const both = new ClaudeProvider("claude-sonnet-4-5-20250929", {
+      apiKey: "test-api-key",
+      temperature: 0.3,
+      topP: 0.9,
+    });
+    await both.generateComment(testContext, testPersona);
+    expect(createMock.mock.calls[0][0].temperature).toBe(0.3);
+    expect(createMock.mock.calls[0][0].top_p).toBeUndefined();
+
+    const nucleus = new ClaudeProvider("claude-sonnet-4-5-20250929", {
+      apiKey: "test-api-key",
+      topP: 0.9,
+    });
+    await nucleus.generateComment(testContext, testPersona);
+    expect(createMock.mock.calls[1][0].top_p).toBe(0.9);
+  });
 });
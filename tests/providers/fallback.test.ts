@@ -0,0 +1,112 @@
+/**
+ * Tests for the provider fallback chain.
+ *
+ * Verifies:
+ *   - The first backend is used when it succeeds
+ *   - Retryable and quota errors move on to the next backend, with a log line
+ *   - Other errors, and failures of the last backend, are rethrown
+ *   - The backend that wrote the comment is reported via onSource
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AIProvider, PostContext, Persona } from "../../src/providers/base.js";
+import { FallbackProvider } from "../../src/providers/fallback.js";
+import { DEFAULT_RETRY_POLICY, HttpError, setRetryPolicy } from "../../src/core/retry.js";
+
+const testContext: PostContext = {
+  url: "https://example.com/blog/test",
+  title: "Test Blog Post",
+  content: "Content.",
+  excerpt: "Content.",
+};
+
+const testPersona: Persona = {
+  name: "Curious Reader",
+  description: "Asks thoughtful questions",
+  tone: "friendly",
+};
+
+/** A backend that fails with `error`, or answers with its own name */
+function backend(name: string, model: string, error?: unknown): AIProvider {
+  return {
+    name,
+    model,
+    generateComment: vi.fn(async () => {
+      if (error) throw error;
+      return `from ${name}`;
+    }),
+  };
+}
+
+describe("FallbackProvider", () => {
+  const logs: string[] = [];
+
+  beforeEach(() => {
+    logs.length = 0;
+    setRetryPolicy({ log: (message) => logs.push(message) });
+  });
+
+  afterEach(() => {
+    setRetryPolicy(DEFAULT_RETRY_POLICY);
+  });
+
+  it("should use the first backend when it succeeds", async () => {
+    const second = backend("openai", "gpt-4o");
+    const chain = new FallbackProvider([backend("claude", "claude-sonnet-4-5"), second]);
+    const onSource = vi.fn();
+
+    await expect(chain.generateComment(testContext, testPersona, { onSource })).resolves.toBe(
+      "from claude",
+    );
+    expect(second.generateComment).not.toHaveBeenCalled();
+    expect(onSource).toHaveBeenCalledWith({ provider: "claude", model: "claude-sonnet-4-5" });
+    expect(chain.name).toBe("claude → openai");
+    expect(chain.model).toBe("claude-sonnet-4-5");
+  });
+
+  it("should fall back on outages and exhausted quota", async () => {
+    const chain = new FallbackProvider([
+      backend("claude", "claude-sonnet-4-5", new HttpError("Overloaded", 529)),
+      backend("openai", "gpt-4o", Object.assign(new HttpError("You exceeded your current quota", 429), { code: "insufficient_quota" })),
+      backend("ollama", "llama3"),
+    ]);
+    const onSource = vi.fn();
+
+    await expect(chain.generateComment(testContext, testPersona, { onSource })).resolves.toBe(
+      "from ollama",
+    );
+    expect(onSource).toHaveBeenCalledWith({ provider: "ollama", model: "llama3" });
+    expect(logs).toEqual([
+      "claude (claude-sonnet-4-5) failed (529 Overloaded); falling back to openai (gpt-4o)",
+      "openai (gpt-4o) failed (429 You exceeded your current quota); falling back to ollama (llama3)",
+    ]);
+  });
+
+  it("should rethrow errors another backend can't fix", async () => {
+    const second = backend("openai", "gpt-4o");
+    const chain = new FallbackProvider([
+      backend("claude", "claude-sonnet-4-5", new HttpError("invalid x-api-key", 401)),
+      second,
+    ]);
+
+    await expect(chain.generateComment(testContext, testPersona)).rejects.toThrow(
+      "invalid x-api-key",
+    );
+    expect(second.generateComment).not.toHaveBeenCalled();
+  });
+
+  it("should rethrow when the last backend fails too", async () => {
+    const chain = new FallbackProvider([
+      backend("claude", "claude-sonnet-4-5", new HttpError("Overloaded", 529)),
+      backend("openai", "gpt-4o", new HttpError("Bad Gateway", 502)),
+    ]);
+
+    await expect(chain.generateComment(testContext, testPersona)).rejects.toThrow("Bad Gateway");
+  });
+
+  it("should reject an empty chain", () => {
+    expect(() => new FallbackProvider([])).toThrow(
+      "A provider fallback chain needs at least one provider",
+    );
+  });
+});
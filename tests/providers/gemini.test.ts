@@ -0,0 +1,135 @@
+/**
+ * Tests for the Gemini provider.
+ *
+ * Runs the provider against a local mock server to verify:
+ *   - The model's generateContent endpoint is called with the API key header
+ *   - The persona goes in systemInstruction, the post in contents
+ *   - Sampling options use Gemini's generationConfig names
+ *   - Multi-part responses are joined; empty and failed responses throw
+ *   - A failed response's body goes into the error (for quota detection)
+ *   - Token usage is reported from usageMetadata
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { PostContext, Persona } from "../../src/providers/base.js";
+import { GeminiProvider } from "../../src/providers/gemini.js";
+import { isQuotaError } from "../../src/core/retry.js";
+import { startMockServer } from "./mock-server.js";
+import type { MockServer } from "./mock-server.js";
+
+const testContext: PostContext = {
+  url: "https://example.com/blog/test",
+  title: "Test Blog Post",
+  content: "# Hello\n\nThis is a test blog post.",
+  excerpt: "This is a test blog post.",
+};
+
+const testPersona: Persona = {
+  name: "Devil's Advocate",
+  description: "Offers respectful counterpoints",
+  tone: "constructive, analytical",
+};
+
+let server: MockServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe("GeminiProvider", () => {
+  it("should call generateContent with the Gemini request shape", async () => {
+    server = await startMockServer({
+      candidates: [
+        { content: { parts: [{ text: "  A counter" }, { text: "point.  " }] } },
+      ],
+    });
+
+    const provider = new GeminiProvider("gemini-2.0-flash", {
+      baseUrl: server.url,
+      apiKey: "gemini-key",
+      temperature: 0.5,
+      maxTokens: 300,
+    });
+    const result = await provider.generateComment(testContext, testPersona);
+
+    expect(result).toBe("A counterpoint.");
+
+    const [request] = server.requests;
+    const body = request.body as {
+      systemInstruction: { parts: { text: string }[] };
+      contents: { parts: { text: string }[] }[];
+      generationConfig: Record<string, number>;
+    };
+    expect(request.url).toBe("/v1beta/models/gemini-2.0-flash:generateContent");
+    expect(request.headers["x-goog-api-key"]).toBe("gemini-key");
+    expect(body.systemInstruction.parts[0].text).toContain("Devil's Advocate");
+    expect(body.contents[0].parts[0].text).toContain("Test Blog Post");
+    expect(body.generationConfig).toEqual({
+      temperature: 0.5,
+      maxOutputTokens: 300,
+    });
+  });
+
+  it("should report the tokens from usageMetadata", async () => {
+    server = await startMockServer({
+      candidates: [{ content: { parts: [{ text: "A counterpoint." }] } }],
+      usageMetadata: { promptTokenCount: 700, candidatesTokenCount: 80, totalTokenCount: 780 },
+    });
+    const onUsage = vi.fn();
+
+    const provider = new GeminiProvider("gemini-2.0-flash", {
+      baseUrl: server.url,
+      apiKey: "gemini-key",
+    });
+    await provider.generateComment(testContext, testPersona, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 700, outputTokens: 80 });
+  });
+
+  it("should throw on an empty response", async () => {
+    server = await startMockServer({ candidates: [] });
+
+    const provider = new GeminiProvider("gemini-2.0-flash", {
+      baseUrl: server.url,
+      apiKey: "gemini-key",
+    });
+    await expect(
+      provider.generateComment(testContext, testPersona),
+    ).rejects.toThrow("Gemini returned an empty response");
+  });
+
+  it("should throw on a failed request", async () => {
+    server = await startMockServer({ error: { message: "bad key" } }, 403);
+
+    const provider = new GeminiProvider("gemini-2.0-flash", {
+      baseUrl: server.url,
+      apiKey: "gemini-key",
+    });
+    await expect(
+      provider.generateComment(testContext, testPersona),
+    ).rejects.toThrow('Gemini request failed: 403 Forbidden — {"error":{"message":"bad key"}}');
+  });
+
+  it("should put the error body in the message, so quota errors are recognized", async () => {
+    server = await startMockServer(
+      { error: { code: 429, message: "You exceeded your current quota", status: "RESOURCE_EXHAUSTED" } },
+      429,
+    );
+
+    const provider = new GeminiProvider("gemini-2.0-flash", {
+      baseUrl: server.url,
+      apiKey: "gemini-key",
+    });
+    const error = await provider.generateComment(testContext, testPersona).catch((e) => e);
+    expect(error.status).toBe(429);
+    expect(isQuotaError(error)).toBe(true);
+  });
+
+  it("should require an API key", () => {
+    delete process.env.GISCUS_BOT_GEMINI_API_KEY;
+    expect(() => new GeminiProvider("gemini-2.0-flash")).toThrow(
+      "Gemini API key is missing",
+    );
+  });
+});
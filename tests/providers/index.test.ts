@@ -0,0 +1,156 @@
+/**
+ * Tests for the provider factory's per-persona overrides.
+ *
+ * Verifies:
+ *   - Personas without overrides keep the top-level provider section
+ *   - Provider names, full configs and model/sampling overrides resolve
+ *   - createPersonaProviders() only builds providers for overriding
+ *     personas, and shares instances between identical overrides
+ *   - createJudgeProvider() only builds a provider for an overriding judge
+ *   - createModerator() only builds a classifier when one is configured
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { GiscusBotConfig, PersonaConfig, ProviderConfig } from "../../src/config/types.js";
+import {
+  createJudgeProvider,
+  createModerator,
+  createPersonaProviders,
+  resolvePersonaProvider,
+} from "../../src/providers/index.js";
+
+const persona: PersonaConfig = { name: "Reader", description: "Reads", tone: "calm" };
+const global: ProviderConfig = { name: "ollama", model: "llama3", temperature: 0.5 };
+
+describe("resolvePersonaProvider", () => {
+  it("should return the top-level provider when the persona has no overrides", () => {
+    expect(resolvePersonaProvider(global, persona)).toBe(global);
+  });
+
+  it("should apply model and sampling overrides to the top-level provider", () => {
+    expect(
+      resolvePersonaProvider(global, { ...persona, model: "mistral", temperature: 1.2 }),
+    ).toEqual({ name: "ollama", model: "mistral", temperature: 1.2 });
+    // The shared config is left untouched
+    expect(global.model).toBe("llama3");
+  });
+
+  it("should keep the primary's settings when the name matches it", () => {
+    expect(
+      resolvePersonaProvider(global, { ...persona, provider: "ollama", model: "qwen" }),
+    ).toEqual({ name: "ollama", model: "qwen", temperature: 0.5 });
+  });
+
+  it("should start fresh for a different provider name", () => {
+    expect(
+      resolvePersonaProvider(global, { ...persona, provider: "claude", model: "claude-sonnet-4-5" }),
+    ).toEqual({ name: "claude", model: "claude-sonnet-4-5" });
+  });
+
+  it("should use a full provider config or list as given", () => {
+    const chain: ProviderConfig[] = [
+      { name: "claude", model: "claude-sonnet-4-5" },
+      { name: "openai", model: "gpt-4o-mini" },
+    ];
+    expect(resolvePersonaProvider(global, { ...persona, provider: chain })).toEqual(chain);
+    expect(
+      resolvePersonaProvider(global, { ...persona, provider: chain, maxTokens: 200 }),
+    ).toEqual([{ ...chain[0], maxTokens: 200 }, chain[1]]);
+  });
+
+  it("should apply overrides to the first provider of a top-level chain", () => {
+    const chain: ProviderConfig[] = [global, { name: "openai", model: "gpt-4o" }];
+    expect(resolvePersonaProvider(chain, { ...persona, topP: 0.9 })).toEqual([
+      { ...global, topP: 0.9 },
+      chain[1],
+    ]);
+  });
+});
+
+describe("createPersonaProviders", () => {
+  it("should build providers only for overriding personas, sharing identical ones", async () => {
+    const config: GiscusBotConfig = {
+      provider: global,
+      github: { repo: "", discussionCategory: "General" },
+      personas: [
+        persona,
+        { name: "A", description: "a", tone: "a", model: "qwen" },
+        { name: "B", description: "b", tone: "b", model: "qwen" },
+        { name: "C", description: "c", tone: "c", model: "phi3" },
+      ],
+      limits: { maxPersonas: 4, postsPerRun: 1 },
+      labeling: { prefix: "🤖" },
+    };
+
+    const providers = await createPersonaProviders(config);
+
+    expect([...providers.keys()]).toEqual(["A", "B", "C"]);
+    expect(providers.get("A")).toBe(providers.get("B"));
+    expect(providers.get("A")).not.toBe(providers.get("C"));
+    expect(providers.get("A")?.model).toBe("qwen");
+    expect(providers.get("C")?.model).toBe("phi3");
+  });
+});
+
+describe("createJudgeProvider", () => {
+  const config: GiscusBotConfig = {
+    provider: global,
+    github: { repo: "", discussionCategory: "General" },
+    personas: [persona],
+    limits: { maxPersonas: 1, postsPerRun: 1 },
+    labeling: { prefix: "🤖" },
+  };
+
+  it("should build a provider only when the judge overrides the top-level one", async () => {
+    expect(await createJudgeProvider(config)).toBeUndefined();
+    expect(await createJudgeProvider({ ...config, judge: { threshold: 4 } })).toBeUndefined();
+    expect(
+      await createJudgeProvider({ ...config, judge: { model: "qwen", enabled: false } }),
+    ).toBeUndefined();
+
+    const judge = await createJudgeProvider({ ...config, judge: { model: "qwen" } });
+    expect(judge?.name).toBe("ollama");
+    expect(judge?.model).toBe("qwen");
+  });
+});
+
+describe("createModerator", () => {
+  const config: GiscusBotConfig = {
+    provider: global,
+    github: { repo: "", discussionCategory: "General" },
+    personas: [persona],
+    limits: { maxPersonas: 1, postsPerRun: 1 },
+    labeling: { prefix: "🤖" },
+  };
+
+  it("should build a moderator only when moderation has a provider", async () => {
+    expect(await createModerator(config)).toBeUndefined();
+    expect(await createModerator({ ...config, moderation: { profanity: true } })).toBeUndefined();
+    expect(
+      await createModerator({
+        ...config,
+        moderation: { enabled: false, provider: { name: "openai" } },
+      }),
+    ).toBeUndefined();
+
+    const moderator = await createModerator({
+      ...config,
+      moderation: { provider: { name: "openai", apiKeyEnv: "GISCUS_BOT_TEST_MODERATION_KEY" } },
+    }).catch((error: Error) => error);
+    expect(moderator).toEqual(
+      new Error(
+        "Environment variable GISCUS_BOT_TEST_MODERATION_KEY (moderation.provider.apiKeyEnv) is not set",
+      ),
+    );
+  });
+
+  it("should build the OpenAI moderator", async () => {
+    vi.stubEnv("GISCUS_BOT_OPENAI_API_KEY", "test-key");
+    const moderator = await createModerator({
+      ...config,
+      moderation: { provider: { name: "openai", baseUrl: "http://127.0.0.1:1/v1" } },
+    });
+    expect(moderator?.name).toBe("openai");
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for the Mistral provider.
+ *
+ * Runs the provider against a local mock server to verify:
+ *   - The chat completions endpoint is called with a bearer token
+ *   - Persona and post go in the system and user messages
+ *   - Sampling options are passed through
+ *   - Token usage is reported
+ *   - Empty and failed responses throw
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { PostContext, Persona } from "../../src/providers/base.js";
+import { MistralProvider } from "../../src/providers/mistral.js";
+import { startMockServer } from "./mock-server.js";
+import type { MockServer } from "./mock-server.js";
+
+const testContext: PostContext = {
+  url: "https://example.com/blog/test",
+  title: "Test Blog Post",
+  content: "# Hello\n\nThis is a test blog post.",
+  excerpt: "This is a test blog post.",
+};
+
+const testPersona: Persona = {
+  name: "Curious Reader",
+  description: "Asks thoughtful questions",
+  tone: "friendly, inquisitive",
+};
+
+let server: MockServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe("MistralProvider", () => {
+  it("should send a chat completion request", async () => {
+    server = await startMockServer({
+      choices: [{ message: { content: "  Nice read!  " } }],
+    });
+
+    const provider = new MistralProvider("mistral-large-latest", {
+      baseUrl: server.url,
+      apiKey: "mistral-key",
+      topP: 0.9,
+    });
+    const result = await provider.generateComment(testContext, testPersona);
+
+    expect(result).toBe("Nice read!");
+
+    const [request] = server.requests;
+    const body = request.body as {
+      model: string;
+      top_p: number;
+      messages: { role: string; content: string }[];
+    };
+    expect(request.url).toBe("/v1/chat/completions");
+    expect(request.headers.authorization).toBe("Bearer mistral-key");
+    expect(body.model).toBe("mistral-large-latest");
+    expect(body.top_p).toBe(0.9);
+    expect(body.messages[0]).toMatchObject({ role: "system" });
+    expect(body.messages[0].content).toContain("Curious Reader");
+    expect(body.messages[1].content).toContain("Test Blog Post");
+  });
+
+  it("should report the tokens the request used", async () => {
+    server = await startMockServer({
+      choices: [{ message: { content: "Nice read!" } }],
+      usage: { prompt_tokens: 530, completion_tokens: 60, total_tokens: 590 },
+    });
+    const onUsage = vi.fn();
+
+    const provider = new MistralProvider("mistral-large-latest", {
+      baseUrl: server.url,
+      apiKey: "mistral-key",
+    });
+    await provider.generateComment(testContext, testPersona, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 530, outputTokens: 60 });
+  });
+
+  it("should throw on an empty response", async () => {
+    server = await startMockServer({ choices: [{ message: { content: "" } }] });
+
+    const provider = new MistralProvider("mistral-large-latest", {
+      baseUrl: server.url,
+      apiKey: "mistral-key",
+    });
+    await expect(
+      provider.generateComment(testContext, testPersona),
+    ).rejects.toThrow("Mistral returned an empty response");
+  });
+
+  it("should throw on a failed request", async () => {
+    server = await startMockServer({ message: "Unauthorized" }, 401);
+
+    const provider = new MistralProvider("mistral-large-latest", {
+      baseUrl: server.url,
+      apiKey: "bad-key",
+    });
+    await expect(
+      provider.generateComment(testContext, testPersona),
+    ).rejects.toThrow('Mistral request failed: 401 Unauthorized — {"message":"Unauthorized"}');
+  });
+});
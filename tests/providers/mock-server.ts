@@ -0,0 +1,66 @@
+/**
+ * A local HTTP server for provider tests.
+ *
+ * Records every request and answers with a canned JSON response, so
+ * providers can be exercised end to end (real SDK / fetch, real HTTP)
+ * without reaching the network.
+ */
+
+import { createServer } from "node:http";
+import type { IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** A request as seen by the mock server */
+export interface RecordedRequest {
+  method: string;
+  /** Path plus query string (e.g., "/v1/chat/completions?x=1") */
+  url: string;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body (narrow it to the API's request shape in the test) */
+  body: unknown;
+}
+
+export interface MockServer {
+  /** Base URL, e.g. "http://127.0.0.1:54321" */
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a server on a random local port that replies to every request
+ * with `status` and the JSON-encoded `response`.
+ */
+export async function startMockServer(
+  response: unknown,
+  status = 200,
+): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({
+        method: req.method ?? "",
+        url: req.url ?? "",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
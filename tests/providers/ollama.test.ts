@@ -0,0 +1,103 @@
+/**
+ * Tests for the Ollama provider.
+ *
+ * Stubs global fetch to verify:
+ *   - Requests go to the configured base URL's /api/chat endpoint
+ *   - Sampling options are sent under Ollama's `options` names
+ *   - An API key is sent as a bearer token
+ *   - A prompt override replaces the comment prompts
+ *   - Token usage is reported from the eval counts
+ *   - Failed requests throw with the HTTP status and response body
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { PostContext, Persona } from "../../src/providers/base.js";
+import { OllamaProvider } from "../../src/providers/ollama.js";
+
+const testContext: PostContext = {
+  url: "https://example.com/blog/test",
+  title: "Test Blog Post",
+  content: "# Hello\n\nThis is a test blog post.",
+  excerpt: "This is a test blog post.",
+};
+
+const testPersona: Persona = {
+  name: "Curious Reader",
+  description: "Asks thoughtful questions",
+  tone: "friendly, inquisitive",
+};
+
+/** Stub fetch with a single canned response */
+function stubFetch(body: unknown, init: { ok?: boolean; status?: number } = {}) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: init.ok ?? true,
+    status: init.status ?? 200,
+    statusText: init.ok === false ? "Bad Gateway" : "OK",
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("OllamaProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should call the configured host with Ollama's option names", async () => {
+    const fetchMock = stubFetch({ message: { content: "  Nice post!  " } });
+
+    const provider = new OllamaProvider("llama3", {
+      baseUrl: "https://ollama.example.com/",
+      apiKey: "proxy-token",
+      temperature: 0.4,
+      topP: 0.8,
+      maxTokens: 256,
+    });
+    const result = await provider.generateComment(testContext, testPersona);
+
+    expect(result).toBe("Nice post!");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://ollama.example.com/api/chat");
+    expect(init.headers.Authorization).toBe("Bearer proxy-token");
+    expect(JSON.parse(init.body).options).toEqual({
+      temperature: 0.4,
+      top_p: 0.8,
+      num_predict: 256,
+    });
+  });
+
+  it("should send a caller's prompts instead of the comment prompts", async () => {
+    const fetchMock = stubFetch({ message: { content: "{}" } });
+
+    const provider = new OllamaProvider("llama3", { baseUrl: "http://localhost:11434" });
+    await provider.generateComment(testContext, testPersona, {
+      prompt: { system: "Judge the draft.", user: "The draft" },
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages).toEqual([
+      { role: "system", content: "Judge the draft." },
+      { role: "user", content: "The draft" },
+    ]);
+  });
+
+  it("should report the tokens from the eval counts", async () => {
+    stubFetch({ message: { content: "Nice post!" }, prompt_eval_count: 420, eval_count: 75 });
+    const onUsage = vi.fn();
+
+    const provider = new OllamaProvider("llama3", { baseUrl: "http://localhost:11434" });
+    await provider.generateComment(testContext, testPersona, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 420, outputTokens: 75 });
+  });
+
+  it("should throw on a failed request", async () => {
+    stubFetch({ error: "model not loaded" }, { ok: false, status: 502 });
+
+    const provider = new OllamaProvider("llama3", { baseUrl: "http://localhost:11434" });
+    await expect(
+      provider.generateComment(testContext, testPersona),
+    ).rejects.toThrow('Ollama request failed: 502 Bad Gateway — {"error":"model not loaded"}');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for the OpenAI-compatible and Azure OpenAI providers.
+ *
+ * Runs the real OpenAI SDK against a local mock server to verify:
+ *   - Requests go to the configured base URL / Azure deployment path
+ *   - Auth headers and the Azure api-version are sent
+ *   - Prompts and sampling options use the Chat Completions shape
+ *   - A base URL is required
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import type { PostContext, Persona } from "../../src/providers/base.js";
+import { OpenAICompatibleProvider } from "../../src/providers/openai-compatible.js";
+import {
+  AzureOpenAIProvider,
+  DEFAULT_AZURE_API_VERSION,
+} from "../../src/providers/azure-openai.js";
+import { startMockServer } from "./mock-server.js";
+import type { MockServer } from "./mock-server.js";
+
+const testContext: PostContext = {
+  url: "https://example.com/blog/test",
+  title: "Test Blog Post",
+  content: "# Hello\n\nThis is a test blog post.",
+  excerpt: "This is a test blog post.",
+};
+
+const testPersona: Persona = {
+  name: "Curious Reader",
+  description: "Asks thoughtful questions",
+  tone: "friendly, inquisitive",
+};
+
+/** A minimal Chat Completions response */
+const completion = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "test",
+  choices: [
+    {
+      index: 0,
+      finish_reason: "stop",
+      message: { role: "assistant", content: "  Great post!  " },
+    },
+  ],
+};
+
+let server: MockServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("should send a chat completion to the configured server", async () => {
+    server = await startMockServer(completion);
+
+    const provider = new OpenAICompatibleProvider("llama-3.1-8b", {
+      baseUrl: `${server.url}/v1`,
+      apiKey: "local-key",
+      maxTokens: 200,
+    });
+    const result = await provider.generateComment(testContext, testPersona);
+
+    expect(provider.name).toBe("openai-compatible");
+    expect(result).toBe("Great post!");
+
+    const [request] = server.requests;
+    const body = request.body as {
+      model: string;
+      max_tokens: number;
+      messages: { content: string }[];
+    };
+    expect(request.method).toBe("POST");
+    expect(request.url).toBe("/v1/chat/completions");
+    expect(request.headers.authorization).toBe("Bearer local-key");
+    expect(body.model).toBe("llama-3.1-8b");
+    expect(body.max_tokens).toBe(200);
+    expect(body.messages[0].content).toContain("Curious Reader");
+    expect(body.messages[1].content).toContain("Test Blog Post");
+  });
+
+  it("should require a base URL", () => {
+    expect(() => new OpenAICompatibleProvider("llama-3.1-8b")).toThrow(
+      'The "openai-compatible" provider requires provider.baseUrl',
+    );
+  });
+});
+
+describe("AzureOpenAIProvider", () => {
+  it("should call the deployment endpoint with the API version", async () => {
+    server = await startMockServer(completion);
+
+    const provider = new AzureOpenAIProvider("my-gpt4o", {
+      baseUrl: server.url,
+      apiKey: "azure-key",
+    });
+    const result = await provider.generateComment(testContext, testPersona);
+
+    expect(provider.name).toBe("azure-openai");
+    expect(result).toBe("Great post!");
+
+    const [request] = server.requests;
+    expect(request.url).toBe(
+      `/openai/deployments/my-gpt4o/chat/completions?api-version=${DEFAULT_AZURE_API_VERSION}`,
+    );
+    expect(request.headers["api-key"]).toBe("azure-key");
+  });
+
+  it("should require the resource endpoint", () => {
+    expect(() => new AzureOpenAIProvider("my-gpt4o", { apiKey: "azure-key" })).toThrow(
+      'The "azure-openai" provider requires provider.baseUrl',
+    );
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the OpenAI moderator.
+ *
+ * Runs the real OpenAI SDK against a local mock server to verify:
+ *   - The comment goes to /moderations with the configured model
+ *   - Flagged categories are returned, and nothing when not flagged
+ *   - Empty responses throw an error
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { OpenAIModerator } from "../../src/providers/openai-moderation.js";
+import { startMockServer } from "./mock-server.js";
+import type { MockServer } from "./mock-server.js";
+
+/** A moderation response with the given categories flagged */
+function moderation(flagged: string[]) {
+  const categories = Object.fromEntries(
+    ["harassment", "hate", "self-harm", "violence"].map((c) => [c, flagged.includes(c)]),
+  );
+  return {
+    id: "modr-1",
+    model: "omni-moderation-latest",
+    results: [{ flagged: flagged.length > 0, categories, category_scores: {} }],
+  };
+}
+
+let server: MockServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe("OpenAIModerator", () => {
+  it("should send the comment to the moderations endpoint", async () => {
+    server = await startMockServer(moderation([]));
+
+    const moderator = new OpenAIModerator(undefined, {
+      apiKey: "test-key",
+      baseUrl: `${server.url}/v1`,
+    });
+    const categories = await moderator.moderate("What did you benchmark?");
+
+    expect(moderator.name).toBe("openai");
+    expect(categories).toEqual([]);
+    expect(server.requests[0].url).toBe("/v1/moderations");
+    expect(server.requests[0].headers.authorization).toBe("Bearer test-key");
+    expect(server.requests[0].body).toEqual({
+      model: "omni-moderation-latest",
+      input: "What did you benchmark?",
+    });
+  });
+
+  it("should return the flagged categories", async () => {
+    server = await startMockServer(moderation(["harassment", "violence"]));
+
+    const moderator = new OpenAIModerator("text-moderation-stable", {
+      apiKey: "test-key",
+      baseUrl: `${server.url}/v1`,
+    });
+
+    expect(await moderator.moderate("...")).toEqual(["harassment", "violence"]);
+    expect(server.requests[0].body).toMatchObject({ model: "text-moderation-stable" });
+  });
+
+  it("should throw on an empty response", async () => {
+    server = await startMockServer({ id: "modr-1", model: "m", results: [] });
+
+    const moderator = new OpenAIModerator(undefined, {
+      apiKey: "test-key",
+      baseUrl: `${server.url}/v1`,
+    });
+
+    await expect(moderator.moderate("...")).rejects.toThrow(
+      "OpenAI returned an empty moderation response",
+    );
+  });
+});
@@ -6,6 +6,8 @@
  *   - User prompt includes blog post content
  *   - Response text is returned and trimmed
  *   - Empty responses throw an error
+ *   - Token usage is reported
+ *   - Connection and sampling options reach the SDK
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -16,8 +18,12 @@ import type { PostContext, Persona } from "../../src/providers/base.js";
 vi.mock("openai", () => {
   // Store the mock function so tests can configure its return value
   const createMock = vi.fn();
+  const constructorMock = vi.fn();
   return {
     default: class MockOpenAI {
+      constructor(options: unknown) {
+        constructorMock(options);
+      }
       chat = {
         completions: {
           create: createMock,
@@ -25,6 +31,7 @@ vi.mock("openai", () => {
       };
     },
     __createMock: createMock,
+    __constructorMock: constructorMock,
   };
 });
 
@@ -34,6 +41,7 @@ import { OpenAIProvider } from "../../src/providers/openai.js";
 // Get a reference to the mock so we can configure return values
 const openaiModule = await import("openai");
 const createMock = (openaiModule as any).__createMock as ReturnType<typeof vi.fn>;
+const constructorMock = (openaiModule as any).__constructorMock as ReturnType<typeof vi.fn>;
 
 // Shared test fixtures
 const testContext: PostContext = {
@@ -54,7 +62,7 @@ describe("OpenAIProvider", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    provider = new OpenAIProvider("gpt-4o", "test-api-key");
+    provider = new OpenAIProvider("gpt-4o", { apiKey: "test-api-key" });
   });
 
   it("should have the correct provider name", () => {
@@ -87,6 +95,21 @@ describe("OpenAIProvider", () => {
     expect(callArgs.messages[1].content).toContain("test blog post about testing");
   });
 
+  it("should include tags and description in the user prompt", async () => {
+    createMock.mockResolvedValueOnce({
+      choices: [{ message: { content: "A comment." } }],
+    });
+
+    await provider.generateComment(
+      { ...testContext, tags: ["testing", "ci"], description: "Why tests matter." },
+      testPersona,
+    );
+
+    const userPrompt = createMock.mock.calls[0][0].messages[1].content;
+    expect(userPrompt).toContain("Tags: testing, ci");
+    expect(userPrompt).toContain("Summary: Why tests matter.");
+  });
+
   it("should return trimmed comment text", async () => {
     createMock.mockResolvedValueOnce({
       choices: [{ message: { content: "  A thoughtful comment.  " } }],
@@ -98,6 +121,18 @@ describe("OpenAIProvider", () => {
     expect(result).toBe("A thoughtful comment.");
   });
 
+  it("should report the tokens the request used", async () => {
+    createMock.mockResolvedValueOnce({
+      choices: [{ message: { content: "A comment." } }],
+      usage: { prompt_tokens: 812, completion_tokens: 95, total_tokens: 907 },
+    });
+    const onUsage = vi.fn();
+
+    await provider.generateComment(testContext, testPersona, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 812, outputTokens: 95 });
+  });
+
   it("should throw an error if the API returns an empty response", async () => {
     createMock.mockResolvedValueOnce({
       choices: [{ message: { content: null } }],
@@ -107,4 +142,41 @@ describe("OpenAIProvider", () => {
       provider.generateComment(testContext, testPersona),
     ).rejects.toThrow("OpenAI returned an empty response");
   });
+
+  it("should default to temperature 0.7", async () => {
+    createMock.mockResolvedValueOnce({
+      choices: [{ message: { content: "A comment." } }],
+    });
+
+    await provider.generateComment(testContext, testPersona);
+
+    expect(createMock.mock.calls[0][0].temperature).toBe(0.7);
+  });
+
+  it("should pass configured options to the client and request", async () => {
+    createMock.mockResolvedValueOnce({
+      choices: [{ message: { content: "A comment." } }],
+    });
+
+    const configured = new OpenAIProvider("gpt-4o", {
+      apiKey: "gateway-key",
+      baseUrl: "https://gateway.example.com/v1",
+      timeout: 30000,
+      temperature: 0.2,
+      topP: 0.9,
+      maxTokens: 300,
+    });
+    await configured.generateComment(testContext, testPersona);
+
+    expect(constructorMock).toHaveBeenLastCalledWith({
+      apiKey: "gateway-key",
+      baseURL: "https://gateway.example.com/v1",
+      timeout: 30000,
+      maxRetries: 0,
+    });
+    const callArgs = createMock.mock.calls[0][0];
+    expect(callArgs.temperature).toBe(0.2);
+    expect(callArgs.top_p).toBe(0.9);
+    expect(callArgs.max_tokens).toBe(300);
+  });
 });
@@ -0,0 +1,177 @@
+/**
+ * Tests for provider plugin loading.
+ *
+ * Writes small plugin modules to a temp directory to verify:
+ *   - Local module paths resolve against the working directory
+ *   - The default-exported factory receives the model and options
+ *   - Modules and providers that break the contract fail with clear errors
+ *   - createProvider() falls through to plugins for non-built-in names
+ *   - Moderation plugins load the same way and are checked for moderate()
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  assertModerator,
+  assertProvider,
+  loadModeratorPlugin,
+  loadProviderPlugin,
+} from "../../src/providers/plugin.js";
+import {
+  createModerator,
+  createProvider,
+  isBuiltinProvider,
+} from "../../src/providers/index.js";
+import type { GiscusBotConfig } from "../../src/config/types.js";
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "giscus-bot-plugin-"));
+  writeFileSync(
+    join(dir, "gateway.mjs"),
+    `export default async function (model, options) {
+       return {
+         name: "acme-gateway",
+         async generateComment(context, persona) {
+           return model + "|" + options.baseUrl + "|" + persona.name + "|" + context.title;
+         },
+       };
+     }`,
+  );
+  writeFileSync(join(dir, "no-default.mjs"), "export const factory = () => ({});");
+  writeFileSync(join(dir, "bad-provider.mjs"), 'export default () => ({ name: "bad" });');
+  writeFileSync(
+    join(dir, "cjs-plugin.cjs"),
+    'exports.default = () => ({ name: "cjs", generateComment: async () => "hi" });',
+  );
+  writeFileSync(
+    join(dir, "word-filter.mjs"),
+    `export default (model, options) => ({
+       name: "word-filter",
+       async moderate(text) {
+         return text.includes(model) ? ["house-rule"] : [];
+       },
+     });`,
+  );
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadProviderPlugin", () => {
+  it("should load a local module's default-exported factory", async () => {
+    const factory = await loadProviderPlugin("./gateway.mjs", dir);
+    const provider = await factory("house-model", { baseUrl: "https://llm.internal" });
+
+    expect(provider.name).toBe("acme-gateway");
+    await expect(
+      provider.generateComment(
+        { url: "u", title: "Post", content: "", excerpt: "" },
+        { name: "Reader", description: "d", tone: "t" },
+      ),
+    ).resolves.toBe("house-model|https://llm.internal|Reader|Post");
+  });
+
+  it("should unwrap a CommonJS exports.default", async () => {
+    const factory = await loadProviderPlugin("./cjs-plugin.cjs", dir);
+    expect((await factory("m", {})).name).toBe("cjs");
+  });
+
+  it("should explain a missing module", async () => {
+    await expect(loadProviderPlugin("./missing.mjs", dir)).rejects.toThrow(
+      'Could not load provider plugin "./missing.mjs"',
+    );
+  });
+
+  it("should reject a module without a default-exported function", async () => {
+    await expect(loadProviderPlugin("./no-default.mjs", dir)).rejects.toThrow(
+      'Provider plugin "./no-default.mjs" must default-export a factory function (model, options) => AIProvider, but its default export is missing',
+    );
+  });
+});
+
+describe("assertProvider", () => {
+  it("should reject a provider without generateComment", () => {
+    expect(() => assertProvider({ name: "bad" }, "./bad-provider.mjs")).toThrow(
+      'Provider plugin "./bad-provider.mjs" returned a provider without a generateComment(context, persona) method',
+    );
+  });
+
+  it("should reject a non-object", () => {
+    expect(() => assertProvider("nope", "x")).toThrow(
+      'Provider plugin "x" must return an AIProvider object, but returned a string',
+    );
+  });
+});
+
+describe("createProvider", () => {
+  it("should recognize built-in provider names", () => {
+    expect(isBuiltinProvider("mistral")).toBe(true);
+    expect(isBuiltinProvider("./gateway.mjs")).toBe(false);
+    expect(isBuiltinProvider("toString")).toBe(false);
+  });
+
+  it("should load and validate plugin providers", async () => {
+    const provider = await createProvider({
+      name: join(dir, "gateway.mjs"),
+      model: "house-model",
+    });
+    expect(provider.name).toBe("acme-gateway");
+
+    await expect(
+      createProvider({ name: join(dir, "bad-provider.mjs"), model: "m" }),
+    ).rejects.toThrow("without a generateComment(context, persona) method");
+  });
+});
+
+describe("moderation plugins", () => {
+  const config: GiscusBotConfig = {
+    provider: { name: "openai", model: "gpt-4o" },
+    github: { repo: "", discussionCategory: "General" },
+    personas: [{ name: "Reader", description: "Reads", tone: "calm" }],
+    limits: { maxPersonas: 1, postsPerRun: 1 },
+    labeling: { prefix: "🤖" },
+  };
+
+  it("should load a moderator factory", async () => {
+    const factory = await loadModeratorPlugin("./word-filter.mjs", dir);
+    const moderator = await factory("crypto", {});
+
+    expect(moderator.name).toBe("word-filter");
+    await expect(moderator.moderate("Buy crypto?")).resolves.toEqual(["house-rule"]);
+  });
+
+  it("should name the plugin kind in load errors", async () => {
+    await expect(loadModeratorPlugin("./no-default.mjs", dir)).rejects.toThrow(
+      'Moderation plugin "./no-default.mjs" must default-export a factory function (model, options) => Moderator, but its default export is missing',
+    );
+  });
+
+  it("should reject a moderator without moderate()", () => {
+    expect(() => assertModerator({ name: "bad" }, "./bad.mjs")).toThrow(
+      'Moderation plugin "./bad.mjs" returned a moderator without a moderate(text) method',
+    );
+    expect(() => assertModerator(null, "x")).toThrow(
+      'Moderation plugin "x" must return a Moderator object, but returned null',
+    );
+  });
+
+  it("should build plugin moderators from the config", async () => {
+    const moderator = await createModerator({
+      ...config,
+      moderation: { provider: { name: join(dir, "word-filter.mjs"), model: "crypto" } },
+    });
+
+    await expect(moderator?.moderate("Buy crypto?")).resolves.toEqual(["house-rule"]);
+    await expect(
+      createModerator({
+        ...config,
+        moderation: { provider: { name: join(dir, "bad-provider.mjs") } },
+      }),
+    ).rejects.toThrow("without a moderate(text) method");
+  });
+});